@@ -1,95 +1,515 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Upload, Sparkles, Grid, Layout, CheckCircle2, Loader2, AlertCircle,
   Key, Trash2, Image as ImageIcon, X, Maximize2, Sliders, User,
-  ChevronDown, ChevronUp, Fingerprint, DownloadCloud, Lock, Unlock,
+  ChevronDown, ChevronUp, Fingerprint, DownloadCloud,
   StopCircle, AlertTriangle, History, Terminal, ExternalLink, ShieldCheck, Scissors,
-  FileText, FolderOpen, Archive, Tag, RefreshCcw, Wand2, PenLine, ToggleLeft, ToggleRight
+  FileText, FolderOpen, Archive, Tag, RefreshCcw, Wand2, PenLine, ToggleLeft, ToggleRight, Layers, Shirt,
+  RotateCcw, Download, BarChart3, Images, Ban, Sun, ListChecks, GitBranch, Star, Crop, Copy, Receipt, ListPlus, Clapperboard
 } from 'lucide-react';
-import JSZip from 'jszip';
-import { GeminiService } from './services/geminiService';
-import { GeneratedImage, Resolution, CharacterAdjustments, GenerationTask, DatasetGroup } from './types';
+import { createProvider } from './services/providers';
+import { PromptBuilder } from './services/promptBuilder';
+import { GenerationQueue, QueueJob } from './services/generationQueue';
+import { ProjectStore } from './services/projectStore';
+import ProjectLibrary from './components/ProjectLibrary';
+import PoseLibraryEditor from './components/PoseLibraryEditor';
+import { PoseLibrary } from './services/poseLibrary';
+import WardrobeManager from './components/WardrobeManager';
+import EnvironmentManager from './components/EnvironmentManager';
+import ProfileEditor from './components/ProfileEditor';
+import IdentityLockPanel from './components/IdentityLockPanel';
+import BalancePlanEditor from './components/BalancePlanEditor';
+import TakeReviewer from './components/TakeReviewer';
+import BatchPreview from './components/BatchPreview';
+import ImageEditor from './components/ImageEditor';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import { Wardrobe } from './services/wardrobe';
+import { Environments } from './services/environments';
+import { SeededRandom } from './services/random';
+import { ManifestService } from './services/manifest';
+import { ReferenceSelector } from './services/referenceSelector';
+import { Verification } from './services/verification';
+import { ProfileService } from './services/characterProfile';
+import { LockResolver } from './services/identityLocks';
+import { BalancePlanner } from './services/balancePlanner';
+import { TakeReview } from './services/takeReview';
+import { Versions } from './services/versions';
+import { DatasetExport } from './services/datasetExport';
+import { PostProcessor } from './services/postProcessor';
+import { DatasetImport } from './services/datasetImport';
+import { BudgetMeter, Usage } from './services/usage';
+import { Workspace } from './services/workspace';
+import UsagePanel from './components/UsagePanel';
+import CharacterTabs from './components/CharacterTabs';
+import SceneStudio from './components/SceneStudio';
+import { SceneLibrary } from './services/sceneLibrary';
+import { ScenePromptBuilder } from './services/scenePromptBuilder';
 import { 
-  CLOTHING_LIST, POSE_DEFINITIONS, FACIAL_EXPRESSIONS, 
-  EYE_COLOR_OPTIONS, BODY_BUILD_OPTIONS, CHEST_SIZE_OPTIONS, HIP_SIZE_OPTIONS
+  GeneratedImage, Resolution, CharacterAdjustments, GenerationTask, DatasetGroup, CaptionSettings, CaptionField, AspectRatio,
+  ProfileMode, ProjectRecord, ProjectSnapshot, ProjectSummary, DatasetPose, QueueSettings,
+  ProviderSettings, WardrobeItem, WardrobeFilter, PoseJob, BatchManifest,
+  ReferenceImage, ReferenceAngle, FrameScore, VerificationSettings, CharacterProfile, IdentityLocks,
+  BalancePlan, PlannedFrame, ReviewStatus, EnvironmentPreset, EnvironmentSettings, CompiledBatch, CompiledFrame,
+  ExportSettings, ExportProfileId, PostProcessSettings, ImageResult, TokenUsage, UsageEntry, UsageKind, PriceEntry, BudgetSettings,
+  RenderTarget, QueuedBatch, AppMode, ScenePose, SceneShot, SceneCharacter
+} from './types';
+import { 
+  DATASET_GROUPS,
+  CHEST_SIZE_OPTIONS, HIP_SIZE_OPTIONS, CAPTION_FIELDS,
+  DEFAULT_ADJUSTMENTS, DEFAULT_CAPTION_SETTINGS, DEFAULT_QUEUE_SETTINGS, CONCURRENCY_OPTIONS,
+  PROVIDER_OPTIONS, DEFAULT_PROVIDER_SETTINGS, DEFAULT_WARDROBE_FILTER, REFERENCE_ANGLE_OPTIONS, MAX_REFERENCES_PER_REQUEST, SCENE_REFERENCES_PER_CHARACTER,
+  DEFAULT_VERIFICATION_SETTINGS, PROFILE_FIELDS, DEFAULT_BALANCE_PLAN, TAKE_OPTIONS,
+  DEFAULT_ENVIRONMENT_SETTINGS, DEFAULT_EXPORT_SETTINGS, EXPORT_PROFILES, DEFAULT_POST_PROCESS_SETTINGS
 } from './constants';
 
+// Lightbox preview of a frame as the export will write it
+interface ProcessedPreview {
+  id: string;
+  url: string;
+  width: number;
+  height: number;
+  faceDetected: boolean;
+  similar: number;
+  skipped: boolean;
+}
+
 interface FailedAsset {
   id: string;
+  projectId: string;
   label: string;
   message: string;
   prompt: string;
   timestamp: number;
+  job: PoseJob;
 }
 
-type ProfileMode = 'auto' | 'manual';
+// Thrown by a metered request that would push spend past the budget cap; the queue treats it as a stop, not a failure
+const BUDGET_CAP_REACHED = "BUDGET_CAP_REACHED";
+
+const IDLE_TASK: GenerationTask = { status: 'pending', phase: 'render', total: 0, current: 0, active: 0, retries: 0, images: [] };
+
+const LAST_PROJECT_KEY = 'ucc:last-project-id';
+const AUTOSAVE_DELAY_MS = 800;
+
+// Kept frames, one version per edit lineage: exactly what the export contains
+const datasetFramesOf = (gallery: GeneratedImage[]) =>
+  gallery.filter(img => TakeReview.isKept(img) && Versions.isActive(gallery, img));
+
+// Imported frames with no matching manifest job carry no prompt, so there is nothing to re-render them from
+const isRegenerable = (img: GeneratedImage) => !!img.prompt.trim();
+
+/**
+ * Writes a stored library back as it is edited. The value it was loaded with is never written, so a load
+ * that skipped bad entries or fell back to built-ins cannot overwrite what is in storage on mount.
+ */
+const useSaveOnEdit = <T,>(value: T, save: (value: T) => void) => {
+  const loaded = useRef(value);
+  useEffect(() => {
+    if (value !== loaded.current) save(value);
+  }, [value]);
+};
 
 const App: React.FC = () => {
   // --- AUTH STATE ---
   const [userApiKey, setUserApiKey] = useState("");
   const [isKeyConfirmed, setIsKeyConfirmed] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>({ ...DEFAULT_PROVIDER_SETTINGS });
+
+  const provider = useMemo(() => createProvider(providerSettings, userApiKey), [providerSettings, userApiKey]);
+
+  const canInitialize = providerSettings.provider === 'mock'
+    || (providerSettings.provider === 'gemini' && !!userApiKey)
+    || (providerSettings.provider === 'http' && !!providerSettings.httpEndpoint.trim());
 
   // --- PROJECT PERSISTENCE STATE ---
   const [projectName, setProjectName] = useState("Character_Alpha");
   const [gallery, setGallery] = useState<GeneratedImage[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [projectSummaries, setProjectSummaries] = useState<ProjectSummary[]>([]);
 
   // --- PROFILE MODE STATE ---
   const [profileMode, setProfileMode] = useState<ProfileMode>('auto');
-  const [manualCharacterProfile, setManualCharacterProfile] = useState("");
+  const [manualCharacterProfile, setManualCharacterProfile] = useState<CharacterProfile>(ProfileService.empty());
 
   // --- APP STATE ---
-  const [sourceImage, setSourceImage] = useState<string | null>(null);
-  const [characterProfile, setCharacterProfile] = useState<string | null>(null);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [characterProfile, setCharacterProfile] = useState<CharacterProfile | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisRequested, setAnalysisRequested] = useState(false);
   const [resolution, setResolution] = useState<Resolution>('1K');
   const [isDragging, setIsDragging] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<GeneratedImage | null>(null);
+  // The lightbox tracks an id so it always shows the frame as it is in the bin
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [editingImage, setEditingImage] = useState<GeneratedImage | null>(null);
+  const [isEditingImage, setIsEditingImage] = useState(false);
   const [hoveredPoseId, setHoveredPoseId] = useState<string | null>(null);
-  const [isBodyLocked, setIsBodyLocked] = useState(false);
-  const [isHairLocked, setIsHairLocked] = useState(true);
+  const [locks, setLocks] = useState<IdentityLocks>(LockResolver.defaults());
   const [isZipping, setIsZipping] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [failedAssets, setFailedAssets] = useState<FailedAsset[]>([]);
+  const [editingFailedId, setEditingFailedId] = useState<string | null>(null);
   
   // UI States
   const [clearConfirmMode, setClearConfirmMode] = useState(false);
   const [expandedGroup, setExpandedGroup] = useState<DatasetGroup | null>('upper');
   const [selectedPoseIds, setSelectedPoseIds] = useState<Set<string>>(new Set());
-
-  const [adjustments, setAdjustments] = useState<CharacterAdjustments>({
-    eyeColor: 'Brown',
-    bodyBuild: 'Average',
-    chestSize: 'Average',
-    hipSize: 'Average'
-  });
-
-  const [task, setTask] = useState<GenerationTask>({
-    status: 'pending',
-    total: 0,
-    current: 0,
-    images: []
-  });
+  const [poseLibrary, setPoseLibrary] = useState<DatasetPose[]>(() => PoseLibrary.load());
+  const [isPoseEditorOpen, setIsPoseEditorOpen] = useState(false);
+  const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(() => Wardrobe.load());
+  const [wardrobeFilter, setWardrobeFilter] = useState<WardrobeFilter>({ ...DEFAULT_WARDROBE_FILTER });
+  const [isWardrobeOpen, setIsWardrobeOpen] = useState(false);
+  const [environments, setEnvironments] = useState<EnvironmentPreset[]>(() => Environments.load());
+  const [environmentSettings, setEnvironmentSettings] = useState<EnvironmentSettings>({ ...DEFAULT_ENVIRONMENT_SETTINGS });
+  const [isEnvironmentOpen, setIsEnvironmentOpen] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [manifests, setManifests] = useState<BatchManifest[]>([]);
+  const [balancePlan, setBalancePlan] = useState<BalancePlan>(DEFAULT_BALANCE_PLAN);
+  const [seedInput, setSeedInput] = useState("");
+  const [takesPerPose, setTakesPerPose] = useState(1);
+  const [compiledBatch, setCompiledBatch] = useState<CompiledBatch | null>(null);
+
+  const [adjustments, setAdjustments] = useState<CharacterAdjustments>({ ...DEFAULT_ADJUSTMENTS });
+
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>({ ...DEFAULT_CAPTION_SETTINGS });
+  const [exportSettings, setExportSettings] = useState<ExportSettings>({ ...DEFAULT_EXPORT_SETTINGS });
+  const [isExportSettingsOpen, setIsExportSettingsOpen] = useState(false);
+  const [postProcess, setPostProcess] = useState<PostProcessSettings>({ ...DEFAULT_POST_PROCESS_SETTINGS });
+  const [isPreviewingProcessed, setIsPreviewingProcessed] = useState(false);
+  const [processedPreview, setProcessedPreview] = useState<ProcessedPreview | null>(null);
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(() => Usage.loadLedger());
+  const [prices, setPrices] = useState<PriceEntry[]>(() => Usage.loadPrices());
+  const [budget, setBudget] = useState<BudgetSettings>(() => Usage.loadBudget());
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [openTabs, setOpenTabs] = useState<string[]>(() => Workspace.loadTabs());
+  const [workspaceQueue, setWorkspaceQueue] = useState<QueuedBatch[]>([]);
+  const [runningProjectIds, setRunningProjectIds] = useState<string[]>([]);
+  const [isExportingWorkspace, setIsExportingWorkspace] = useState(false);
+  const [appMode, setAppMode] = useState<AppMode>(AppMode.DATASET);
+  const [scenePoses, setScenePoses] = useState<ScenePose[]>(() => SceneLibrary.load());
+  const [scenes, setScenes] = useState<SceneShot[]>([]);
+
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>({ ...DEFAULT_QUEUE_SETTINGS });
+
+  const [verificationSettings, setVerificationSettings] = useState<VerificationSettings>({ ...DEFAULT_VERIFICATION_SETTINGS });
+
+  const [task, setTask] = useState<GenerationTask>(IDLE_TASK);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const isAbortedRef = useRef(false);
+  // Spend counted against the cap for the running operation, plus the price of requests still in flight.
+  // Keyed by project for a per-project cap, else a single '*' bucket
+  const budgetRef = useRef<BudgetMeter>(Usage.newMeter());
+  // Read by queue callbacks, which outlive the render that started them, to route frames to the right tab
+  const activeProjectIdRef = useRef<string | null>(null);
+  // Frames and manifests for background tabs, held until the tab is opened again
+  const backgroundRef = useRef(new Map<string, { images: GeneratedImage[]; manifests: BatchManifest[]; scenes: SceneShot[] }>());
+  // Project writes outside autosave run one at a time so a background merge never races a tab switch
+  const storeChainRef = useRef<Promise<unknown>>(Promise.resolve());
+  const hydrationStartedRef = useRef(false);
 
   // Get the active profile based on mode
-  const getActiveProfile = (): string | null => {
-    if (profileMode === 'auto') {
-      return characterProfile;
-    } else {
-      return manualCharacterProfile.trim() || null;
-    }
+  const getActiveProfile = (): CharacterProfile | null =>
+    ProfileService.active(profileMode, characterProfile, manualCharacterProfile);
+
+  const isHairKept = LockResolver.isKept(locks, ['hairColor', 'hairLength', 'hairstyle']);
+  const isBuildKept = LockResolver.isKept(locks, ['build']);
+
+  // Flattened profile text recorded in frame metadata and manifests
+  const getActiveProfileText = (): string => {
+    const profile = getActiveProfile();
+    return profile ? ProfileService.describe(profile) : "";
   };
 
   // Check if we're ready to generate (have a valid profile)
-  const isProfileReady = (): boolean => {
-    if (profileMode === 'auto') {
-      return !!characterProfile;
-    } else {
-      return manualCharacterProfile.trim().length > 0;
+  const isProfileReady = (): boolean => !ProfileService.isEmpty(getActiveProfile());
+
+  const buildSnapshot = (): ProjectSnapshot => ({
+    name: projectName,
+    references,
+    characterProfile,
+    manualCharacterProfile,
+    profileMode,
+    adjustments,
+    locks,
+    captionSettings,
+    exportSettings,
+    postProcess,
+    wardrobeFilter,
+    environment: environmentSettings,
+    verification: verificationSettings,
+    manifests,
+    balancePlan,
+    gallery,
+    scenes
+  });
+
+  const applySnapshot = (record: ProjectRecord) => {
+    // Pick up anything a background batch delivered while this character was parked
+    const pending = backgroundRef.current.get(record.id);
+    backgroundRef.current.delete(record.id);
+    activeProjectIdRef.current = record.id;
+    setActiveProjectId(record.id);
+    setOpenTabs(prev => Workspace.open(prev, record.id));
+    setProjectName(record.name);
+    setReferences(record.references);
+    setCharacterProfile(record.characterProfile);
+    setManualCharacterProfile(record.manualCharacterProfile);
+    setProfileMode(record.profileMode);
+    setAdjustments(record.adjustments);
+    setLocks(LockResolver.normalize(record.locks));
+    setCaptionSettings(record.captionSettings);
+    setExportSettings(record.exportSettings ?? { ...DEFAULT_EXPORT_SETTINGS });
+    setPostProcess(record.postProcess ?? { ...DEFAULT_POST_PROCESS_SETTINGS });
+    setWardrobeFilter(record.wardrobeFilter ?? { ...DEFAULT_WARDROBE_FILTER });
+    setEnvironmentSettings(record.environment ?? { ...DEFAULT_ENVIRONMENT_SETTINGS });
+    setVerificationSettings(record.verification ?? { ...DEFAULT_VERIFICATION_SETTINGS });
+    setManifests(Workspace.merge(record.manifests ?? [], pending?.manifests ?? []));
+    setBalancePlan(record.balancePlan ?? DEFAULT_BALANCE_PLAN);
+    setGallery(Workspace.merge(record.gallery, pending?.images ?? []));
+    setScenes(Workspace.merge(record.scenes ?? [], pending?.scenes ?? []));
+    // A workspace run spans tabs, so its progress survives the switch
+    setTask(prev => prev.status === 'generating' ? prev : IDLE_TASK);
+    setSelectedPoseIds(new Set());
+    setSelectedImageId(null);
+    setCompiledBatch(null);
+    localStorage.setItem(LAST_PROJECT_KEY, record.id);
+  };
+
+  const persist = <T,>(write: () => Promise<T>): Promise<T> => {
+    const next = storeChainRef.current.then(write);
+    storeChainRef.current = next.catch(err => console.error("Project write failed", err));
+    return next;
+  };
+
+  // Takes a parked character back into the open tab, with anything delivered for it in the meantime
+  const reclaimProject = (id: string) => {
+    activeProjectIdRef.current = id;
+    const pending = backgroundRef.current.get(id);
+    backgroundRef.current.delete(id);
+    if (!pending) return;
+    setGallery(prev => Workspace.merge(prev, pending.images));
+    setManifests(prev => Workspace.merge(prev, pending.manifests));
+    setScenes(prev => Workspace.merge(prev, pending.scenes));
+  };
+
+  /**
+   * Puts the character `load` returns in place of the open one. The open character is saved from this render and
+   * the ref is cleared before the first await, so frames that land mid-switch are buffered for their own character
+   * rather than written into state that is about to be replaced. If nothing loads, the open character stays.
+   */
+  const replaceActiveProject = async (load: () => Promise<ProjectRecord | null>): Promise<boolean> => {
+    const previousId = activeProjectIdRef.current;
+    // A cleared ref means another switch is in flight and owns the tab
+    if (!previousId) return false;
+    const snapshot = buildSnapshot();
+    activeProjectIdRef.current = null;
+    persist(() => ProjectStore.save(previousId, snapshot)).catch(() => undefined);
+    let record: ProjectRecord | null;
+    try {
+      record = await load();
+    } catch (err) {
+      reclaimProject(previousId);
+      throw err;
+    }
+    if (!record) {
+      reclaimProject(previousId);
+      return false;
+    }
+    applySnapshot(record);
+    await refreshProjectList();
+    return true;
+  };
+
+  const switchCharacter = async (id: string): Promise<boolean> => {
+    if (id === activeProjectIdRef.current) return true;
+    return replaceActiveProject(async () => {
+      const record = await ProjectStore.get(id);
+      if (!record) setOpenTabs(prev => Workspace.close(prev, id));
+      return record;
+    });
+  };
+
+  const addCharacter = () =>
+    replaceActiveProject(() => ProjectStore.create(ProjectStore.createSnapshot(`Character_${projectSummaries.length + 1}`)));
+
+  // Closing a tab only parks the character; it stays in the project library and its queued batches still run
+  const closeCharacterTab = async (id: string) => {
+    if (openTabs.length <= 1) return;
+    if (id === activeProjectIdRef.current) {
+      const next = Workspace.neighbour(openTabs, id);
+      if (!next || !(await switchCharacter(next))) return;
+    }
+    setOpenTabs(prev => prev.length > 1 ? Workspace.close(prev, id) : prev);
+  };
+
+  /**
+   * Routes rendered frames, scene shots and manifests to their character. The open tab takes them straight into state;
+   * a background tab gets them buffered (merged on its next open) and written to its stored project.
+   */
+  const deliverToProject = (projectId: string, delivery: { images?: GeneratedImage[]; manifests?: BatchManifest[]; scenes?: SceneShot[] }) => {
+    const images = delivery.images ?? [];
+    const manifests = delivery.manifests ?? [];
+    const scenes = delivery.scenes ?? [];
+    if (projectId === activeProjectIdRef.current) {
+      if (images.length > 0) setGallery(prev => [...images, ...prev]);
+      if (manifests.length > 0) setManifests(prev => [...manifests, ...prev]);
+      if (scenes.length > 0) setScenes(prev => [...scenes, ...prev]);
+      return;
+    }
+    const pending = backgroundRef.current.get(projectId) ?? { images: [], manifests: [], scenes: [] };
+    backgroundRef.current.set(projectId, {
+      images: [...images, ...pending.images],
+      manifests: [...manifests, ...pending.manifests],
+      scenes: [...scenes, ...pending.scenes]
+    });
+    persist(async () => {
+      // Once the tab is open again its live state owns the project and autosave writes it
+      if (projectId === activeProjectIdRef.current) return;
+      const record = await ProjectStore.get(projectId);
+      if (!record || projectId === activeProjectIdRef.current) return;
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...snapshot } = record;
+      await ProjectStore.save(projectId, {
+        ...snapshot,
+        gallery: Workspace.merge(snapshot.gallery, images),
+        manifests: Workspace.merge(snapshot.manifests ?? [], manifests),
+        scenes: Workspace.merge(snapshot.scenes ?? [], scenes)
+      });
+    }).then(refreshProjectList).catch(() => undefined);
+  };
+
+  const refreshProjectList = async () => {
+    try {
+      setProjectSummaries(await ProjectStore.list());
+    } catch (err) {
+      console.error("Project list failed", err);
+    }
+  };
+
+  // Restore the last open project (or start a fresh one) once on mount
+  useEffect(() => {
+    if (hydrationStartedRef.current) return;
+    hydrationStartedRef.current = true;
+    const hydrate = async () => {
+      try {
+        const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+        const record = lastId ? await ProjectStore.get(lastId) : null;
+        applySnapshot(record || await ProjectStore.create(buildSnapshot()));
+        // Tabs saved from an earlier session can point at projects deleted since
+        const summaries = await ProjectStore.list();
+        setProjectSummaries(summaries);
+        setOpenTabs(prev => prev.filter(id => summaries.some(p => p.id === id)));
+      } catch (err) {
+        console.error("Project restore failed", err);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    hydrate();
+  }, []);
+
+  // Debounced autosave so frames from a running batch are persisted as they arrive
+  useEffect(() => {
+    if (!isHydrated || !activeProjectId) return;
+    const timer = setTimeout(() => {
+      // Mid-switch the leaving character has already been saved, and frames for it are merged into the store
+      if (activeProjectIdRef.current !== activeProjectId) return;
+      ProjectStore.save(activeProjectId, buildSnapshot()).catch(err => console.error("Autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    isHydrated, activeProjectId, projectName, references, characterProfile, manualCharacterProfile,
+    profileMode, adjustments, locks, captionSettings, exportSettings, postProcess, wardrobeFilter, environmentSettings, verificationSettings, manifests, balancePlan, gallery, scenes
+  ]);
+
+  const openLibrary = async () => {
+    if (activeProjectId) await ProjectStore.save(activeProjectId, buildSnapshot()).catch(err => console.error("Autosave failed", err));
+    await refreshProjectList();
+    setIsLibraryOpen(true);
+  };
+
+  // Project actions run from click handlers, so a failed store call is reported here rather than left unhandled
+  const runProjectAction = async (label: string, action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(`${label} failed`, err);
+      window.alert(`${label} failed: ${err.message || err}`);
     }
   };
 
+  // Like tabs, the library can switch characters mid-run: frames keep routing to the character that queued them
+  const openProject = (id: string) => runProjectAction("Opening the project", async () => {
+    await switchCharacter(id);
+    setIsLibraryOpen(false);
+  });
+
+  const createProject = () => runProjectAction("Creating the project", async () => {
+    await addCharacter();
+    setIsLibraryOpen(false);
+  });
+
+  const duplicateProject = (id: string) => runProjectAction("Duplicating the project", async () => {
+    await ProjectStore.duplicate(id);
+    await refreshProjectList();
+  });
+
+  const renameProject = (id: string, name: string) => runProjectAction("Renaming the project", async () => {
+    await ProjectStore.rename(id, name);
+    if (id === activeProjectId) setProjectName(name);
+    await refreshProjectList();
+  });
+
+  const deleteProject = (id: string) => runProjectAction("Deleting the project", async () => {
+    if (!window.confirm("Delete this project and all of its saved frames? This cannot be undone.")) return;
+    await ProjectStore.remove(id);
+    backgroundRef.current.delete(id);
+    setOpenTabs(prev => Workspace.close(prev, id));
+    setWorkspaceQueue(prev => prev.filter(q => q.target.projectId !== id));
+    if (id === activeProjectId) {
+      const nextId = Workspace.neighbour(openTabs, id) ?? (await ProjectStore.list())[0]?.id;
+      const record = nextId ? await ProjectStore.get(nextId) : null;
+      applySnapshot(record || await ProjectStore.create(ProjectStore.createSnapshot("Character_Alpha")));
+    }
+    await refreshProjectList();
+  });
+
+  useSaveOnEdit(wardrobe, items => Wardrobe.save(items));
+
+  useSaveOnEdit(environments, presets => Environments.save(presets));
+
+  useSaveOnEdit(scenePoses, poses => SceneLibrary.save(poses));
+
+  useEffect(() => {
+    Usage.saveLedger(usageLedger);
+  }, [usageLedger]);
+
+  useEffect(() => {
+    Workspace.saveTabs(openTabs);
+  }, [openTabs]);
+
+  useEffect(() => {
+    Usage.savePrices(prices);
+  }, [prices]);
+
+  useEffect(() => {
+    Usage.saveBudget(budget);
+  }, [budget]);
+
+  useSaveOnEdit(poseLibrary, poses => PoseLibrary.save(poses));
+
+  // Drop selections that point at deleted poses
+  useEffect(() => {
+    setSelectedPoseIds(prev => {
+      const ids = new Set(poseLibrary.map(p => p.id));
+      const next = new Set([...prev].filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [poseLibrary]);
+
   // Clear timeout for confirmation mode
   useEffect(() => {
     if (clearConfirmMode) {
@@ -98,24 +518,44 @@ const App: React.FC = () => {
     }
   }, [clearConfirmMode]);
 
-  const processFile = (file: File) => {
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setSourceImage(base64String);
-        // Only auto-analyze if in auto mode
-        if (profileMode === 'auto') {
-          analyzeImage(base64String.split(',')[1]);
-        }
-      };
-      reader.readAsDataURL(file);
+  const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  const processFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    try {
+      const urls = await Promise.all(images.map(readAsDataUrl));
+      const stamp = Date.now();
+      // Appends to the latest list, so a second drop landing mid-read never overwrites the first.
+      // The first reference of a character is assumed frontal; later uploads are retagged by hand.
+      setReferences(prev => [...prev, ...urls.map((url, i): ReferenceImage => ({
+        id: `ref-${stamp}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+        url,
+        angle: prev.length === 0 && i === 0 ? 'front' : 'angled'
+      }))]);
+      setAnalysisRequested(true);
+    } catch (err: any) {
+      console.error("Reference upload failed", err);
+      window.alert(`Could not read the reference images: ${err?.message || err}`);
     }
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) processFile(file);
+    processFiles(Array.from(event.target.files || []));
+    event.target.value = "";
+  };
+
+  const updateReferenceAngle = (id: string, angle: ReferenceAngle) => {
+    setReferences(prev => prev.map(ref => ref.id === id ? { ...ref, angle } : ref));
+  };
+
+  const removeReference = (id: string) => {
+    setReferences(prev => prev.filter(ref => ref.id !== id));
   };
 
   const handleDragOver = (e: React.DragEvent) => { e.preventDefault(); setIsDragging(true); };
@@ -123,14 +563,13 @@ const App: React.FC = () => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files?.[0];
-    if (file) processFile(file);
+    processFiles(Array.from(e.dataTransfer.files || []));
   };
 
-  const analyzeImage = async (base64: string) => {
+  const analyzeReferences = async (refs: ReferenceImage[]) => {
     setIsAnalyzing(true);
     try {
-      const profile = await GeminiService.analyzeCharacter(userApiKey, base64);
+      const profile = await provider.analyzeCharacter(refs);
       setCharacterProfile(profile);
     } catch (err: any) {
       if (err.message.includes("401") || err.message === "API_KEY_EXPIRED") {
@@ -140,17 +579,24 @@ const App: React.FC = () => {
   };
 
   const retryAnalysis = () => {
-    if (sourceImage) {
-      analyzeImage(sourceImage.split(',')[1]);
+    if (references.length > 0) {
+      analyzeReferences(references);
     }
   };
 
   const triggerAnalysis = () => {
-    if (sourceImage && profileMode === 'auto') {
-      analyzeImage(sourceImage.split(',')[1]);
+    if (references.length > 0 && profileMode === 'auto') {
+      analyzeReferences(references);
     }
   };
 
+  // Uploads re-analyze once their references are in state, so the profile reflects every image dropped so far
+  useEffect(() => {
+    if (!analysisRequested) return;
+    setAnalysisRequested(false);
+    triggerAnalysis();
+  }, [analysisRequested, references]);
+
   const stopGeneration = () => {
     isAbortedRef.current = true;
     setTask(prev => ({ ...prev, status: 'stopped' }));
@@ -161,74 +607,101 @@ const App: React.FC = () => {
     setGallery(prev => prev.filter(img => img.id !== id));
   };
 
-  const getLockedIdentityMod = (isPortrait: boolean = false, isSideProfile: boolean = false) => {
-    const activeProfile = getActiveProfile();
-    if (!activeProfile) return "";
-    
-    let profile = activeProfile;
-    const hairPart = profile.match(/HAIR:\s*([^.]+)/i)?.[1] || "";
-    
-    if (isPortrait && profile) {
-      profile = profile.split('.')
-        .filter(s => !s.toLowerCase().includes('body build') && !s.toLowerCase().includes('proportion') && !s.toLowerCase().includes('waist'))
-        .join('.');
-    }
-
-    const poseConstraint = isSideProfile 
-      ? "CRITICAL: Ignore reference orientation; force profile specified in TARGET POSE." 
-      : "Preserve identity features and facial structure exactly.";
+  // Writes one character's dataset with that character's own export, caption and post-processing settings
+  const exportSnapshot = async (snapshot: ProjectSnapshot): Promise<GeneratedImage[]> => {
+    const exportSettings = snapshot.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+    const { zip, skipped } = await DatasetExport.build(datasetFramesOf(snapshot.gallery), exportSettings, {
+      projectName: snapshot.name,
+      captionSettings: snapshot.captionSettings,
+      manifests: snapshot.manifests ?? [],
+      postProcess: snapshot.postProcess ?? DEFAULT_POST_PROCESS_SETTINGS
+    });
+    const content = await zip.generateAsync({ type: 'blob' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(content);
+    link.download = `${snapshot.name}_Dataset_${exportSettings.profile}_${Date.now()}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+    return skipped;
+  };
 
-    let base = `IDENTITY CONSTRAINTS: ${poseConstraint} Eyes: ${adjustments.eyeColor}. Profile: ${profile}.`;
-    
-    if (isHairLocked && hairPart) {
-      base += ` MANDATORY HAIR CONSISTENCY: ${hairPart}. DO NOT ALTER LENGTH OR STYLE.`;
+  const downloadAll = async () => {
+    if (datasetFrames.length === 0) return;
+    setIsZipping(true);
+    try {
+      const skipped = await exportSnapshot(buildSnapshot());
+      if (skipped.length > 0) {
+        window.alert(`${skipped.length} near-duplicate frame${skipped.length === 1 ? ' was' : 's were'} left out of the export: ${skipped.map(img => img.meta.poseLabel).join(', ')}`);
+      }
+    } catch (err: any) {
+      window.alert(`Dataset export failed: ${err.message || err}`);
+    } finally {
+      setIsZipping(false);
     }
+  };
 
-    if (isPortrait) return base;
-
-    if (isBodyLocked) {
-      base += ` Keep the exact original body build and proportions from reference image.`;
-    } else {
-      base += ` Targeted Build: ${adjustments.bodyBuild}, Chest: ${adjustments.chestSize}, Hips: ${adjustments.hipSize}.`;
+  // One archive per open character tab; tabs with nothing kept are skipped
+  const exportWorkspace = async () => {
+    setIsExportingWorkspace(true);
+    const skippedByCharacter: string[] = [];
+    let exportedCount = 0;
+    try {
+      for (const id of openTabs) {
+        let snapshot: ProjectSnapshot | null = id === activeProjectId ? buildSnapshot() : await ProjectStore.get(id);
+        const pending = backgroundRef.current.get(id);
+        if (snapshot && pending && id !== activeProjectId) snapshot = { ...snapshot, gallery: Workspace.merge(snapshot.gallery, pending.images) };
+        if (!snapshot || datasetFramesOf(snapshot.gallery).length === 0) continue;
+        const skipped = await exportSnapshot(snapshot);
+        exportedCount++;
+        if (skipped.length > 0) skippedByCharacter.push(`${snapshot.name}: ${skipped.length}`);
+      }
+      if (exportedCount === 0) window.alert("No open character has kept frames to export yet.");
+      else if (skippedByCharacter.length > 0) window.alert(`Near-duplicates left out of the exports — ${skippedByCharacter.join(', ')}`);
+    } catch (err: any) {
+      console.error("Workspace export failed", err);
+      window.alert(`Workspace export failed: ${err.message || err}`);
+    } finally {
+      setIsExportingWorkspace(false);
     }
-    
-    return base;
   };
 
-  const downloadAll = async () => {
-    if (gallery.length === 0) return;
-    setIsZipping(true);
+  // Loads a dataset archive back into the bin; frames are treated as already reviewed since they were exported
+  const importDataset = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
     try {
-      const zip = new JSZip();
-      gallery.forEach((img, idx) => {
-        const base64Data = img.url.split(',')[1];
-        if (base64Data) {
-          const poseId = img.id.split('-').pop();
-          const pose = POSE_DEFINITIONS.find(p => p.id === poseId);
-          const poseLabel = pose ? pose.label.replace(/\s+/g, '_') : `Frame_${idx}`;
-          const fileName = `${projectName}_${poseLabel}_${idx}.png`;
-          zip.file(fileName, base64Data, { base64: true });
-        }
-      });
-      const content = await zip.generateAsync({ type: 'blob' });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = `${projectName}_Dataset_${Date.now()}.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
-    } catch (error) {
-      console.error("Zipping failed", error);
+      const result = await DatasetImport.read(file, poseLibrary);
+      if (result.images.length === 0) {
+        window.alert("No PNG, JPEG or WebP frames were found in that archive.");
+        return;
+      }
+      setGallery(prev => [...result.images, ...prev]);
+      setManifests(prev => [...prev, ...result.manifests.filter(m => !prev.some(p => p.id === m.id))]);
+      window.alert(`Imported ${result.images.length} frames: ${result.matched} matched to poses${result.unmatched > 0 ? `, ${result.unmatched} kept under their file name` : ''}${result.ungrouped > 0 ? `. ${result.ungrouped} had no recoverable group and export without one` : ''}.`);
+    } catch (err: any) {
+      window.alert(`Import failed: ${err.message || err}`);
     } finally {
-      setIsZipping(false);
+      setIsImporting(false);
     }
   };
 
+  const toggleCaptionField = (field: CaptionField) => {
+    setCaptionSettings(prev => ({
+      ...prev,
+      omitFields: prev.omitFields.includes(field)
+        ? prev.omitFields.filter(f => f !== field)
+        : [...prev.omitFields, field]
+    }));
+  };
+
   const executeClearBin = () => {
     setGallery([]);
-    setTask({ status: 'pending', total: 0, current: 0, images: [] });
-    setFailedAssets([]);
+    setTask(IDLE_TASK);
+    dismissProjectFailures();
     setClearConfirmMode(false);
   };
 
@@ -242,133 +715,760 @@ const App: React.FC = () => {
     }
   };
 
-  const startDatasetMode = async () => {
-    if (!sourceImage || !isProfileReady() || !isKeyConfirmed || selectedPoseIds.size === 0) return;
-    isAbortedRef.current = false;
-    
-    setTask({ status: 'generating', total: selectedPoseIds.size, current: 0, images: [] });
-    setFailedAssets([]);
-
-    const selectedPoses = POSE_DEFINITIONS.filter(p => selectedPoseIds.has(p.id));
-    
-    for (const pose of selectedPoses) {
-      if (isAbortedRef.current) break;
-      
-      const isPortrait = pose.group === 'portrait';
-      const descLower = pose.description.toLowerCase();
-      const isSideProfile = descLower.includes('90-degree') || descLower.includes('profile');
-      const identityMod = getLockedIdentityMod(isPortrait, isSideProfile);
-      const clothing = CLOTHING_LIST[Math.floor(Math.random() * CLOTHING_LIST.length)];
-      
-      const expressionKeywords = [
-        "smile", "smirk", "laugh", "teeth", "wink", "gaze", 
-        "thoughtful", "serene", "nose", "lip", "joy", "fear", 
-        "anxious", "vulnerable", "stern", "desperate", "exhaustion", 
-        "serene", "concentrated", "neutral", "stoic", "pensive", "rembrandt"
-      ];
-      const hasExpressionInPose = expressionKeywords.some(kw => descLower.includes(kw));
-
-      const expression = hasExpressionInPose 
-        ? "" 
-        : (isPortrait || pose.group === 'upper') 
-            ? FACIAL_EXPRESSIONS[Math.floor(Math.random() * FACIAL_EXPRESSIONS.length)] 
-            : "neutral gaze";
-      
-      const ar = pose.group === 'full' ? "3:4" : "1:1";
-      
-      // UPGRADED: Stronger direction control for rear, 45°, and profile poses
-      let directionMod = "";
-
-      const isRear = descLower.includes('rear') || descLower.includes('behind') || descLower.includes('back view') || descLower.includes('view from behind');
-      const isOverShoulder = descLower.includes('looking back at camera');
-      const isLeft = descLower.includes('left');
-      const isRight = descLower.includes('right');
-      const isProfile = descLower.includes('90') || descLower.includes('profile');
-      const is45 = descLower.includes('45');
-      // STRICT FRONTAL: Only triggered if no other directionality is found and explicit frontal keywords exist
-      const isFrontal = (descLower.includes('frontal') || (descLower.includes('center') && !descLower.includes('behind'))) && !isLeft && !isRight && !isRear;
-
-      if (isRear || is45 || isProfile || isLeft || isRight) {
-        let base = "CRITICAL: SHOT ORIENTATION — ";
-
-        if (isRear) {
-          base += "Rear view. Subject is facing away from camera. ";
-          if (isLeft) base += "Camera positioned behind and to the right — seeing back of head and left side only. ";
-          if (isRight) base += "Camera positioned behind and to the left — seeing back of head and right side only. ";
-        } else if (isProfile) {
-          base += "Strict 90-degree side profile. ";
-          if (isLeft) base += "Facing screen-left. Only left profile visible. ";
-          if (isRight) base += "Facing screen-right. Only right profile visible. ";
-        } else if (is45 || isLeft || isRight) {
-          base += "Angled orientation. ";
-          if (isLeft) base += "Subject facing screen-left. ";
-          if (isRight) base += "Subject facing screen-right. ";
-        }
+  // Later variants of a pose get their own stream; the first keeps the plain pose key so old seeds still replay
+  const compilePoseJob = (pose: DatasetPose, batchId: string, seed: number, variant = 0): PoseJob => {
+    const random = SeededRandom.derive(seed, variant ? `${pose.id}#${variant}` : pose.id);
+    const clothing = Wardrobe.pickOutfit(wardrobe, wardrobeFilter, pose.group, random).description;
+    const expression = PromptBuilder.resolveExpression(pose, options => SeededRandom.pick(options, random));
+    const variations = LockResolver.pickVariations(locks, random);
+    const environment = Environments.pick(environments, environmentSettings, pose, random);
+    const job: PoseJob = {
+      pose, prompt: "", clothing, expression, variations,
+      environment: environment ? environment.caption || environment.name.toLowerCase() : undefined,
+      environmentId: environment?.id,
+      aspectRatio: PromptBuilder.getAspectRatio(pose), resolution, batchId, seed, variant
+    };
+    return { ...job, prompt: buildJobPrompt(job) };
+  };
 
-        if (isOverShoulder) {
-          base += "Subject is looking back at the camera over their shoulder, but primary body orientation is maintained. ";
-        }
+  // Rebuilds the prompt from a job's resolved picks, e.g. after one of them was re-rolled in the batch preview
+  const buildJobPrompt = (job: PoseJob): string => {
+    const environment = environments.find(e => e.id === job.environmentId);
+    return PromptBuilder.buildPrompt({
+      pose: job.pose,
+      profile: getActiveProfile(),
+      adjustments,
+      locks,
+      variations: job.variations,
+      clothing: job.clothing,
+      expression: job.expression,
+      environment: Environments.isUsable(environment) ? Environments.describe(environment) : undefined
+    });
+  };
 
-        base += "ABSOLUTELY NO FULL FRONTAL FACE. DO NOT TURN SUBJECT TOWARD CAMERA.";
-        directionMod = base;
+  const poseFromImage = (img: GeneratedImage): DatasetPose =>
+    poseLibrary.find(p => p.id === img.meta.poseId) || {
+      id: img.meta.poseId,
+      label: img.meta.poseLabel,
+      group: img.meta.group,
+      description: img.meta.poseDescription || img.meta.poseLabel
+    };
+
+  // Rebuilds the job that produced a frame, so it can be re-rendered with the exact same prompt
+  const jobFromImage = (img: GeneratedImage): PoseJob => ({
+    pose: poseFromImage(img),
+    prompt: img.prompt,
+    clothing: img.meta.clothing,
+    expression: img.meta.expression,
+    variations: img.meta.variations ?? {},
+    environment: img.meta.environment,
+    aspectRatio: img.meta.aspectRatio,
+    resolution: img.meta.resolution,
+    batchId: img.meta.batchId || "",
+    seed: img.meta.seed ?? 0,
+    variant: img.meta.variant,
+    take: img.meta.take
+  });
 
-      } else if (isFrontal) {
-        directionMod = "Direct frontal view. Subject looking straight into camera with both eyes fully visible and centered.";
-      }
-      
-      const framingMod = isPortrait 
-        ? "85mm lens, Tight headshot, shoulder-up framing only, clear facial features, bokeh studio background." 
-        : "Professional framing, standard lens.";
+  const balanceResult = useMemo(() => BalancePlanner.build(balancePlan, poseLibrary), [balancePlan, poseLibrary]);
+  const takeGroups = useMemo(() => TakeReview.groups(gallery), [gallery]);
+  const datasetFrames = useMemo(() => datasetFramesOf(gallery), [gallery]);
+  const keptCount = datasetFrames.length;
+  const generatedBalance = useMemo(() => BalancePlanner.histogram(datasetFrames.map(poseFromImage)), [datasetFrames, poseLibrary]);
+  const selectedImage: GeneratedImage | null = useMemo(() => gallery.find((img: GeneratedImage) => img.id === selectedImageId) ?? null, [gallery, selectedImageId]);
+  const selectedLineage = selectedImage ? Versions.lineage(gallery, selectedImage) : [];
+  const projectFailures = failedAssets.filter(f => f.projectId === activeProjectId);
+  // The open tab reads live state; parked tabs read their stored summary
+  const characterTabs = openTabs.map(id => {
+    const summary = projectSummaries.find(p => p.id === id);
+    const isOpen = id === activeProjectId;
+    return {
+      id,
+      name: isOpen ? projectName : summary?.name ?? 'Character',
+      frameCount: isOpen ? gallery.length : summary?.frameCount ?? 0,
+      queued: workspaceQueue.filter(q => q.target.projectId === id).reduce((sum, q) => sum + q.manifest.jobs.length, 0),
+      running: task.status === 'generating' && runningProjectIds.includes(id)
+    };
+  });
+  const queueEstimate = workspaceQueue.flatMap(q => q.manifest.jobs).reduce((sum, job) => sum + Usage.price(prices, provider.imageModel, job.resolution), 0);
+  const projectSpend = useMemo(() => usageLedger.filter(e => e.projectId === (activeProjectId ?? '')).reduce((sum, e) => sum + e.cost, 0), [usageLedger, activeProjectId]);
+  // Pre-flight for Generate Batch: every selected pose times the takes, at the current resolution
+  const batchEstimate = Usage.estimate(prices, provider.imageModel, resolution, selectedPoseIds.size * takesPerPose);
+  const budgetRemaining = budget.enabled ? budget.limit - Usage.spent(usageLedger, budget, activeProjectId ?? '') : Infinity;
 
-      let prompt = `DATASET PRODUCTION. ${directionMod ? `${directionMod} ` : ''}TARGET POSE: ${pose.description}. COMPOSITION: ${framingMod}. ${expression ? `EXPRESSION: ${expression}. ` : ''}CLOTHING: ${clothing}. ${identityMod}. ENVIRONMENT: Professional neutral high-key studio, seamless gray backdrop. 8k resolution, high detail.`;
-      
+  // Renders the lightbox frame through the export post-processing so crops and duplicates can be checked first
+  useEffect(() => {
+    if (!selectedImage || !isPreviewingProcessed || !postProcess.enabled) {
+      setProcessedPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const image = selectedImage;
+    const preview = async () => {
       try {
-        const imageUrl = await GeminiService.generateCharacterImage(userApiKey, sourceImage, prompt, resolution, ar);
-        
+        const frame = await PostProcessor.render(image.url, postProcess, image.meta.group);
+        const similar = postProcess.dedupe ? await PostProcessor.similar(image, datasetFrames, postProcess.dedupeThreshold) : [];
+        const skipped = similar.length > 0 && (await PostProcessor.duplicates(datasetFrames, postProcess.dedupeThreshold)).has(image.id);
+        if (cancelled) return;
+        setProcessedPreview({
+          id: image.id,
+          url: frame.canvas.toDataURL('image/png'),
+          width: frame.canvas.width,
+          height: frame.canvas.height,
+          faceDetected: frame.faceDetected,
+          similar: similar.length,
+          skipped
+        });
+      } catch (err) {
+        console.error("Post-processing preview failed", err);
+      }
+    };
+    preview();
+    return () => { cancelled = true; };
+  }, [selectedImage, isPreviewingProcessed, postProcess, datasetFrames]);
+
+  const haltOnFatal = (err: any) => {
+    setIsKeyConfirmed(false);
+    setTask(prev => ({ ...prev, error: err.message, status: 'failed' }));
+  };
+
+  const jobKey = (job: PoseJob) =>
+    `${job.pose.id}${job.variant ? `-v${job.variant}` : ''}${job.take ? `-t${job.take}` : ''}`;
+
+  // Starts a spend window for the budget cap: a batch counts from zero, project and day scopes from the ledger
+  const openBudget = () => {
+    budgetRef.current = Usage.newMeter();
+  };
+
+  // The open character as a render target, for batches launched from this tab
+  const activeTarget = (): RenderTarget => ({
+    projectId: activeProjectId ?? '',
+    projectName,
+    references,
+    profile: getActiveProfileText(),
+    locks,
+    adjustments: { ...adjustments }
+  });
+
+  /**
+   * Runs one image request against `meter` and records it in the usage ledger. Its price is reserved while
+   * in flight so concurrent workers cannot overshoot the cap together; failed requests are logged at no cost.
+   */
+  const meteredRequest = async (
+    meter: BudgetMeter, kind: UsageKind, owner: RenderTarget, resolution: Resolution, batchId: string | undefined, request: () => Promise<ImageResult>
+  ): Promise<ImageResult> => {
+    const key = budget.scope === 'project' ? owner.projectId : '*';
+    const price = Usage.price(prices, provider.imageModel, resolution);
+    if (!Usage.reserve(meter, key, Usage.spent(usageLedger, budget, owner.projectId), price, budget.enabled ? budget.limit : null)) {
+      throw new Error(BUDGET_CAP_REACHED);
+    }
+    const record = (success: boolean, usage?: TokenUsage) => {
+      const cost = success ? price : 0;
+      Usage.settle(meter, key, price, cost);
+      const entry: UsageEntry = {
+        id: Usage.newEntryId(),
+        timestamp: Date.now(),
+        projectId: owner.projectId,
+        projectName: owner.projectName,
+        batchId,
+        kind,
+        provider: provider.id,
+        model: provider.imageModel,
+        resolution,
+        success,
+        usage,
+        cost
+      };
+      setUsageLedger(prev => Usage.append(prev, entry));
+    };
+    try {
+      const result = await request();
+      record(true, result.usage);
+      return result;
+    } catch (err) {
+      record(false);
+      throw err;
+    }
+  };
+
+  const budgetHaltMessage = () =>
+    `Budget cap of ${Usage.formatCost(budget.limit)} per ${budget.scope} reached. Remaining frames were not requested.`;
+
+  /**
+   * Renders one pass of jobs; returns the frames that made it into a bin and whether the queue halted.
+   * Jobs render for the open character unless `targetOf` assigns them to another tab.
+   */
+  const renderPoseJobs = async (jobs: PoseJob[], targetOf?: (job: PoseJob) => RenderTarget): Promise<{ images: GeneratedImage[]; halted: boolean }> => {
+    const images: GeneratedImage[] = [];
+    let isHalted = false;
+    const openTarget = activeTarget();
+    const resolveTarget = targetOf ?? (() => openTarget);
+    const projectIds = [...new Set(jobs.map(job => resolveTarget(job).projectId))];
+
+    setTask({ ...IDLE_TASK, status: 'generating', phase: 'render', total: jobs.length });
+    setRunningProjectIds(projectIds);
+
+    const queueJobs: QueueJob<ImageResult>[] = jobs.map(job => ({
+      id: jobKey(job),
+      execute: () => meteredRequest(budgetRef.current, 'generate', resolveTarget(job), job.resolution, job.batchId, () =>
+        provider.generateImage({ references: ReferenceSelector.select(resolveTarget(job).references, job.pose), prompt: job.prompt, resolution: job.resolution, aspectRatio: job.aspectRatio })
+      ),
+      onSuccess: (result, attempt) => {
+        const target = resolveTarget(job);
         const newImage: GeneratedImage = { 
-          id: `dataset-${Date.now()}-${pose.id}`, 
-          url: imageUrl, 
-          prompt, 
+          id: `dataset-${Date.now()}-${jobKey(job)}-${Math.random().toString(36).slice(2, 6)}`, 
+          url: result.url, 
+          prompt: job.prompt, 
           timestamp: Date.now(), 
-          group: pose.group 
+          group: job.pose.group,
+          meta: {
+            poseId: job.pose.id,
+            poseLabel: job.pose.label,
+            poseDescription: job.pose.description,
+            group: job.pose.group,
+            clothing: job.clothing,
+            expression: job.expression,
+            environment: job.environment,
+            aspectRatio: job.aspectRatio,
+            resolution: job.resolution,
+            model: provider.imageModel,
+            profile: target.profile,
+            locks: target.locks,
+            variations: job.variations,
+            adjustments: { ...target.adjustments },
+            attempt,
+            batchId: job.batchId,
+            seed: job.seed,
+            variant: job.variant,
+            take: job.take
+          },
+          review: job.take ? 'pending' : undefined
         };
 
-        setSelectedPoseIds(prev => {
-          const next = new Set(prev);
-          next.delete(pose.id);
-          return next;
-        });
+        if (target.projectId === activeProjectIdRef.current) {
+          setSelectedPoseIds(prev => {
+            const next = new Set(prev);
+            next.delete(job.pose.id);
+            return next;
+          });
+        }
 
-        setGallery(prev => [newImage, ...prev]);
+        images.push(newImage);
+        deliverToProject(target.projectId, { images: [newImage] });
         setTask(prev => ({
           ...prev,
           current: prev.current + 1,
           images: [newImage, ...prev.images]
         }));
-      } catch (err: any) {
-        if (err.message.includes("401") || err.message === "API_KEY_EXPIRED") {
-          setIsKeyConfirmed(false);
-          setTask(prev => ({ ...prev, error: err.message, status: 'failed' }));
-          return;
-        }
-
+      },
+      onFailure: (err: any) => {
+        // Frames the budget cap kept from starting were never requested, so they are not failures
+        if (err.message === BUDGET_CAP_REACHED) return;
         setFailedAssets(prev => [{
-          id: `failed-${Date.now()}-${pose.id}`,
-          label: pose.label,
+          id: `failed-${Date.now()}-${job.pose.id}`,
+          projectId: resolveTarget(job).projectId,
+          label: job.pose.label,
           message: err.message,
-          prompt: prompt,
-          timestamp: Date.now()
+          prompt: job.prompt,
+          timestamp: Date.now(),
+          job
         }, ...prev]);
 
         setTask(prev => ({ ...prev, current: prev.current + 1 }));
       }
+    }));
+
+    await GenerationQueue.run(queueJobs, queueSettings, {
+      isAborted: () => isAbortedRef.current || budgetRef.current.halted,
+      onActiveChange: (active) => setTask(prev => ({ ...prev, active })),
+      onRetry: () => setTask(prev => ({ ...prev, retries: prev.retries + 1 })),
+      onFatal: (err: any) => {
+        isHalted = true;
+        haltOnFatal(err);
+      }
+    });
+
+    if (budgetRef.current.halted && !isHalted) {
+      isHalted = true;
+      setTask(prev => ({ ...prev, status: 'stopped', active: 0, error: budgetHaltMessage() }));
+      window.alert(budgetHaltMessage());
+    }
+    setRunningProjectIds([]);
+
+    return { images, halted: isHalted };
+  };
+
+  // Scores frames against the references; each score is written straight onto the bin entry
+  const verifyFrames = async (images: GeneratedImage[]): Promise<{ images: GeneratedImage[]; halted: boolean }> => {
+    const scored: GeneratedImage[] = [];
+    let isHalted = false;
+
+    setTask(prev => ({ ...prev, status: 'generating', phase: 'verify', total: images.length, current: 0, active: 0, retries: 0 }));
+
+    const queueJobs: QueueJob<FrameScore>[] = images.map(img => ({
+      id: img.id,
+      execute: () => {
+        const pose = poseFromImage(img);
+        return provider.verifyFrame({
+          image: img.url,
+          references: ReferenceSelector.select(references, pose),
+          poseDescription: pose.description,
+          profile: img.meta.profile
+        });
+      },
+      onSuccess: (frameScore) => {
+        const score = Verification.create(frameScore, provider.analysisModel);
+        scored.push({ ...img, score });
+        setGallery(prev => prev.map(g => g.id === img.id ? { ...g, score } : g));
+        setTask(prev => ({ ...prev, current: prev.current + 1 }));
+      },
+      onFailure: (err: any) => {
+        // An unverifiable frame stays in the bin unscored rather than being thrown away
+        console.error(`Verification failed for ${img.meta.poseId}`, err);
+        setTask(prev => ({ ...prev, current: prev.current + 1 }));
+      }
+    }));
+
+    await GenerationQueue.run(queueJobs, queueSettings, {
+      isAborted: () => isAbortedRef.current,
+      onActiveChange: (active) => setTask(prev => ({ ...prev, active })),
+      onRetry: () => setTask(prev => ({ ...prev, retries: prev.retries + 1 })),
+      onFatal: (err: any) => {
+        isHalted = true;
+        haltOnFatal(err);
+      }
+    });
+
+    return { images: scored, halted: isHalted };
+  };
+
+  /**
+   * Re-renders frames that scored below the threshold (or missed their pose) with their original prompt.
+   * A failing frame is only dropped from the bin once its replacement has rendered.
+   */
+  const regenerateFailing = async (failing: GeneratedImage[]) => {
+    const result = await renderPoseJobs(failing.map(jobFromImage));
+    const replacedSlots = new Set(result.images.map(img => TakeReview.slotKey(img)));
+    const dropIds = new Set(failing.filter(img => replacedSlots.has(TakeReview.slotKey(img))).map(img => img.id));
+    setGallery(prev => prev.filter(img => !dropIds.has(img.id)));
+    return result;
+  };
+
+  const verifyAndRegenerate = async (images: GeneratedImage[]) => {
+    let pending = images;
+    for (let round = 0; pending.length > 0 && !isAbortedRef.current; round++) {
+      const verified = await verifyFrames(pending);
+      if (verified.halted) return false;
+      if (!verificationSettings.autoRegenerate || round >= verificationSettings.maxRegenerations) break;
+      const failing = Verification.failing(verified.images, verificationSettings.threshold).filter(isRegenerable);
+      if (failing.length === 0 || isAbortedRef.current) break;
+      const rendered = await regenerateFailing(failing);
+      if (rendered.halted) return false;
+      pending = rendered.images;
     }
-    if (!isAbortedRef.current) setTask(prev => ({ ...prev, status: 'completed' }));
+    return true;
   };
 
-  const selectRecommended702010 = () => {
+  const runPoseJobs = async (jobs: PoseJob[]) => {
+    if (references.length === 0 || jobs.length === 0) return;
+    isAbortedRef.current = false;
+    openBudget();
+
+    const rendered = await renderPoseJobs(jobs);
+    if (rendered.halted) return;
+    // Scores are written to the open bin, so auto-verify is skipped once the user has moved to another tab
+    if (verificationSettings.autoVerify && !isAbortedRef.current && activeProjectIdRef.current === activeProjectId) {
+      if (!(await verifyAndRegenerate(rendered.images))) return;
+    }
+
+    if (!isAbortedRef.current) setTask(prev => ({ ...prev, status: 'completed', active: 0 }));
+  };
+
+  // A scene cast member from live state when it is the open tab, otherwise from its saved project
+  const loadSceneCharacter = async (projectId: string): Promise<SceneCharacter> => {
+    if (projectId === activeProjectId) {
+      return {
+        projectId,
+        name: projectName,
+        references,
+        profile: getActiveProfile(),
+        adjustments: { ...adjustments },
+        locks,
+        clothing: Wardrobe.pickOutfit(wardrobe, wardrobeFilter, 'full').description
+      };
+    }
+    const record = await ProjectStore.get(projectId);
+    if (!record) throw new Error("A cast member's project no longer exists.");
+    return {
+      projectId,
+      name: record.name,
+      references: record.references,
+      profile: ProfileService.active(record.profileMode, record.characterProfile, record.manualCharacterProfile),
+      adjustments: { ...record.adjustments },
+      locks: LockResolver.normalize(record.locks),
+      clothing: Wardrobe.pickOutfit(wardrobe, record.wardrobeFilter ?? DEFAULT_WARDROBE_FILTER, 'full').description
+    };
+  };
+
+  /**
+   * Renders two-character shots for the open tab. Each character wears one outfit for the whole run,
+   * so a set of scenes reads as the same session; the shots are billed and stored on the open project.
+   */
+  const generateScenes = async (poses: ScenePose[], castIds: [string, string], environmentId: string | null) => {
+    if (task.status === 'generating' || poses.length === 0) return;
+    let cast: [SceneCharacter, SceneCharacter];
+    try {
+      cast = [await loadSceneCharacter(castIds[0]), await loadSceneCharacter(castIds[1])];
+      const missing = cast.filter(c => c.references.length === 0);
+      if (missing.length > 0) throw new Error(`${missing.map(c => c.name).join(' and ')} ${missing.length === 1 ? 'has' : 'have'} no reference images.`);
+    } catch (err: any) {
+      window.alert(`Scene setup failed: ${err.message}`);
+      return;
+    }
+
+    const preset = environments.find(e => e.id === environmentId);
+    const environment = Environments.isUsable(preset) ? Environments.describe(preset) : '';
+    const owner = activeTarget();
+    const batchId = `scene-${Date.now()}`;
+    const sceneReferences = ScenePromptBuilder.references(cast, SCENE_REFERENCES_PER_CHARACTER);
+    const failures: string[] = [];
+    let isHalted = false;
+
+    // Scene runs keep their own spend window rather than resetting the shared batch meter
+    const meter = Usage.newMeter();
+    isAbortedRef.current = false;
+    setTask({ ...IDLE_TASK, status: 'generating', phase: 'render', total: poses.length });
+    setRunningProjectIds([owner.projectId]);
+
+    const queueJobs: QueueJob<ImageResult>[] = poses.map(pose => {
+      const prompt = ScenePromptBuilder.buildPrompt({ pose, cast, environment });
+      return {
+        id: pose.id,
+        execute: () => meteredRequest(meter, 'generate', owner, resolution, batchId, () =>
+          provider.generateImage({ references: sceneReferences, prompt, resolution, aspectRatio: pose.aspectRatio })
+        ),
+        onSuccess: (result) => {
+          const shot: SceneShot = {
+            id: `scene-${Date.now()}-${pose.id}`,
+            url: result.url,
+            prompt,
+            timestamp: Date.now(),
+            sceneId: pose.id,
+            sceneLabel: pose.label,
+            cast: cast.map(c => ({ projectId: c.projectId, name: c.name, clothing: c.clothing })),
+            environment,
+            aspectRatio: pose.aspectRatio,
+            resolution,
+            model: provider.imageModel
+          };
+          deliverToProject(owner.projectId, { scenes: [shot] });
+          setTask(prev => ({ ...prev, current: prev.current + 1 }));
+        },
+        onFailure: (err: any) => {
+          if (err.message === BUDGET_CAP_REACHED) return;
+          failures.push(`${pose.label}: ${err.message}`);
+          setTask(prev => ({ ...prev, current: prev.current + 1 }));
+        }
+      };
+    });
+
+    await GenerationQueue.run(queueJobs, queueSettings, {
+      isAborted: () => isAbortedRef.current || meter.halted,
+      onActiveChange: (active) => setTask(prev => ({ ...prev, active })),
+      onRetry: () => setTask(prev => ({ ...prev, retries: prev.retries + 1 })),
+      onFatal: (err: any) => {
+        isHalted = true;
+        haltOnFatal(err);
+      }
+    });
+    setRunningProjectIds([]);
+
+    if (isHalted) return;
+    if (meter.halted) {
+      setTask(prev => ({ ...prev, status: 'stopped', active: 0, error: budgetHaltMessage() }));
+      window.alert(budgetHaltMessage());
+      return;
+    }
+    if (failures.length > 0) {
+      window.alert(`${failures.length} scene${failures.length === 1 ? '' : 's'} failed:\n${failures.join('\n')}`);
+    }
+    if (!isAbortedRef.current) setTask(prev => ({ ...prev, status: 'completed', active: 0 }));
+  };
+
+  const verifyBin = async () => {
+    if (task.status === 'generating' || !isKeyConfirmed || references.length === 0 || gallery.length === 0) return;
+    isAbortedRef.current = false;
+    if (!(await verifyFrames(gallery)).halted && !isAbortedRef.current) {
+      setTask(prev => ({ ...prev, status: 'completed', active: 0 }));
+    }
+  };
+
+  const regenerateBelowThreshold = async () => {
+    if (task.status === 'generating' || !isKeyConfirmed || references.length === 0) return;
+    const below = Verification.failing(gallery, verificationSettings.threshold);
+    const failing = below.filter(isRegenerable);
+    const skipped = below.length - failing.length;
+    if (skipped > 0) window.alert(`${skipped} imported frame${skipped === 1 ? ' has' : 's have'} no recorded prompt and will not be regenerated.`);
+    if (failing.length === 0) return;
+    isAbortedRef.current = false;
+    openBudget();
+    const rendered = await regenerateFailing(failing);
+    if (rendered.halted) return;
+    if (verificationSettings.autoVerify && !isAbortedRef.current) {
+      if (!(await verifyAndRegenerate(rendered.images))) return;
+    }
+    if (!isAbortedRef.current) setTask(prev => ({ ...prev, status: 'completed', active: 0 }));
+  };
+
+  const compileFrames = (frames: PlannedFrame[], batchId: string, seed: number): CompiledFrame[] =>
+    frames.map(f => ({ job: compilePoseJob(f.pose, batchId, seed, f.variant), pinClothing: false, pinExpression: false, edited: false }));
+
+  const compileBatch = (frames: PlannedFrame[]): CompiledBatch | null => {
+    const seed = seedInput.trim() ? SeededRandom.parse(seedInput) : SeededRandom.newSeed();
+    if (seed === null) {
+      window.alert(`Seed must be a whole number from 0 to ${0xffffffff}.`);
+      return null;
+    }
+    const id = ManifestService.newBatchId();
+    try {
+      return { id, seed, frames: compileFrames(frames, id, seed) };
+    } catch (err: any) {
+      window.alert(err.message);
+      return null;
+    }
+  };
+
+  const manifestFor = (batch: CompiledBatch): BatchManifest => {
+    // Every take of a frame shares one compiled prompt, so the takes differ only by render
+    const jobs = batch.frames.flatMap(({ job }) =>
+      takesPerPose > 1 ? Array.from({ length: takesPerPose }, (_, i) => ({ ...job, take: i + 1 })) : [job]
+    );
+
+    return ManifestService.create({
+      id: batch.id,
+      createdAt: Date.now(),
+      seed: batch.seed,
+      projectName,
+      provider: provider.id,
+      models: { image: provider.imageModel, analysis: provider.analysisModel },
+      settings: {
+        profileMode,
+        profile: getActiveProfileText(),
+        adjustments: { ...adjustments },
+        locks,
+        wardrobeFilter,
+        environment: environmentSettings,
+        queue: queueSettings
+      },
+      jobs
+    });
+  };
+
+  const runCompiledBatch = async (batch: CompiledBatch) => {
+    const manifest = manifestFor(batch);
+    setManifests(prev => [manifest, ...prev]);
+    await runPoseJobs(manifest.jobs);
+  };
+
+  // Parks the selected frames as a compiled batch for this character; the workspace queue renders it later
+  const queueBatch = () => {
+    if (references.length === 0 || !isProfileReady() || selectedPoseIds.size === 0) return;
+    const batch = compileBatch(selectedFrames());
+    if (!batch) return;
+    setWorkspaceQueue(prev => [...prev, { target: activeTarget(), manifest: manifestFor(batch) }]);
+    setSelectedPoseIds(new Set());
+  };
+
+  /**
+   * Renders every queued batch in one pass, interleaving the characters job by job so they progress together.
+   * Each frame and manifest lands in its own character's bin, whichever tab is open when it arrives.
+   */
+  const runWorkspaceQueue = async () => {
+    if (workspaceQueue.length === 0 || !isKeyConfirmed || task.status === 'generating') return;
+    const queued: QueuedBatch[] = workspaceQueue;
+    const targets = new Map(queued.map(q => [q.manifest.id, q.target]));
+    setWorkspaceQueue([]);
+    isAbortedRef.current = false;
+    openBudget();
+    queued.forEach(q => deliverToProject(q.target.projectId, { manifests: [q.manifest] }));
+
+    const jobs = Workspace.interleave(queued.map(q => q.manifest.jobs));
+    const rendered = await renderPoseJobs(jobs, job => targets.get(job.batchId!)!);
+    if (!rendered.halted && !isAbortedRef.current) setTask(prev => ({ ...prev, status: 'completed', active: 0 }));
+  };
+
+  const canLaunch = () => references.length > 0 && isProfileReady() && isKeyConfirmed && task.status !== 'generating';
+
+  const launchBatch = async (frames: PlannedFrame[]) => {
+    if (!canLaunch() || frames.length === 0) return;
+    const batch = compileBatch(frames);
+    if (batch) await runCompiledBatch(batch);
+  };
+
+  const selectedFrames = (): PlannedFrame[] =>
+    poseLibrary.filter(p => selectedPoseIds.has(p.id)).map(pose => ({ pose, variant: 0 }));
+
+  const startDatasetMode = () => launchBatch(selectedFrames());
+
+  const previewBatch = () => {
+    if (!isProfileReady() || selectedPoseIds.size === 0) return;
+    const batch = compileBatch(selectedFrames());
+    if (batch) setCompiledBatch(batch);
+  };
+
+  const launchCompiledBatch = async () => {
+    if (!compiledBatch || !canLaunch()) return;
+    const batch = compiledBatch;
+    setCompiledBatch(null);
+    await runCompiledBatch(batch);
+  };
+
+  const updateCompiledFrame = (index: number, update: (frame: CompiledFrame) => CompiledFrame) => {
+    setCompiledBatch(prev => prev && { ...prev, frames: prev.frames.map((f, i) => i === index ? update(f) : f) });
+  };
+
+  // Draws a fresh pick for one field of one frame and recompiles its prompt; the other picks stay put
+  const rerollFrame = (index: number, field: 'clothing' | 'expression') => {
+    const frame = compiledBatch?.frames[index];
+    if (!frame) return;
+    const { pose } = frame.job;
+    let job: PoseJob;
+    try {
+      job = field === 'clothing'
+        ? { ...frame.job, clothing: Wardrobe.pickOutfit(wardrobe, wardrobeFilter, pose.group).description }
+        : { ...frame.job, expression: PromptBuilder.resolveExpression(pose, options => SeededRandom.pick(options, Math.random)) };
+    } catch (err: any) {
+      window.alert(err.message);
+      return;
+    }
+    updateCompiledFrame(index, f => ({ ...f, job: { ...job, prompt: buildJobPrompt(job) } }));
+  };
+
+  // Recompiles the whole preview under a new seed, keeping pinned picks and hand-edited prompts
+  const rerollBatch = () => {
+    if (!compiledBatch) return;
+    const seed = SeededRandom.newSeed();
+    let fresh: CompiledFrame[];
+    try {
+      fresh = compileFrames(compiledBatch.frames.map(f => ({ pose: f.job.pose, variant: f.job.variant ?? 0 })), compiledBatch.id, seed);
+    } catch (err: any) {
+      window.alert(err.message);
+      return;
+    }
+    setCompiledBatch({
+      ...compiledBatch,
+      seed,
+      frames: compiledBatch.frames.map((old, i) => {
+        if (old.edited) return old;
+        const job = {
+          ...fresh[i].job,
+          clothing: old.pinClothing ? old.job.clothing : fresh[i].job.clothing,
+          expression: old.pinExpression ? old.job.expression : fresh[i].job.expression
+        };
+        return { ...old, job: { ...job, prompt: buildJobPrompt(job) } };
+      })
+    });
+  };
+
+  const revertFramePrompt = (index: number) => {
+    updateCompiledFrame(index, frame => ({ ...frame, edited: false, job: { ...frame.job, prompt: buildJobPrompt(frame.job) } }));
+  };
+
+  const startPlannedBatch = () => {
+    if (task.status === 'generating') return;
+    setIsPlannerOpen(false);
+    return launchBatch(balanceResult.frames);
+  };
+
+  // Re-runs the exact compiled prompts of a past batch, including its resolution and per-pose picks
+  const replayManifest = async (manifest: BatchManifest) => {
+    if (references.length === 0 || !isKeyConfirmed || task.status === 'generating') return;
+    await runPoseJobs(manifest.jobs);
+  };
+
+  const downloadManifest = (manifest: BatchManifest) => {
+    const blob = new Blob([ManifestService.toJson(projectName, [manifest])], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${projectName}_${manifest.id}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  // Failed entries are replayed with their stored (optionally edited) prompt; new failures re-enter the matrix
+  const retryFailedAssets = async (ids: string[]) => {
+    if (task.status === 'generating' || !isKeyConfirmed) return;
+    const targets = failedAssets.filter(f => ids.includes(f.id));
+    if (targets.length === 0) return;
+    setEditingFailedId(null);
+    setFailedAssets(prev => prev.filter(f => !ids.includes(f.id)));
+    await runPoseJobs(targets.map(f => ({ ...f.job, prompt: f.prompt })));
+  };
+
+  const updateFailedPrompt = (id: string, prompt: string) => {
+    setFailedAssets(prev => prev.map(f => f.id === id ? { ...f, prompt } : f));
+  };
+
+  // Failures from other tabs stay put until their character is opened
+  const dismissProjectFailures = () => {
+    setFailedAssets(prev => prev.filter(f => f.projectId !== activeProjectId));
+  };
+
+  const dismissFailedAsset = (id: string) => {
+    setFailedAssets(prev => prev.filter(f => f.id !== id));
+  };
+
+  const setReviewStatus = (id: string, review: ReviewStatus) => {
+    setGallery(prev => Versions.setReview(prev, id, review));
+  };
+
+  const selectExportVersion = (id: string) => {
+    setGallery(prev => Versions.select(prev, id));
+  };
+
+  /**
+   * Sends a bin frame back through the image model with a fix instruction (and optional mask).
+   * The result joins the frame's lineage as a new version and becomes the one exported.
+   */
+  const editFrame = async (img: GeneratedImage, instruction: string, mask?: string) => {
+    // Edits keep their own spend window so they never reset or halt a running batch's meter
+    const meter = Usage.newMeter();
+    const pose = poseFromImage(img);
+    const results: string[] = [];
+    const queueJobs: QueueJob<ImageResult>[] = [{
+      id: `edit-${img.id}`,
+      execute: () => meteredRequest(meter, 'edit', activeTarget(), img.meta.resolution, undefined, () => provider.editImage({
+        image: img.url,
+        instruction,
+        mask,
+        references: ReferenceSelector.select(references, pose),
+        resolution: img.meta.resolution,
+        aspectRatio: img.meta.aspectRatio
+      })),
+      onSuccess: (result) => { results.push(result.url); },
+      onFailure: (err: any) => window.alert(err.message === BUDGET_CAP_REACHED ? budgetHaltMessage() : `Edit failed: ${err.message || err}`)
+    }];
+
+    setIsEditingImage(true);
+    await GenerationQueue.run(queueJobs, queueSettings, {
+      isAborted: () => false,
+      onFatal: haltOnFatal
+    });
+    setIsEditingImage(false);
+
+    if (results.length === 0) return;
+    // Built against the live bin: other edits or deletions may have landed while this one ran
+    const id = Versions.newId(img);
+    setGallery(prev => Versions.select([Versions.create(prev, img, id, results[0], instruction, !!mask), ...prev], id));
+    setSelectedImageId(id);
+    setEditingImage(null);
+  };
+
+  const selectAllPoses = () => {
     const next = new Set<string>();
-    POSE_DEFINITIONS.forEach(p => next.add(p.id));
+    poseLibrary.forEach(p => next.add(p.id));
     setSelectedPoseIds(next);
   };
 
@@ -382,7 +1482,7 @@ const App: React.FC = () => {
   };
 
   const toggleGroupAll = (group: DatasetGroup) => {
-    const groupPoses = POSE_DEFINITIONS.filter(p => p.group === group);
+    const groupPoses = poseLibrary.filter(p => p.group === group);
     const allSelected = groupPoses.every(p => selectedPoseIds.has(p.id));
     setSelectedPoseIds(prev => {
       const next = new Set(prev);
@@ -394,22 +1494,21 @@ const App: React.FC = () => {
 
   const resetAll = () => {
     if (window.confirm("Reset entire studio workspace? This does NOT clear your saved Bin images.")) {
-      setSourceImage(null);
+      setReferences([]);
       setCharacterProfile(null);
-      setManualCharacterProfile("");
-      setTask({ status: 'pending', total: 0, current: 0, images: [] });
+      setManualCharacterProfile(ProfileService.empty());
+      setTask(IDLE_TASK);
       setSelectedPoseIds(new Set());
-      setFailedAssets([]);
-      setIsBodyLocked(false);
-      setIsHairLocked(true);
+      dismissProjectFailures();
+      setLocks(LockResolver.defaults());
     }
   };
 
   const handleModeSwitch = (mode: ProfileMode) => {
     setProfileMode(mode);
     // If switching to auto and we have an image but no profile, trigger analysis
-    if (mode === 'auto' && sourceImage && !characterProfile) {
-      analyzeImage(sourceImage.split(',')[1]);
+    if (mode === 'auto' && references.length > 0 && !characterProfile) {
+      analyzeReferences(references);
     }
   };
 
@@ -444,22 +1543,60 @@ const App: React.FC = () => {
             <div className="space-y-6">
               <h1 className="text-5xl font-black tracking-tighter text-white uppercase leading-none">Authorization<br/><span className="bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-emerald-200">Matrix Lock</span></h1>
               <p className="text-neutral-400 text-lg font-medium leading-relaxed italic px-10">
-                To access the 4K generation pipeline, you must enter a valid Google Gemini API Key.
+                To access the 4K generation pipeline, you must enter a valid Google Gemini API Key, or choose an offline or self-hosted backend.
               </p>
             </div>
 
             <div className="space-y-4">
-              <input 
-                type="password"
-                placeholder="Paste your Gemini API Key here..."
-                className="w-full bg-[#0a0a0a] border border-white/10 focus:border-emerald-500/50 rounded-[2.5rem] px-8 py-6 text-center text-emerald-400 font-mono text-lg outline-none"
-                value={userApiKey}
-                onChange={(e) => setUserApiKey(e.target.value)}
-              />
+              <div className="grid grid-cols-3 gap-3 bg-black/60 rounded-[2.5rem] p-2 border border-white/10">
+                {PROVIDER_OPTIONS.map(opt => (
+                  <button 
+                    key={opt.id}
+                    onClick={() => setProviderSettings(p => ({ ...p, provider: opt.id }))}
+                    title={opt.description}
+                    className={`py-4 rounded-[2rem] text-[11px] font-black uppercase tracking-widest transition-all ${providerSettings.provider === opt.id ? 'bg-emerald-500 text-white shadow-xl' : 'text-neutral-500 hover:text-neutral-300'}`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+
+              {providerSettings.provider === 'gemini' && (
+                <input 
+                  type="password"
+                  placeholder="Paste your Gemini API Key here..."
+                  className="w-full bg-[#0a0a0a] border border-white/10 focus:border-emerald-500/50 rounded-[2.5rem] px-8 py-6 text-center text-emerald-400 font-mono text-lg outline-none"
+                  value={userApiKey}
+                  onChange={(e) => setUserApiKey(e.target.value)}
+                />
+              )}
+
+              {providerSettings.provider === 'http' && (
+                <div className="space-y-3">
+                  <input 
+                    type="text"
+                    placeholder="http://127.0.0.1:7860"
+                    className="w-full bg-[#0a0a0a] border border-white/10 focus:border-emerald-500/50 rounded-[2.5rem] px-8 py-6 text-center text-emerald-400 font-mono text-lg outline-none"
+                    value={providerSettings.httpEndpoint}
+                    onChange={(e) => setProviderSettings(p => ({ ...p, httpEndpoint: e.target.value }))}
+                  />
+                  <input 
+                    type="password"
+                    placeholder="Bearer token (optional)"
+                    className="w-full bg-[#0a0a0a] border border-white/10 focus:border-emerald-500/50 rounded-[2.5rem] px-8 py-4 text-center text-emerald-400 font-mono text-sm outline-none"
+                    value={providerSettings.httpAuthToken}
+                    onChange={(e) => setProviderSettings(p => ({ ...p, httpAuthToken: e.target.value }))}
+                  />
+                </div>
+              )}
+
+              {providerSettings.provider === 'mock' && (
+                <p className="text-[11px] font-black text-neutral-600 uppercase tracking-widest py-4">Placeholder frames and a canned profile — no quota is used</p>
+              )}
               
               <button 
-                onClick={() => { if(userApiKey) setIsKeyConfirmed(true); }}
-                disabled={!userApiKey}
+                onClick={() => { if(canInitialize) setIsKeyConfirmed(true); }}
+                disabled={!canInitialize}
                 className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white py-8 rounded-[2.5rem] text-lg font-black uppercase tracking-[0.2em] transition-all shadow-5xl active:scale-95 flex items-center justify-center gap-4"
               >
                 <Key className="w-6 h-6" />
@@ -483,26 +1620,224 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col bg-[#060606]">
+      {isLibraryOpen && (
+        <ProjectLibrary
+          projects={projectSummaries}
+          activeProjectId={activeProjectId}
+          isBusy={task.status === 'generating'}
+          onOpen={openProject}
+          onCreate={createProject}
+          onDuplicate={duplicateProject}
+          onRename={renameProject}
+          onDelete={deleteProject}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isPoseEditorOpen && (
+        <PoseLibraryEditor
+          poses={poseLibrary}
+          groupLabels={groupLabels}
+          onChange={setPoseLibrary}
+          onClose={() => setIsPoseEditorOpen(false)}
+        />
+      )}
+
+      {isWardrobeOpen && (
+        <WardrobeManager
+          items={wardrobe}
+          filter={wardrobeFilter}
+          projectName={projectName}
+          onItemsChange={setWardrobe}
+          onFilterChange={setWardrobeFilter}
+          onClose={() => setIsWardrobeOpen(false)}
+        />
+      )}
+
+      {isEnvironmentOpen && (
+        <EnvironmentManager
+          presets={environments}
+          settings={environmentSettings}
+          poses={poseLibrary}
+          projectName={projectName}
+          onPresetsChange={setEnvironments}
+          onSettingsChange={setEnvironmentSettings}
+          onClose={() => setIsEnvironmentOpen(false)}
+        />
+      )}
+
+      {isPlannerOpen && (
+        <BalancePlanEditor
+          plan={balancePlan}
+          result={balanceResult}
+          generated={generatedBalance}
+          canGenerate={references.length > 0 && isProfileReady() && isKeyConfirmed && task.status !== 'generating'}
+          onChange={setBalancePlan}
+          onGenerate={startPlannedBatch}
+          onClose={() => setIsPlannerOpen(false)}
+        />
+      )}
+
+      {compiledBatch && (
+        <BatchPreview
+          batch={compiledBatch}
+          takesPerPose={takesPerPose}
+          canLaunch={canLaunch()}
+          onFrameChange={updateCompiledFrame}
+          onReroll={rerollFrame}
+          onRerollAll={rerollBatch}
+          onRevert={revertFramePrompt}
+          onLaunch={launchCompiledBatch}
+          onClose={() => setCompiledBatch(null)}
+        />
+      )}
+
+      {isReviewOpen && (
+        <TakeReviewer
+          groups={takeGroups}
+          threshold={verificationSettings.threshold}
+          onSetStatus={setReviewStatus}
+          onClose={() => setIsReviewOpen(false)}
+        />
+      )}
+
+      {isExportSettingsOpen && (
+        <ExportSettingsPanel
+          settings={exportSettings}
+          captionSettings={captionSettings}
+          postProcess={postProcess}
+          onChange={setExportSettings}
+          onPostProcessChange={setPostProcess}
+          onClose={() => setIsExportSettingsOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsagePanel
+          entries={usageLedger}
+          projectId={activeProjectId ?? ''}
+          prices={prices}
+          budget={budget}
+          onPricesChange={setPrices}
+          onResetPrices={() => setPrices(Usage.resetPrices())}
+          onBudgetChange={setBudget}
+          onClearLedger={() => setUsageLedger([])}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {editingImage && (
+        <ImageEditor
+          image={editingImage}
+          isBusy={isEditingImage}
+          onSubmit={(instruction, mask) => editFrame(editingImage, instruction, mask)}
+          onClose={() => { if (!isEditingImage) setEditingImage(null); }}
+        />
+      )}
+
       {selectedImage && (
-        <div className="fixed inset-0 z-[100] bg-black/98 flex items-center justify-center p-4 backdrop-blur-2xl" onClick={() => setSelectedImage(null)}>
+        <div className="fixed inset-0 z-[100] bg-black/98 flex items-center justify-center p-4 backdrop-blur-2xl" onClick={() => setSelectedImageId(null)}>
           <div className="relative max-w-7xl w-full max-h-[92vh] flex flex-col gap-6" onClick={e => e.stopPropagation()}>
-            <button onClick={() => setSelectedImage(null)} className="absolute -top-16 right-0 p-4 text-white/20 hover:text-white transition-all"><X className="w-12 h-12" /></button>
+            <button onClick={() => setSelectedImageId(null)} className="absolute -top-16 right-0 p-4 text-white/20 hover:text-white transition-all"><X className="w-12 h-12" /></button>
             <div className="relative group/zoom flex justify-center overflow-hidden rounded-[3rem] border border-white/10 ring-12 ring-white/5 shadow-6xl">
-              <img src={selectedImage.url} alt="Asset Inspect" className="max-h-[72vh] w-auto object-contain" />
-              <div className="absolute top-8 right-8 bg-black/60 backdrop-blur-md px-5 py-2 rounded-full border border-white/10 text-[10px] font-black uppercase tracking-widest text-emerald-400">PROCESSED @ {resolution}</div>
+              <img src={processedPreview?.id === selectedImage.id ? processedPreview.url : selectedImage.url} alt="Asset Inspect" className="max-h-[72vh] w-auto object-contain" />
+              <div className="absolute top-8 right-8 bg-black/60 backdrop-blur-md px-5 py-2 rounded-full border border-white/10 text-[10px] font-black uppercase tracking-widest text-emerald-400">PROCESSED @ {selectedImage.meta.resolution}</div>
+              {postProcess.enabled && (
+                <div className="absolute top-8 left-8 flex flex-col items-start gap-2">
+                  <button onClick={() => setIsPreviewingProcessed(p => !p)} className={`flex items-center gap-2 px-5 py-2 rounded-full border text-[10px] font-black uppercase tracking-widest backdrop-blur-md transition-all ${isPreviewingProcessed ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-black/60 border-white/10 text-neutral-400 hover:text-white'}`}>
+                    <Crop className="w-3.5 h-3.5" /> {isPreviewingProcessed ? 'Export Preview' : 'Preview Export Crop'}
+                  </button>
+                  {isPreviewingProcessed && processedPreview?.id === selectedImage.id && (
+                    <>
+                      <span className="px-4 py-1.5 bg-black/60 backdrop-blur-md rounded-full border border-white/10 text-[10px] font-black text-neutral-300 uppercase tracking-widest">
+                        {processedPreview.width}×{processedPreview.height} · {postProcess.crop === 'face' ? (processedPreview.faceDetected ? 'Face Crop' : 'Framing Heuristic') : 'Center Crop'}
+                      </span>
+                      {processedPreview.similar > 0 && (
+                        <span className={`flex items-center gap-2 px-4 py-1.5 backdrop-blur-md rounded-full border text-[10px] font-black uppercase tracking-widest ${processedPreview.skipped ? 'bg-red-600/30 border-red-500/40 text-red-300' : 'bg-amber-500/20 border-amber-500/40 text-amber-300'}`}>
+                          <Copy className="w-3.5 h-3.5" /> Near-duplicate of {processedPreview.similar} · {processedPreview.skipped ? 'Skipped on Export' : 'Kept on Export'}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
+            {selectedLineage.length > 1 && (
+              <div className="flex items-center gap-4 overflow-x-auto custom-scrollbar pb-1">
+                <GitBranch className="w-5 h-5 text-violet-400 shrink-0" />
+                {selectedLineage.map(version => {
+                  const isActive = Versions.active(selectedLineage)?.id === version.id;
+                  return (
+                    <button
+                      key={version.id}
+                      onClick={() => setSelectedImageId(version.id)}
+                      title={version.edit?.instruction || 'Original render'}
+                      className={`relative shrink-0 w-20 h-20 rounded-2xl overflow-hidden border-2 transition-all ${version.id === selectedImage.id ? 'border-violet-400' : 'border-white/10 hover:border-white/30'}`}
+                    >
+                      <img src={version.url} alt={`Version ${Versions.number(version)}`} className="w-full h-full object-cover" />
+                      <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/70 rounded-md text-[8px] font-black text-neutral-300 uppercase">V{Versions.number(version)}</span>
+                      {isActive && <Star className="absolute top-1 right-1 w-3.5 h-3.5 text-amber-400 fill-amber-400" />}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
             <div className="bg-[#111]/95 backdrop-blur-3xl p-12 rounded-[2.5rem] border border-white/5 shadow-2xl flex items-center justify-between">
               <div className="space-y-4">
                 <div className="flex items-center gap-3"><Fingerprint className="w-6 h-6 text-emerald-500" /><p className="text-[12px] font-black text-emerald-400 uppercase tracking-[0.5em]">Identity Token Matrix</p></div>
-                <p className="text-sm text-neutral-500 italic leading-relaxed max-w-5xl line-clamp-2">{selectedImage.prompt}</p>
+                <p className="text-sm text-neutral-500 italic leading-relaxed max-w-5xl line-clamp-2">{selectedImage.prompt || selectedImage.imported?.caption}</p>
+                {selectedImage.edit && (
+                  <p className="flex items-center gap-2 text-[11px] text-violet-300 font-bold">
+                    <Wand2 className="w-4 h-4 shrink-0" /> V{selectedImage.edit.version}{selectedImage.edit.masked ? ' · Masked' : ''}: {selectedImage.edit.instruction}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {[
+                    selectedImage.meta.poseLabel,
+                    selectedImage.meta.clothing,
+                    selectedImage.meta.expression,
+                    selectedImage.meta.environment,
+                    selectedImage.meta.aspectRatio,
+                    selectedImage.meta.model,
+                    selectedImage.imported?.file,
+                    selectedImage.imported?.groupAssumed && 'Group unknown'
+                  ].filter(Boolean).map(chip => (
+                    <span key={chip} className="px-3 py-1 bg-white/5 rounded-lg border border-white/10 text-[9px] font-black text-neutral-400 uppercase tracking-widest">{chip}</span>
+                  ))}
+                </div>
+                {selectedImage.score && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {[
+                      `Overall ${selectedImage.score.overall}`,
+                      `Face ${selectedImage.score.face}`,
+                      `Hair ${selectedImage.score.hair ?? 'n/a'}`,
+                      `Body ${selectedImage.score.body ?? 'n/a'}`
+                    ].map(chip => (
+                      <span key={chip} className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${Verification.passes(selectedImage.score!, verificationSettings.threshold) ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>{chip}</span>
+                    ))}
+                    <span className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${selectedImage.score.poseMatch ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>{selectedImage.score.poseMatch ? 'Pose OK' : 'Pose Mismatch'}</span>
+                    {selectedImage.score.poseNote && <span className="text-[11px] text-neutral-500 italic">{selectedImage.score.poseNote}</span>}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col gap-3 shrink-0">
+                <button onClick={() => setEditingImage(selectedImage)} disabled={task.status === 'generating'} title={task.status === 'generating' ? 'Edits are available once the current run finishes' : undefined} className="flex items-center justify-center gap-3 bg-violet-600/20 hover:bg-violet-600/30 text-violet-300 px-12 py-4 rounded-2xl text-[12px] font-black uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed">
+                  <Wand2 className="w-4 h-4" /> Edit Frame
+                </button>
+                {selectedLineage.length > 1 && (
+                  Versions.active(selectedLineage)?.id === selectedImage.id
+                    ? <p className="flex items-center justify-center gap-2 text-[10px] font-black text-amber-400 uppercase tracking-widest"><Star className="w-3.5 h-3.5 fill-amber-400" /> Exported Version</p>
+                    : <button onClick={() => selectExportVersion(selectedImage.id)} className="flex items-center justify-center gap-2 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 px-12 py-4 rounded-2xl text-[12px] font-black uppercase tracking-widest transition-all">
+                        <Star className="w-4 h-4" /> Export This Version
+                      </button>
+                )}
+                <button onClick={() => { 
+                  const link = document.createElement('a'); 
+                  link.href = selectedImage.url; 
+                  link.download = `${projectName}_${selectedImage.meta.poseId}${selectedImage.edit ? `_v${selectedImage.edit.version}` : ''}.png`; 
+                  link.click(); 
+                }} className="bg-emerald-600 text-white px-12 py-6 rounded-2xl text-[13px] font-black uppercase tracking-widest transition-all hover:bg-emerald-500 shadow-3xl">{selectedImage.edit ? `Download V${selectedImage.edit.version}` : 'Download Original'}</button>
               </div>
-              <button onClick={() => { 
-                const link = document.createElement('a'); 
-                link.href = selectedImage.url; 
-                const poseId = selectedImage.id.split('-').pop();
-                link.download = `${projectName}_${poseId}.png`; 
-                link.click(); 
-              }} className="bg-emerald-600 text-white px-12 py-6 rounded-2xl text-[13px] font-black uppercase tracking-widest transition-all hover:bg-emerald-500 shadow-3xl">Download Original</button>
             </div>
           </div>
         </div>
@@ -517,6 +1852,8 @@ const App: React.FC = () => {
               <div className="flex items-center gap-4 mt-2">
                 <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em] leading-none">v3.4 Pipeline</p>
                 <div className="h-3 w-[1px] bg-white/10" />
+                <p className={`text-[10px] font-black uppercase tracking-[0.2em] leading-none ${provider.id === 'gemini' ? 'text-neutral-600' : 'text-amber-400'}`}>{PROVIDER_OPTIONS.find(o => o.id === provider.id)?.label}</p>
+                <div className="h-3 w-[1px] bg-white/10" />
                 <div className="flex items-center gap-2 group">
                   <Tag className="w-3.5 h-3.5 text-neutral-600 group-hover:text-emerald-500 transition-colors" />
                   <p className="text-[11px] font-black text-emerald-400 uppercase tracking-[0.2em]">{projectName || "UNNAMED_ASSET"}</p>
@@ -525,6 +1862,32 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-10">
+            <button 
+              onClick={openLibrary}
+              disabled={!isHydrated}
+              className="flex items-center gap-3 px-6 py-4 bg-white/5 text-neutral-400 border border-white/10 rounded-full hover:bg-white/10 hover:text-white transition-all text-[11px] font-black uppercase tracking-widest disabled:opacity-50"
+            >
+              <FolderOpen className="w-5 h-5" />
+              Projects
+            </button>
+            <button 
+              onClick={() => importInputRef.current?.click()}
+              disabled={!isHydrated || isImporting}
+              className="flex items-center gap-3 px-6 py-4 bg-white/5 text-neutral-400 border border-white/10 rounded-full hover:bg-white/10 hover:text-white transition-all text-[11px] font-black uppercase tracking-widest disabled:opacity-50"
+              title="Load a dataset ZIP (an export or image + caption pairs) into the bin"
+            >
+              {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            <input type="file" ref={importInputRef} onChange={importDataset} className="hidden" accept=".zip,application/zip" />
+            <button 
+              onClick={() => setIsUsageOpen(true)}
+              className="flex items-center gap-3 px-6 py-4 bg-white/5 text-neutral-400 border border-white/10 rounded-full hover:bg-white/10 hover:text-white transition-all text-[11px] font-black uppercase tracking-widest"
+              title="Requests, tokens and estimated spend per batch, project and day"
+            >
+              <Receipt className="w-5 h-5" />
+              {Usage.formatCost(projectSpend)}
+            </button>
             {gallery.length > 0 && (
               <div className="flex items-center gap-3">
                 <button 
@@ -541,10 +1904,31 @@ const App: React.FC = () => {
                   className="flex items-center gap-3 px-8 py-4 bg-emerald-500/10 text-emerald-500 border border-emerald-500/20 rounded-full hover:bg-emerald-500/20 transition-all text-[12px] font-black uppercase tracking-widest disabled:opacity-50 shadow-lg shadow-emerald-500/5"
                 >
                   {isZipping ? <Loader2 className="w-5 h-5 animate-spin" /> : <Archive className="w-5 h-5" />}
-                  {isZipping ? 'Bundling...' : `Export Bin (${gallery.length})`}
+                  {isZipping ? 'Bundling...' : `Export Bin (${keptCount})`}
                 </button>
+                <div className="flex items-center bg-white/5 border border-white/10 rounded-full pl-5 pr-2 py-2">
+                  <select
+                    value={exportSettings.profile}
+                    onChange={(e) => setExportSettings(p => ({ ...p, profile: e.target.value as ExportProfileId }))}
+                    className="bg-transparent text-[11px] font-black text-neutral-300 uppercase tracking-widest outline-none cursor-pointer"
+                    title={EXPORT_PROFILES.find(p => p.id === exportSettings.profile)?.description}
+                  >
+                    {EXPORT_PROFILES.map(p => <option key={p.id} value={p.id} className="bg-neutral-900">{p.label}</option>)}
+                  </select>
+                  <button onClick={() => setIsExportSettingsOpen(true)} className="p-2 text-neutral-500 hover:text-white transition-all" title="Export options">
+                    <Sliders className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
             )}
+            <div className="flex bg-neutral-900/30 rounded-full p-2 border border-white/5 shadow-inner">
+              <button onClick={() => setAppMode(AppMode.DATASET)} className={`flex items-center gap-2 px-6 py-3 rounded-full text-[11px] font-black uppercase tracking-widest transition-all ${appMode === AppMode.DATASET ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-300'}`} title="Single-character dataset production">
+                <Grid className="w-4 h-4" /> Dataset
+              </button>
+              <button onClick={() => setAppMode(AppMode.SCENE)} className={`flex items-center gap-2 px-6 py-3 rounded-full text-[11px] font-black uppercase tracking-widest transition-all ${appMode === AppMode.SCENE ? 'bg-sky-500 text-white shadow-2xl' : 'text-neutral-500 hover:text-neutral-300'}`} title="Two-character interaction shots">
+                <Clapperboard className="w-4 h-4" /> Scene
+              </button>
+            </div>
             <div className="flex bg-neutral-900/30 rounded-full p-2 border border-white/5 shadow-inner">
               {(['1K', '2K', '4K'] as Resolution[]).map((res) => (
                 <button key={res} onClick={() => setResolution(res)} className={`px-8 py-3 rounded-full text-[12px] font-black transition-all ${resolution === res ? 'bg-emerald-500 text-white shadow-2xl' : 'text-neutral-500 hover:text-neutral-300'}`}>{res}</button>
@@ -552,6 +1936,21 @@ const App: React.FC = () => {
             </div>
           </div>
         </div>
+        <div className="container mx-auto px-10 pb-5">
+          <CharacterTabs
+            tabs={characterTabs}
+            activeId={activeProjectId}
+            queueCost={queueEstimate > 0 ? Usage.formatCost(queueEstimate) : null}
+            canRunQueue={isKeyConfirmed && task.status !== 'generating'}
+            isExporting={isExportingWorkspace}
+            onSelect={(id) => runProjectAction("Switching characters", () => switchCharacter(id))}
+            onClose={(id) => runProjectAction("Closing the tab", () => closeCharacterTab(id))}
+            onCreate={() => runProjectAction("Adding a character", addCharacter)}
+            onRunQueue={runWorkspaceQueue}
+            onClearQueue={() => setWorkspaceQueue([])}
+            onExportAll={exportWorkspace}
+          />
+        </div>
       </header>
 
       <main className="flex-1 container mx-auto p-10 lg:p-14">
@@ -561,8 +1960,9 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-8 md:border-r border-white/10 md:pr-12">
                    <div className="p-5 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><Loader2 className="w-10 h-10 text-emerald-400 animate-spin" /></div>
                    <div>
-                     <p className="text-[12px] font-black text-emerald-500 uppercase tracking-[0.5em]">Synthesis Protocol Active</p>
+                     <p className="text-[12px] font-black text-emerald-500 uppercase tracking-[0.5em]">{task.phase === 'verify' ? 'Identity Verification Active' : 'Synthesis Protocol Active'}</p>
                      <p className="text-2xl font-black text-white tabular-nums tracking-tighter">{task.current} / {task.total} <span className="text-neutral-600 text-sm ml-2 font-bold uppercase tracking-widest">Frames</span></p>
+                     <p className="text-[10px] font-black text-neutral-600 uppercase tracking-widest mt-1">{task.active} In Flight{task.retries > 0 && <span className="text-amber-500"> · {task.retries} Retries</span>}</p>
                    </div>
                 </div>
                 <div className="flex-1 w-full space-y-4">
@@ -574,7 +1974,22 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {!sourceImage && profileMode === 'auto' ? (
+        {appMode === AppMode.SCENE ? (
+          <SceneStudio
+            projects={projectSummaries}
+            activeProjectId={activeProjectId}
+            poses={scenePoses}
+            environments={environments}
+            shots={scenes}
+            shotCost={Usage.price(prices, provider.imageModel, resolution)}
+            isGenerating={task.status === 'generating'}
+            canGenerate={isKeyConfirmed}
+            onPosesChange={setScenePoses}
+            onResetPoses={() => setScenePoses(SceneLibrary.reset())}
+            onGenerate={generateScenes}
+            onDeleteShot={(id) => setScenes(prev => prev.filter(shot => shot.id !== id))}
+          />
+        ) : references.length === 0 && profileMode === 'auto' ? (
           <div className="max-w-6xl mx-auto mt-24 animate-in fade-in slide-in-from-bottom-16 duration-1000">
             {/* Mode Toggle at Top */}
             <div className="flex justify-center mb-12">
@@ -598,11 +2013,11 @@ const App: React.FC = () => {
 
             <div onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop} onClick={() => fileInputRef.current?.click()} className={`group relative cursor-pointer aspect-[24/10] border-3 border-dashed rounded-[5rem] flex flex-col items-center justify-center gap-12 transition-all duration-1000 overflow-hidden ${isDragging ? 'border-emerald-500 bg-emerald-500/10 scale-[1.02]' : 'border-neutral-900 bg-neutral-900/10 hover:border-neutral-800'}`}>
               <div className="p-12 bg-black/50 rounded-[3rem] border border-white/5 shadow-4xl group-hover:scale-110 transition-transform duration-1000"><Upload className={`w-20 h-20 ${isDragging ? 'text-emerald-400' : 'text-neutral-700 group-hover:text-neutral-400'}`} /></div>
-              <div className="text-center space-y-5 z-10 px-10"><p className="text-5xl font-black text-neutral-200 tracking-tighter uppercase">Drag and Drop your image here</p><p className="text-lg text-neutral-600 font-medium italic tracking-wide">Drop your character's image here. For best results, ensure the face is clear and the body shape is visible.</p></div>
-              <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" />
+              <div className="text-center space-y-5 z-10 px-10"><p className="text-5xl font-black text-neutral-200 tracking-tighter uppercase">Drag and Drop your images here</p><p className="text-lg text-neutral-600 font-medium italic tracking-wide">Drop one or more images of your character. For best results, include a clear front face, a side profile and a full body shot.</p></div>
+              <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" multiple />
             </div>
           </div>
-        ) : !sourceImage && profileMode === 'manual' ? (
+        ) : references.length === 0 && profileMode === 'manual' ? (
           <div className="max-w-6xl mx-auto mt-16 animate-in fade-in slide-in-from-bottom-16 duration-1000 space-y-12">
             {/* Mode Toggle at Top */}
             <div className="flex justify-center">
@@ -629,13 +2044,13 @@ const App: React.FC = () => {
               <div onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop} onClick={() => fileInputRef.current?.click()} className={`group relative cursor-pointer aspect-square border-3 border-dashed rounded-[4rem] flex flex-col items-center justify-center gap-8 transition-all duration-1000 overflow-hidden ${isDragging ? 'border-violet-500 bg-violet-500/10 scale-[1.02]' : 'border-neutral-900 bg-neutral-900/10 hover:border-neutral-800'}`}>
                 <div className="p-10 bg-black/50 rounded-[2.5rem] border border-white/5 shadow-4xl group-hover:scale-110 transition-transform duration-1000"><Upload className={`w-16 h-16 ${isDragging ? 'text-violet-400' : 'text-neutral-700 group-hover:text-neutral-400'}`} /></div>
                 <div className="text-center space-y-4 z-10 px-8">
-                  <p className="text-3xl font-black text-neutral-200 tracking-tighter uppercase">Reference Image</p>
-                  <p className="text-sm text-neutral-600 font-medium italic tracking-wide">Upload a reference image for the AI to work from</p>
+                  <p className="text-3xl font-black text-neutral-200 tracking-tighter uppercase">Reference Images</p>
+                  <p className="text-sm text-neutral-600 font-medium italic tracking-wide">Upload one or more reference images for the AI to work from</p>
                   <div className="inline-flex items-center gap-2 px-4 py-2 bg-violet-500/10 border border-violet-500/20 rounded-full">
                     <span className="text-[10px] font-black text-violet-400 uppercase tracking-widest">Required for generation</span>
                   </div>
                 </div>
-                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" />
+                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" multiple />
               </div>
 
               {/* Manual Profile Input */}
@@ -651,21 +2066,13 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="space-y-4">
-                  <textarea
-                    value={manualCharacterProfile}
-                    onChange={(e) => setManualCharacterProfile(e.target.value)}
-                    placeholder="Describe your character's appearance in detail...
-
-Example:
-25-year-old woman with long flowing platinum blonde hair reaching mid-back, bright green eyes with gold flecks, high cheekbones, soft feminine features, light skin with subtle freckles across the nose, athletic build with toned arms, medium height around 5'6..."
-                    className="w-full h-80 bg-black/60 border border-white/10 focus:border-violet-500/50 rounded-3xl px-8 py-6 text-neutral-300 text-sm leading-relaxed outline-none resize-none placeholder:text-neutral-700 placeholder:italic"
-                  />
+                  <ProfileEditor profile={manualCharacterProfile} locks={locks} accent="violet" onChange={setManualCharacterProfile} />
                   
                   <div className="flex items-center justify-between px-4">
                     <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">
-                      {manualCharacterProfile.length} characters
+                      {PROFILE_FIELDS.filter(f => manualCharacterProfile[f.id].trim()).length} / {PROFILE_FIELDS.length} fields
                     </span>
-                    {manualCharacterProfile.trim().length > 0 && (
+                    {!ProfileService.isEmpty(manualCharacterProfile) && (
                       <div className="flex items-center gap-2 text-violet-400">
                         <CheckCircle2 className="w-4 h-4" />
                         <span className="text-[10px] font-black uppercase tracking-widest">Profile Ready</span>
@@ -735,20 +2142,41 @@ Example:
                   </div>
 
                   <div className="relative group rounded-[3rem] overflow-hidden border border-white/5 shadow-5xl ring-1 ring-white/5">
-                    <img src={sourceImage} alt="Anchor Source" className="w-full aspect-square object-cover" />
+                    <img src={references[0].url} alt="Anchor Source" className="w-full aspect-square object-cover" />
                     <div className="absolute inset-0 bg-gradient-to-t from-black/95 via-transparent to-transparent" />
                     <div className="absolute bottom-10 left-10 px-6 py-2.5 bg-emerald-500/90 rounded-full text-[12px] font-black uppercase tracking-widest text-white">Comp Secured</div>
                   </div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between px-2">
+                      <label className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.4em]">References ({references.length})</label>
+                      <span className="text-[9px] font-black text-neutral-700 uppercase tracking-widest">Up to {MAX_REFERENCES_PER_REQUEST} sent per pose</span>
+                    </div>
+                    <div onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop} className={`grid grid-cols-3 gap-3 rounded-[2rem] transition-all ${isDragging ? 'ring-2 ring-emerald-500/50' : ''}`}>
+                      {references.map(ref => (
+                        <div key={ref.id} className="group relative rounded-2xl overflow-hidden border border-white/5">
+                          <img src={ref.url} alt={ref.angle} className="w-full aspect-square object-cover" />
+                          <button onClick={() => removeReference(ref.id)} className="absolute top-2 right-2 p-1.5 bg-red-600/80 hover:bg-red-600 text-white rounded-lg opacity-0 group-hover:opacity-100 transition-all" title="Remove reference"><X className="w-3 h-3" /></button>
+                          <select
+                            value={ref.angle}
+                            onChange={(e) => updateReferenceAngle(ref.id, e.target.value as ReferenceAngle)}
+                            className="absolute bottom-0 inset-x-0 bg-black/80 text-[9px] font-black uppercase tracking-widest text-emerald-400 py-1.5 text-center outline-none cursor-pointer"
+                          >
+                            {REFERENCE_ANGLE_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                          </select>
+                        </div>
+                      ))}
+                      <button onClick={() => fileInputRef.current?.click()} className="aspect-square flex flex-col items-center justify-center gap-2 border-2 border-dashed border-white/5 hover:border-emerald-500/30 rounded-2xl text-neutral-700 hover:text-emerald-400 transition-all" title="Add reference images">
+                        <Upload className="w-5 h-5" />
+                        <span className="text-[9px] font-black uppercase tracking-widest">Add</span>
+                      </button>
+                      <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" multiple />
+                    </div>
+                  </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <button onClick={() => setIsHairLocked(!isHairLocked)} className={`flex items-center justify-center gap-3 py-4 rounded-2xl border transition-all ${isHairLocked ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400' : 'bg-white/5 border-white/10 text-neutral-400 hover:bg-white/10'}`}>
-                      {isHairLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
-                      <span className="text-[11px] font-black uppercase tracking-widest">Hair Lock</span>
-                    </button>
-                    <button onClick={() => setIsBodyLocked(!isBodyLocked)} className={`flex items-center justify-center gap-3 py-4 rounded-2xl border transition-all ${isBodyLocked ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400' : 'bg-white/5 border-white/10 text-neutral-400 hover:bg-white/10'}`}>
-                      {isBodyLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
-                      <span className="text-[11px] font-black uppercase tracking-widest">Body Lock</span>
-                    </button>
+                  <div className="space-y-4">
+                    <label className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.4em] px-2">Identity Locks</label>
+                    <IdentityLockPanel locks={locks} onChange={setLocks} />
                   </div>
                 </div>
 
@@ -772,10 +2200,12 @@ Example:
                             <span className="text-[9px] font-black uppercase">Re-Analyze</span>
                           </button>
                         </div>
-                        <p className="text-[13px] text-neutral-600 leading-relaxed font-medium italic overflow-y-auto max-h-56 pr-5 custom-scrollbar">{characterProfile}</p>
+                        <div className="overflow-y-auto max-h-[28rem] pr-5 custom-scrollbar">
+                          <ProfileEditor profile={characterProfile} locks={locks} accent="emerald" onChange={setCharacterProfile} />
+                        </div>
                         <div className="flex gap-2">
-                            {isHairLocked && <div className="px-3 py-1 bg-emerald-500/20 rounded-lg border border-emerald-500/30 flex items-center gap-2"><Scissors className="w-3.5 h-3.5 text-emerald-400" /><span className="text-[9px] font-black text-emerald-400">HAIR_FIXED</span></div>}
-                            {isBodyLocked && <div className="px-3 py-1 bg-emerald-500/20 rounded-lg border border-emerald-500/30 flex items-center gap-2"><User className="w-3.5 h-3.5 text-emerald-400" /><span className="text-[9px] font-black text-emerald-400">FRAME_FIXED</span></div>}
+                            {isHairKept && <div className="px-3 py-1 bg-emerald-500/20 rounded-lg border border-emerald-500/30 flex items-center gap-2"><Scissors className="w-3.5 h-3.5 text-emerald-400" /><span className="text-[9px] font-black text-emerald-400">HAIR_FIXED</span></div>}
+                            {isBuildKept && <div className="px-3 py-1 bg-emerald-500/20 rounded-lg border border-emerald-500/30 flex items-center gap-2"><User className="w-3.5 h-3.5 text-emerald-400" /><span className="text-[9px] font-black text-emerald-400">FRAME_FIXED</span></div>}
                         </div>
                       </div>
                     ) : (
@@ -804,7 +2234,7 @@ Example:
                         <PenLine className="w-6 h-6" />
                         <span className="text-[13px] font-black uppercase tracking-widest">Manual Profile</span>
                       </div>
-                      {manualCharacterProfile.trim().length > 0 && (
+                      {!ProfileService.isEmpty(manualCharacterProfile) && (
                         <div className="flex items-center gap-2 text-violet-400">
                           <CheckCircle2 className="w-4 h-4" />
                           <span className="text-[9px] font-black uppercase tracking-widest">Ready</span>
@@ -812,27 +2242,15 @@ Example:
                       )}
                     </div>
                     
-                    <textarea
-                      value={manualCharacterProfile}
-                      onChange={(e) => setManualCharacterProfile(e.target.value)}
-                      placeholder="Describe your character's appearance...
-
-Include details like:
-• Hair: color, length, style
-• Eyes: color, shape
-• Face: structure, skin tone
-• Body: build, proportions
-• Age and overall aesthetic"
-                      className="w-full h-48 bg-black/40 border border-white/10 focus:border-violet-500/50 rounded-2xl px-6 py-5 text-neutral-300 text-[13px] leading-relaxed outline-none resize-none placeholder:text-neutral-700 placeholder:italic"
-                    />
+                    <ProfileEditor profile={manualCharacterProfile} locks={locks} accent="violet" onChange={setManualCharacterProfile} />
 
                     <div className="flex items-center justify-between px-2">
                       <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">
-                        {manualCharacterProfile.length} chars
+                        {PROFILE_FIELDS.filter(f => manualCharacterProfile[f.id].trim()).length} / {PROFILE_FIELDS.length} fields
                       </span>
                       <div className="flex gap-2">
-                        {isHairLocked && <div className="px-3 py-1 bg-violet-500/20 rounded-lg border border-violet-500/30 flex items-center gap-2"><Scissors className="w-3.5 h-3.5 text-violet-400" /><span className="text-[9px] font-black text-violet-400">HAIR_FIXED</span></div>}
-                        {isBodyLocked && <div className="px-3 py-1 bg-violet-500/20 rounded-lg border border-violet-500/30 flex items-center gap-2"><User className="w-3.5 h-3.5 text-violet-400" /><span className="text-[9px] font-black text-violet-400">FRAME_FIXED</span></div>}
+                        {isHairKept && <div className="px-3 py-1 bg-violet-500/20 rounded-lg border border-violet-500/30 flex items-center gap-2"><Scissors className="w-3.5 h-3.5 text-violet-400" /><span className="text-[9px] font-black text-violet-400">HAIR_FIXED</span></div>}
+                        {isBuildKept && <div className="px-3 py-1 bg-violet-500/20 rounded-lg border border-violet-500/30 flex items-center gap-2"><User className="w-3.5 h-3.5 text-violet-400" /><span className="text-[9px] font-black text-violet-400">FRAME_FIXED</span></div>}
                       </div>
                     </div>
                   </div>
@@ -843,10 +2261,8 @@ Include details like:
                 <div className="bg-[#111]/30 border border-white/5 rounded-[4rem] p-12 shadow-4xl backdrop-blur-3xl space-y-12">
                   <div className="flex items-center gap-5"><Sliders className="w-7 h-7 text-emerald-400" /><h2 className="text-[12px] font-black text-neutral-600 uppercase tracking-[0.5em]">Identity Fine-Tuning</h2></div>
                   <div className="space-y-10">
-                    <div className={`space-y-5 transition-all duration-300 ${isBodyLocked ? 'opacity-30 pointer-events-none grayscale' : ''}`}><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Chest Matrix</label><div className="grid grid-cols-2 gap-4">{CHEST_SIZE_OPTIONS.map(opt => <button key={opt} onClick={() => setAdjustments(p => ({...p, chestSize: opt}))} className={`px-6 py-5 rounded-2xl text-[12px] font-black border transition-all ${adjustments.chestSize === opt ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400' : 'bg-black/40 border-white/5 text-neutral-600 hover:border-white/10'}`}>{opt}</button>)}</div></div>
-                    <div className={`space-y-5 transition-all duration-300 ${isBodyLocked ? 'opacity-30 pointer-events-none grayscale' : ''}`}><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Hip Matrix</label><div className="grid grid-cols-2 gap-4">{HIP_SIZE_OPTIONS.map(opt => <button key={opt} onClick={() => setAdjustments(p => ({...p, hipSize: opt}))} className={`px-6 py-5 rounded-2xl text-[12px] font-black border transition-all ${adjustments.hipSize === opt ? 'bg-teal-500/10 border-teal-500 text-teal-400' : 'bg-black/40 border-white/5 text-neutral-600 hover:border-white/10'}`}>{opt}</button>)}</div></div>
-                    <div className="space-y-5"><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Ocular Hue</label><select value={adjustments.eyeColor} onChange={e => setAdjustments(p => ({...p, eyeColor: e.target.value}))} className="w-full bg-black/60 border border-white/5 rounded-2xl px-8 py-6 text-sm font-black text-neutral-400 appearance-none shadow-xl">{EYE_COLOR_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}</select></div>
-                    <div className={`space-y-5 transition-all duration-300 ${isBodyLocked ? 'opacity-30 pointer-events-none grayscale' : ''}`}><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Physiology Type</label><div className="grid grid-cols-2 gap-4">{BODY_BUILD_OPTIONS.map(opt => <button key={opt} onClick={() => setAdjustments(p => ({...p, bodyBuild: opt}))} className={`px-6 py-5 rounded-2xl text-[12px] font-black border transition-all ${adjustments.bodyBuild === opt ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-black/40 border-white/5 text-neutral-600 hover:border-white/10'}`}>{opt}</button>)}</div></div>
+                    <div className={`space-y-5 transition-all duration-300 ${isBuildKept ? 'opacity-30 pointer-events-none grayscale' : ''}`}><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Chest Matrix</label><div className="grid grid-cols-2 gap-4">{CHEST_SIZE_OPTIONS.map(opt => <button key={opt} onClick={() => setAdjustments(p => ({...p, chestSize: opt}))} className={`px-6 py-5 rounded-2xl text-[12px] font-black border transition-all ${adjustments.chestSize === opt ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400' : 'bg-black/40 border-white/5 text-neutral-600 hover:border-white/10'}`}>{opt}</button>)}</div></div>
+                    <div className={`space-y-5 transition-all duration-300 ${isBuildKept ? 'opacity-30 pointer-events-none grayscale' : ''}`}><label className="text-[12px] font-black text-neutral-600 uppercase tracking-widest tracking-[0.3em] px-2">Hip Matrix</label><div className="grid grid-cols-2 gap-4">{HIP_SIZE_OPTIONS.map(opt => <button key={opt} onClick={() => setAdjustments(p => ({...p, hipSize: opt}))} className={`px-6 py-5 rounded-2xl text-[12px] font-black border transition-all ${adjustments.hipSize === opt ? 'bg-teal-500/10 border-teal-500 text-teal-400' : 'bg-black/40 border-white/5 text-neutral-600 hover:border-white/10'}`}>{opt}</button>)}</div></div>
                   </div>
                 </div>
               )}
@@ -873,19 +2289,42 @@ Include details like:
                     <div className="flex items-center gap-14">
                       <div className="text-right">
                         <p className={`text-xl font-black uppercase tracking-[0.5em] ${profileMode === 'auto' ? 'text-emerald-400' : 'text-violet-400'}`}>{selectedPoseIds.size} SELECTED</p>
-                        <p className="text-[12px] text-neutral-700 font-bold uppercase tracking-widest">Frames in queue</p>
+                        <p className="text-[12px] text-neutral-700 font-bold uppercase tracking-widest">{selectedPoseIds.size * takesPerPose} Frames in queue</p>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <button
+                          disabled={task.status === 'generating' || selectedPoseIds.size === 0}
+                          onClick={previewBatch}
+                          className="flex items-center gap-3 px-10 py-7 rounded-[2.5rem] text-[13px] font-black uppercase tracking-[0.1em] transition-all bg-white/5 hover:bg-white/10 text-neutral-300 border border-white/10 disabled:opacity-20"
+                          title="Compile every prompt for review and editing before launching"
+                        >
+                          <ListChecks className="w-5 h-5" /> Preview
+                        </button>
+                        <button
+                          disabled={selectedPoseIds.size === 0 || references.length === 0 || !isProfileReady()}
+                          onClick={queueBatch}
+                          className="flex items-center gap-3 px-10 py-7 rounded-[2.5rem] text-[13px] font-black uppercase tracking-[0.1em] transition-all bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 border border-amber-500/30 disabled:opacity-20"
+                          title="Compile this batch into the workspace queue to render alongside other characters"
+                        >
+                          <ListPlus className="w-5 h-5" /> Queue
+                        </button>
+                        <button 
+                          disabled={task.status === 'generating' || selectedPoseIds.size === 0} 
+                          onClick={startDatasetMode} 
+                          className={`px-16 py-7 rounded-[2.5rem] text-[15px] font-black uppercase tracking-[0.1em] transition-all shadow-5xl active:scale-95 disabled:opacity-20 text-white ${profileMode === 'auto' ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-violet-600 hover:bg-violet-500'}`}
+                        >
+                          Generate Batch
+                          {batchEstimate > 0 && (
+                            <span className={`block text-[10px] tracking-widest mt-1 ${batchEstimate > budgetRemaining ? 'text-red-300' : 'text-white/60'}`} title={batchEstimate > budgetRemaining ? 'Exceeds the remaining budget; the batch will stop at the cap' : 'Estimated cost from the price table'}>
+                              ≈ {Usage.formatCost(batchEstimate)}{budget.enabled && ` of ${Usage.formatCost(Math.max(0, budgetRemaining))} left`}
+                            </span>
+                          )}
+                        </button>
                       </div>
-                      <button 
-                        disabled={task.status === 'generating' || selectedPoseIds.size === 0} 
-                        onClick={startDatasetMode} 
-                        className={`px-16 py-7 rounded-[2.5rem] text-[15px] font-black uppercase tracking-[0.1em] transition-all shadow-5xl active:scale-95 disabled:opacity-20 text-white ${profileMode === 'auto' ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-violet-600 hover:bg-violet-500'}`}
-                      >
-                        Generate Batch
-                      </button>
                     </div>
                   </div>
                   <div className="p-8 grid grid-cols-3 gap-6 bg-black/80 border-b border-white/5">
-                    {(['portrait', 'upper', 'full'] as DatasetGroup[]).map(group => (
+                    {DATASET_GROUPS.map(group => (
                       <button key={group} onClick={() => setExpandedGroup(expandedGroup === group ? null : group)} className={`flex items-center justify-between px-12 py-8 rounded-[3rem] text-[14px] font-black uppercase tracking-[0.4em] transition-all border-2 ${expandedGroup === group ? 'bg-neutral-800 border-white/10 text-white shadow-3xl' : 'bg-transparent border-white/5 text-neutral-700 hover:text-neutral-500'}`}>
                         <div className="flex items-center gap-5">{group === 'portrait' ? <User className="w-7 h-7" /> : group === 'upper' ? <Layout className="w-7 h-7" /> : <Maximize2 className="w-7 h-7" />}{groupLabels[group].split(' ')[0]}</div>
                         {expandedGroup === group ? <ChevronUp className="w-6 h-6" /> : <ChevronDown className="w-6 h-6" />}
@@ -895,7 +2334,7 @@ Include details like:
                   
                   {expandedGroup && (
                     <div className="px-14 py-10 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4 overflow-y-auto max-h-[50vh] custom-scrollbar">
-                      {POSE_DEFINITIONS.filter(p => p.group === expandedGroup).map(pose => (
+                      {poseLibrary.filter(p => p.group === expandedGroup).map(pose => (
                         <div 
                           key={pose.id} 
                           onClick={() => togglePoseSelection(pose.id)}
@@ -917,8 +2356,55 @@ Include details like:
                   )}
                   
                   <div className="p-10 bg-black/40 border-t border-white/5 flex justify-between items-center">
-                    <button onClick={selectRecommended702010} className={`text-[11px] font-black uppercase tracking-widest transition-colors ${profileMode === 'auto' ? 'text-emerald-500 hover:text-emerald-400' : 'text-violet-500 hover:text-violet-400'}`}>Select All Protocol</button>
-                    <div className="flex gap-4">
+                    <div className="flex items-center gap-8">
+                      <button onClick={selectAllPoses} className={`text-[11px] font-black uppercase tracking-widest transition-colors ${profileMode === 'auto' ? 'text-emerald-500 hover:text-emerald-400' : 'text-violet-500 hover:text-violet-400'}`}>Select All</button>
+                      <button onClick={() => setIsPlannerOpen(true)} disabled={task.status === 'generating'} className="flex items-center gap-2 text-[11px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors disabled:opacity-30"><BarChart3 className="w-4 h-4" /> Balance Plan</button>
+                      <button onClick={() => setIsPoseEditorOpen(true)} disabled={task.status === 'generating'} className="flex items-center gap-2 text-[11px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors disabled:opacity-30"><Layers className="w-4 h-4" /> Edit Poses</button>
+                      <button onClick={() => setIsWardrobeOpen(true)} disabled={task.status === 'generating'} className="flex items-center gap-2 text-[11px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors disabled:opacity-30"><Shirt className="w-4 h-4" /> Wardrobe</button>
+                      <button onClick={() => setIsEnvironmentOpen(true)} disabled={task.status === 'generating'} className="flex items-center gap-2 text-[11px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors disabled:opacity-30"><Sun className="w-4 h-4" /> Environments</button>
+                    </div>
+                    <div className="flex items-center gap-8">
+                      <div className="flex items-center gap-3">
+                        <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Parallel</span>
+                        <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                          {CONCURRENCY_OPTIONS.map(n => (
+                            <button key={n} disabled={task.status === 'generating'} onClick={() => setQueueSettings(p => ({ ...p, concurrency: n }))} className={`px-3 py-1.5 rounded-full text-[10px] font-black transition-all disabled:cursor-not-allowed ${queueSettings.concurrency === n ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{n}</button>
+                          ))}
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-3">
+                        <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">RPM Cap</span>
+                        <input 
+                          type="number"
+                          min={0}
+                          disabled={task.status === 'generating'}
+                          value={queueSettings.requestsPerMinute}
+                          onChange={(e) => setQueueSettings(p => ({ ...p, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) }))}
+                          className="w-20 bg-black/60 border border-white/5 rounded-xl px-3 py-1.5 text-[11px] font-black text-neutral-300 text-center outline-none focus:border-white/20"
+                          title="Maximum requests started per minute (0 = unlimited)"
+                        />
+                      </label>
+                      <div className="flex items-center gap-3">
+                        <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Takes</span>
+                        <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                          {TAKE_OPTIONS.map(n => (
+                            <button key={n} disabled={task.status === 'generating'} onClick={() => setTakesPerPose(n)} className={`px-3 py-1.5 rounded-full text-[10px] font-black transition-all disabled:cursor-not-allowed ${takesPerPose === n ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`} title={n > 1 ? `Render ${n} takes per pose for review` : 'One take per pose, kept automatically'}>{n}</button>
+                          ))}
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-3">
+                        <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Seed</span>
+                        <input 
+                          type="text"
+                          inputMode="numeric"
+                          disabled={task.status === 'generating'}
+                          value={seedInput}
+                          onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+                          placeholder="Random"
+                          className="w-28 bg-black/60 border border-white/5 rounded-xl px-3 py-1.5 text-[11px] font-black text-neutral-300 text-center outline-none focus:border-white/20 placeholder:text-neutral-700"
+                          title="Fixes outfit and expression picks for the batch (blank = new random seed)"
+                        />
+                      </label>
                       <button onClick={() => setSelectedPoseIds(new Set())} className="text-[11px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors">Clear Selection</button>
                     </div>
                   </div>
@@ -932,22 +2418,189 @@ Include details like:
                       <div className="p-4 bg-emerald-500/10 rounded-2xl"><Archive className="w-6 h-6 text-emerald-400" /></div>
                       <div>
                         <h3 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Production Bin</h3>
-                        <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{gallery.length} Frames Generated</p>
+                        <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{gallery.length} Frames Generated · {keptCount} Kept</p>
                       </div>
                     </div>
-                    <button 
-                      onClick={handleClearClick} 
-                      className={`flex items-center gap-3 px-8 py-4 rounded-full transition-all text-[11px] font-black uppercase tracking-widest border ${clearConfirmMode ? 'bg-red-600 border-red-400 text-white' : 'bg-red-500/10 text-red-500 border-red-500/20 hover:bg-red-500/20'}`}
-                    >
-                      <Trash2 className="w-5 h-5" />
-                      {clearConfirmMode ? "ARE YOU SURE?" : "Clear Bin"}
-                    </button>
+                    <div className="flex items-center gap-4">
+                      {takeGroups.length > 0 && (
+                        <button
+                          onClick={() => setIsReviewOpen(true)}
+                          className="flex items-center gap-3 px-8 py-4 rounded-full bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/20 transition-all text-[11px] font-black uppercase tracking-widest"
+                        >
+                          <Images className="w-5 h-5" /> Review Takes ({TakeReview.pendingCount(gallery)} Pending)
+                        </button>
+                      )}
+                      <button 
+                        onClick={handleClearClick} 
+                        className={`flex items-center gap-3 px-8 py-4 rounded-full transition-all text-[11px] font-black uppercase tracking-widest border ${clearConfirmMode ? 'bg-red-600 border-red-400 text-white' : 'bg-red-500/10 text-red-500 border-red-500/20 hover:bg-red-500/20'}`}
+                      >
+                        <Trash2 className="w-5 h-5" />
+                        {clearConfirmMode ? "ARE YOU SURE?" : "Clear Bin"}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="p-10 bg-[#111]/30 border border-white/5 rounded-[3rem] space-y-8">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <FileText className="w-6 h-6 text-emerald-400" />
+                        <div>
+                          <p className="text-[12px] font-black text-neutral-300 uppercase tracking-[0.4em]">Caption Sidecars</p>
+                          <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">One .txt per frame in the export</p>
+                        </div>
+                      </div>
+                      <button onClick={() => setCaptionSettings(p => ({ ...p, enabled: !p.enabled }))} className={`transition-colors ${captionSettings.enabled ? 'text-emerald-400' : 'text-neutral-600'}`}>
+                        {captionSettings.enabled ? <ToggleRight className="w-9 h-9" /> : <ToggleLeft className="w-9 h-9" />}
+                      </button>
+                    </div>
+                    {captionSettings.enabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="space-y-3">
+                          <label className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em] px-2">Trigger Word</label>
+                          <input 
+                            type="text"
+                            value={captionSettings.triggerWord}
+                            onChange={(e) => setCaptionSettings(p => ({ ...p, triggerWord: e.target.value }))}
+                            className="w-full bg-black/60 border border-white/10 focus:border-emerald-500 rounded-2xl px-6 py-4 text-emerald-400 font-mono text-sm outline-none transition-all"
+                            placeholder="ohwx"
+                          />
+                        </div>
+                        <div className="space-y-3">
+                          <label className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em] px-2">Caption Style</label>
+                          <div className="flex bg-black/60 rounded-full p-1.5 border border-white/10">
+                            {(['tags', 'natural'] as const).map(style => (
+                              <button key={style} onClick={() => setCaptionSettings(p => ({ ...p, style }))} className={`flex-1 py-3 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${captionSettings.style === style ? 'bg-emerald-500 text-white shadow-lg' : 'text-neutral-500 hover:text-neutral-300'}`}>
+                                {style === 'tags' ? 'Comma Tags' : 'Natural'}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="space-y-3">
+                          <label className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em] px-2">Captioned Fields</label>
+                          <div className="flex flex-wrap gap-2">
+                            {CAPTION_FIELDS.map(field => {
+                              const included = !captionSettings.omitFields.includes(field.id);
+                              return (
+                                <button key={field.id} onClick={() => toggleCaptionField(field.id)} title={included ? 'Captioned' : 'Omitted (learned as identity)'} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${included ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : 'bg-black/40 border-white/5 text-neutral-600 line-through'}`}>
+                                  {field.label}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="p-10 bg-[#111]/30 border border-white/5 rounded-[3rem] space-y-8">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <ShieldCheck className="w-6 h-6 text-emerald-400" />
+                        <div>
+                          <p className="text-[12px] font-black text-neutral-300 uppercase tracking-[0.4em]">Identity Verification</p>
+                          <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">
+                            {gallery.filter(img => img.score).length} / {gallery.length} Scored · {Verification.failing(gallery, verificationSettings.threshold).length} Below Threshold
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <button onClick={verifyBin} disabled={task.status === 'generating'} className="flex items-center gap-2 px-5 py-3 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"><ShieldCheck className="w-4 h-4" /> Verify Bin</button>
+                        <button onClick={regenerateBelowThreshold} disabled={task.status === 'generating' || Verification.failing(gallery, verificationSettings.threshold).length === 0} className="flex items-center gap-2 px-5 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"><RotateCcw className="w-4 h-4" /> Regenerate Failing</button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                      <div className="flex items-center justify-between p-4 bg-black/40 border border-white/5 rounded-2xl">
+                        <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">Verify Each Batch</span>
+                        <button onClick={() => setVerificationSettings(p => ({ ...p, autoVerify: !p.autoVerify }))} className={`transition-colors ${verificationSettings.autoVerify ? 'text-emerald-400' : 'text-neutral-600'}`}>
+                          {verificationSettings.autoVerify ? <ToggleRight className="w-8 h-8" /> : <ToggleLeft className="w-8 h-8" />}
+                        </button>
+                      </div>
+                      <label className="flex items-center justify-between p-4 bg-black/40 border border-white/5 rounded-2xl">
+                        <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">Threshold</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={verificationSettings.threshold}
+                          onChange={(e) => setVerificationSettings(p => ({ ...p, threshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                          className="w-16 bg-black/60 border border-white/5 rounded-xl px-2 py-1.5 text-[11px] font-black text-neutral-300 text-center outline-none"
+                        />
+                      </label>
+                      <div className={`flex items-center justify-between p-4 bg-black/40 border border-white/5 rounded-2xl ${verificationSettings.autoVerify ? '' : 'opacity-40'}`}>
+                        <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">Auto-Regenerate</span>
+                        <button disabled={!verificationSettings.autoVerify} onClick={() => setVerificationSettings(p => ({ ...p, autoRegenerate: !p.autoRegenerate }))} className={`transition-colors ${verificationSettings.autoRegenerate ? 'text-emerald-400' : 'text-neutral-600'}`}>
+                          {verificationSettings.autoRegenerate ? <ToggleRight className="w-8 h-8" /> : <ToggleLeft className="w-8 h-8" />}
+                        </button>
+                      </div>
+                      <label className={`flex items-center justify-between p-4 bg-black/40 border border-white/5 rounded-2xl ${verificationSettings.autoVerify && verificationSettings.autoRegenerate ? '' : 'opacity-40'}`}>
+                        <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">Max Rounds</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={5}
+                          disabled={!verificationSettings.autoVerify || !verificationSettings.autoRegenerate}
+                          value={verificationSettings.maxRegenerations}
+                          onChange={(e) => setVerificationSettings(p => ({ ...p, maxRegenerations: Math.min(5, Math.max(1, Number(e.target.value) || 1)) }))}
+                          className="w-16 bg-black/60 border border-white/5 rounded-xl px-2 py-1.5 text-[11px] font-black text-neutral-300 text-center outline-none"
+                        />
+                      </label>
+                    </div>
                   </div>
 
+                  {manifests.length > 0 && (
+                    <div className="p-10 bg-[#111]/30 border border-white/5 rounded-[3rem] space-y-6">
+                      <div className="flex items-center gap-4">
+                        <History className="w-6 h-6 text-emerald-400" />
+                        <div>
+                          <p className="text-[12px] font-black text-neutral-300 uppercase tracking-[0.4em]">Batch Manifests</p>
+                          <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Exported as manifest.json with the bin</p>
+                        </div>
+                      </div>
+                      <div className="space-y-3 max-h-64 overflow-y-auto custom-scrollbar">
+                        {manifests.map(m => (
+                          <div key={m.id} className="flex items-center justify-between gap-6 p-4 bg-black/40 border border-white/5 rounded-2xl">
+                            <div className="flex items-center gap-6 min-w-0">
+                              <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">{new Date(m.createdAt).toLocaleString()}</span>
+                              <span className="text-[10px] font-mono text-emerald-400">seed {m.seed}</span>
+                              <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">{m.jobs.length} Frames · {m.models.image}</span>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <button onClick={() => setSeedInput(String(m.seed))} disabled={task.status === 'generating'} className="px-4 py-2 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30" title="Reuse this seed for the next batch">Use Seed</button>
+                              <button onClick={() => replayManifest(m)} disabled={task.status === 'generating'} className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30" title="Re-run the exact prompts of this batch"><RotateCcw className="w-3.5 h-3.5" /> Replay</button>
+                              <button onClick={() => downloadManifest(m)} className="p-2 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl transition-all" title="Download manifest"><Download className="w-3.5 h-3.5" /></button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-8">
                     {gallery.map((img) => (
-                      <div key={img.id} onClick={() => setSelectedImage(img)} className="group relative aspect-square rounded-[2.5rem] overflow-hidden border border-white/5 cursor-pointer shadow-3xl hover:border-emerald-500/50 transition-all">
-                        <img src={img.url} alt="Generated" className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
+                      <div key={img.id} onClick={() => setSelectedImageId(img.id)} className="group relative aspect-square rounded-[2.5rem] overflow-hidden border border-white/5 cursor-pointer shadow-3xl hover:border-emerald-500/50 transition-all">
+                        <img src={img.url} alt="Generated" className={`w-full h-full object-cover transition-transform duration-700 group-hover:scale-110 ${TakeReview.status(img) === 'rejected' || !Versions.isActive(gallery, img) ? 'opacity-30 grayscale' : ''}`} />
+
+                        <div className="absolute top-6 left-6 flex flex-col items-start gap-2 z-10">
+                          {img.score && (
+                            <div
+                              className={`flex items-center gap-2 px-3 py-1.5 rounded-xl backdrop-blur-sm text-[10px] font-black uppercase tracking-widest ${Verification.passes(img.score, verificationSettings.threshold) ? 'bg-emerald-500/80 text-black' : 'bg-red-600/80 text-white'}`}
+                              title={`Face ${img.score.face} · Hair ${img.score.hair ?? 'n/a'} · Body ${img.score.body ?? 'n/a'}${img.score.poseNote ? ` · ${img.score.poseNote}` : ''}`}
+                            >
+                              <ShieldCheck className="w-3.5 h-3.5" /> {img.score.overall}
+                              {!img.score.poseMatch && <AlertTriangle className="w-3.5 h-3.5" />}
+                            </div>
+                          )}
+                          {img.meta.take && (
+                            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl backdrop-blur-sm text-[10px] font-black uppercase tracking-widest ${TakeReview.status(img) === 'kept' ? 'bg-emerald-500/20 text-emerald-400' : TakeReview.status(img) === 'rejected' ? 'bg-red-600/30 text-red-300' : 'bg-black/60 text-neutral-300'}`}>
+                              {TakeReview.status(img) === 'rejected' ? <Ban className="w-3.5 h-3.5" /> : <Images className="w-3.5 h-3.5" />} Take {img.meta.take} · {TakeReview.status(img)}
+                            </div>
+                          )}
+                          {(img.edit || Versions.lineage(gallery, img).length > 1) && (
+                            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl backdrop-blur-sm text-[10px] font-black uppercase tracking-widest ${Versions.isActive(gallery, img) ? 'bg-violet-500/30 text-violet-200' : 'bg-black/60 text-neutral-400'}`}>
+                              <GitBranch className="w-3.5 h-3.5" /> V{Versions.number(img)}{Versions.isActive(gallery, img) ? ' · Export' : ''}
+                            </div>
+                          )}
+                        </div>
                         
                         {/* Individual Delete Button */}
                         <button 
@@ -960,7 +2613,7 @@ Include details like:
 
                         <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
                         <div className="absolute bottom-6 left-6 right-6 flex justify-between items-center translate-y-4 group-hover:translate-y-0 transition-transform opacity-0 group-hover:opacity-100">
-                          <p className="text-[10px] font-black text-white uppercase tracking-widest">{img.id.split('-').pop()}</p>
+                          <p className="text-[10px] font-black text-white uppercase tracking-widest">{img.meta.poseId}</p>
                           <div className="p-2 bg-emerald-500 rounded-lg"><Maximize2 className="w-4 h-4 text-black" /></div>
                         </div>
                       </div>
@@ -969,20 +2622,56 @@ Include details like:
                 </div>
               )}
 
-              {failedAssets.length > 0 && (
+              {projectFailures.length > 0 && (
                 <div className="p-12 bg-red-500/5 border border-red-500/20 rounded-[4rem] space-y-8">
-                  <div className="flex items-center gap-5 text-red-500">
-                    <AlertCircle className="w-7 h-7" />
-                    <h3 className="text-xl font-black uppercase tracking-widest">Failed Asset Matrix ({failedAssets.length})</h3>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-5 text-red-500">
+                      <AlertCircle className="w-7 h-7" />
+                      <h3 className="text-xl font-black uppercase tracking-widest">Failed Asset Matrix ({projectFailures.length})</h3>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button 
+                        onClick={dismissProjectFailures}
+                        disabled={task.status === 'generating'}
+                        className="px-6 py-3 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors disabled:opacity-30"
+                      >
+                        Dismiss All
+                      </button>
+                      <button 
+                        onClick={() => retryFailedAssets(projectFailures.map(f => f.id))}
+                        disabled={task.status === 'generating'}
+                        className="flex items-center gap-3 px-6 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+                      >
+                        <RefreshCcw className="w-4 h-4" /> Retry All Failed
+                      </button>
+                    </div>
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    {failedAssets.map(fail => (
+                    {projectFailures.map(fail => (
                       <div key={fail.id} className="p-6 bg-black/40 rounded-3xl border border-red-500/10 space-y-4">
                         <div className="flex justify-between items-start">
                           <p className="text-[11px] font-black text-red-400 uppercase tracking-widest">{fail.label}</p>
                           <span className="text-[9px] text-neutral-600 tabular-nums">{new Date(fail.timestamp).toLocaleTimeString()}</span>
                         </div>
                         <p className="text-[10px] text-neutral-500 leading-relaxed italic line-clamp-2">{fail.message}</p>
+                        {editingFailedId === fail.id && (
+                          <textarea
+                            value={fail.prompt}
+                            onChange={(e) => updateFailedPrompt(fail.id, e.target.value)}
+                            className="w-full h-40 bg-black/60 border border-white/10 focus:border-red-500/40 rounded-2xl px-5 py-4 text-neutral-300 text-[11px] leading-relaxed outline-none resize-none custom-scrollbar"
+                          />
+                        )}
+                        <div className="flex items-center justify-end gap-2">
+                          <button onClick={() => dismissFailedAsset(fail.id)} className="p-2.5 bg-white/5 hover:bg-white/10 text-neutral-500 rounded-xl transition-all" title="Dismiss"><X className="w-4 h-4" /></button>
+                          <button onClick={() => setEditingFailedId(editingFailedId === fail.id ? null : fail.id)} className={`p-2.5 rounded-xl transition-all ${editingFailedId === fail.id ? 'bg-red-500/20 text-red-400' : 'bg-white/5 hover:bg-white/10 text-neutral-500'}`} title="Edit Prompt"><PenLine className="w-4 h-4" /></button>
+                          <button 
+                            onClick={() => retryFailedAssets([fail.id])}
+                            disabled={task.status === 'generating'}
+                            className="flex items-center gap-2 px-4 py-2.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+                          >
+                            <RefreshCcw className="w-3.5 h-3.5" /> Retry
+                          </button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,155 @@
+import React from 'react';
+import { X, BarChart3, RefreshCcw, AlertTriangle } from 'lucide-react';
+import { BalanceMatrix, BalancePlan, DatasetGroup, ShotAngle } from '../types';
+import { DATASET_GROUPS, DEFAULT_BALANCE_PLAN, SHOT_ANGLES } from '../constants';
+import { BalancePlanner, BalanceResult } from '../services/balancePlanner';
+
+interface BalancePlanEditorProps {
+  plan: BalancePlan;
+  result: BalanceResult;
+  generated: BalanceMatrix;
+  canGenerate: boolean;
+  onChange: (plan: BalancePlan) => void;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+const GROUP_LABELS: Record<DatasetGroup, string> = { portrait: 'Portrait', upper: 'Upper Body', full: 'Full Body' };
+
+const toPercent = (value: string) => Math.max(0, Math.min(100, Number(value) || 0));
+
+const BalancePlanEditor: React.FC<BalancePlanEditorProps> = ({ plan, result, generated, canGenerate, onChange, onGenerate, onClose }) => {
+  const plannedTotal = BalancePlanner.total(result.planned);
+  const generatedTotal = BalancePlanner.total(generated);
+  // Bars share one scale so cells are comparable across the whole matrix
+  const scale = Math.max(1, ...DATASET_GROUPS.flatMap(g => SHOT_ANGLES.map(a => Math.max(result.planned[g][a.id], generated[g][a.id]))));
+
+  const setGroupWeight = (group: DatasetGroup, value: string) => {
+    onChange({ ...plan, groups: { ...plan.groups, [group]: toPercent(value) } });
+  };
+
+  const setAngleWeight = (angle: ShotAngle, value: string) => {
+    onChange({ ...plan, angles: { ...plan.angles, [angle]: toPercent(value) } });
+  };
+
+  const resetPlan = () => {
+    onChange({ ...DEFAULT_BALANCE_PLAN, groups: { ...DEFAULT_BALANCE_PLAN.groups }, angles: { ...DEFAULT_BALANCE_PLAN.angles } });
+  };
+
+  const weightInput = (value: number, onValue: (v: string) => void) => (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={value}
+        onChange={(e) => onValue(e.target.value)}
+        className="w-16 bg-black/60 border border-white/5 rounded-xl px-2 py-1.5 text-[11px] font-black text-neutral-300 text-center outline-none focus:border-white/20"
+      />
+      <span className="text-[10px] font-black text-neutral-700">%</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-5xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><BarChart3 className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Balance Planner</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{plannedTotal} Planned / {generatedTotal} Kept</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={resetPlan} className="p-3 bg-white/5 hover:bg-red-500/10 text-neutral-500 hover:text-red-400 rounded-full transition-all" title="Restore default plan"><RefreshCcw className="w-4 h-4" /></button>
+            <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-10">
+          <div className="grid grid-cols-3 gap-8">
+            <label className="space-y-3">
+              <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Total Frames</span>
+              <input
+                type="number"
+                min={0}
+                value={plan.total}
+                onChange={(e) => onChange({ ...plan, total: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                className="w-full bg-black/60 border border-white/5 rounded-2xl px-5 py-3 text-sm font-black text-neutral-300 outline-none focus:border-white/20"
+              />
+            </label>
+            <div className="space-y-3">
+              <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Framing Split</span>
+              {DATASET_GROUPS.map(group => (
+                <div key={group} className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">{GROUP_LABELS[group]}</span>
+                  {weightInput(plan.groups[group], v => setGroupWeight(group, v))}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-3">
+              <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Angle Split</span>
+              {SHOT_ANGLES.map(angle => (
+                <div key={angle.id} className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">{angle.label}</span>
+                  {weightInput(plan.angles[angle.id], v => setAngleWeight(angle.id, v))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Planned vs Generated</p>
+              <div className="flex items-center gap-4 text-[9px] font-black uppercase tracking-widest">
+                <span className="flex items-center gap-2 text-neutral-500"><span className="w-3 h-1.5 rounded-full bg-white/20" /> Planned</span>
+                <span className="flex items-center gap-2 text-emerald-400"><span className="w-3 h-1.5 rounded-full bg-emerald-500" /> Generated</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-[8rem_repeat(4,1fr)_5rem] gap-3 items-center">
+              <span />
+              {SHOT_ANGLES.map(angle => <span key={angle.id} className="text-[9px] font-black text-neutral-600 uppercase tracking-widest text-center">{angle.label}</span>)}
+              <span className="text-[9px] font-black text-neutral-600 uppercase tracking-widest text-right">Total</span>
+              {DATASET_GROUPS.map(group => (
+                <React.Fragment key={group}>
+                  <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">{GROUP_LABELS[group]}</span>
+                  {SHOT_ANGLES.map(angle => {
+                    const planned = result.planned[group][angle.id];
+                    const done = generated[group][angle.id];
+                    return (
+                      <div key={angle.id} className="p-3 bg-black/40 border border-white/5 rounded-2xl space-y-1.5">
+                        <div className="h-1.5 rounded-full bg-white/5 overflow-hidden"><div className="h-full bg-white/20" style={{ width: `${(planned / scale) * 100}%` }} /></div>
+                        <div className="h-1.5 rounded-full bg-white/5 overflow-hidden"><div className={`h-full ${done >= planned ? 'bg-emerald-500' : 'bg-amber-500'}`} style={{ width: `${(done / scale) * 100}%` }} /></div>
+                        <p className="text-[10px] font-black text-neutral-400 text-center">{done} / {planned}</p>
+                      </div>
+                    );
+                  })}
+                  <span className="text-[11px] font-black text-neutral-300 text-right">{BalancePlanner.total(generated, group)} / {BalancePlanner.total(result.planned, group)}</span>
+                </React.Fragment>
+              ))}
+            </div>
+            {result.shortfall > 0 && (
+              <p className="flex items-center gap-2 text-[10px] font-black text-amber-400 uppercase tracking-widest">
+                <AlertTriangle className="w-4 h-4" /> {result.shortfall} frames dropped: a weighted framing group has no poses
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-white/5 flex items-center justify-between">
+          <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Poses repeat with a fresh outfit and expression once a cell runs out</p>
+          <button
+            disabled={!canGenerate || result.frames.length === 0}
+            onClick={onGenerate}
+            className="px-10 py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-2xl text-[12px] font-black uppercase tracking-widest transition-all disabled:opacity-20"
+          >
+            Generate {result.frames.length} Frames
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BalancePlanEditor;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { X, ListChecks, Pin, PinOff, Dices, RotateCcw, PenLine, Play } from 'lucide-react';
+import { CompiledBatch, CompiledFrame } from '../types';
+
+interface BatchPreviewProps {
+  batch: CompiledBatch;
+  takesPerPose: number;
+  canLaunch: boolean;
+  onFrameChange: (index: number, update: (frame: CompiledFrame) => CompiledFrame) => void;
+  onReroll: (index: number, field: 'clothing' | 'expression') => void;
+  onRerollAll: () => void;
+  onRevert: (index: number) => void;
+  onLaunch: () => void;
+  onClose: () => void;
+}
+
+const BatchPreview: React.FC<BatchPreviewProps> = ({ batch, takesPerPose, canLaunch, onFrameChange, onReroll, onRerollAll, onRevert, onLaunch, onClose }) => {
+  const editedCount = batch.frames.filter(f => f.edited).length;
+
+  const pickRow = (index: number, frame: CompiledFrame, field: 'clothing' | 'expression') => {
+    const pinKey = field === 'clothing' ? 'pinClothing' : 'pinExpression';
+    const isPinned = frame[pinKey];
+    const value = frame.job[field];
+    return (
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="w-20 shrink-0 text-[9px] font-black text-neutral-600 uppercase tracking-widest">{field}</span>
+        <span className={`flex-1 min-w-0 truncate text-[11px] ${value ? 'text-neutral-300' : 'text-neutral-700 italic'}`} title={value}>{value || 'set by pose'}</span>
+        <button
+          onClick={() => onFrameChange(index, f => ({ ...f, [pinKey]: !isPinned }))}
+          className={`p-2 rounded-lg transition-all ${isPinned ? 'bg-amber-500/20 text-amber-400' : 'bg-white/5 text-neutral-500 hover:text-neutral-300'}`}
+          title={isPinned ? 'Pinned: kept when the batch is re-rolled' : 'Pin to keep on batch re-roll'}
+        >
+          {isPinned ? <Pin className="w-3.5 h-3.5" /> : <PinOff className="w-3.5 h-3.5" />}
+        </button>
+        <button
+          onClick={() => onReroll(index, field)}
+          disabled={frame.edited || !value}
+          className="p-2 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-lg transition-all disabled:opacity-30"
+          title={frame.edited ? 'Revert the prompt edit to re-roll' : `Re-roll ${field}`}
+        >
+          <Dices className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-6xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><ListChecks className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Compiled Batch</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">
+                {batch.frames.length} Prompts{takesPerPose > 1 ? ` × ${takesPerPose} Takes` : ''} · Seed {batch.seed}{editedCount > 0 ? ` · ${editedCount} Edited` : ''}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-4">
+          {batch.frames.map((frame, index) => (
+            <div key={`${frame.job.pose.id}-${frame.job.variant ?? 0}`} className={`p-6 bg-black/40 border rounded-3xl space-y-4 ${frame.edited ? 'border-violet-500/30' : 'border-white/5'}`}>
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-[10px] font-black text-neutral-700">{frame.job.pose.id.toUpperCase()}</span>
+                  <p className="text-[11px] font-black text-neutral-300 uppercase tracking-widest truncate">{frame.job.pose.label}</p>
+                  {!!frame.job.variant && <span className="px-2 py-0.5 bg-white/5 rounded-md text-[9px] font-black text-neutral-500 uppercase tracking-widest">Variant {frame.job.variant + 1}</span>}
+                  {frame.job.environment && <span className="px-2 py-0.5 bg-amber-500/10 rounded-md text-[9px] font-black text-amber-400 uppercase tracking-widest truncate">{frame.job.environment}</span>}
+                </div>
+                {frame.edited && (
+                  <button onClick={() => onRevert(index)} className="flex items-center gap-2 px-3 py-1.5 bg-violet-500/10 hover:bg-violet-500/20 text-violet-400 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all">
+                    <RotateCcw className="w-3 h-3" /> Revert Edit
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-6">
+                {pickRow(index, frame, 'clothing')}
+                {pickRow(index, frame, 'expression')}
+              </div>
+              <div className="relative">
+                <textarea
+                  value={frame.job.prompt}
+                  onChange={(e) => {
+                    const prompt = e.target.value;
+                    onFrameChange(index, f => ({ ...f, edited: true, job: { ...f.job, prompt } }));
+                  }}
+                  rows={4}
+                  className="w-full bg-black/60 border border-white/5 focus:border-violet-500/40 rounded-2xl px-4 py-3 text-[11px] text-neutral-400 font-mono leading-relaxed outline-none resize-y custom-scrollbar"
+                />
+                {frame.edited && <PenLine className="absolute top-3 right-3 w-3.5 h-3.5 text-violet-400" />}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-8 border-t border-white/5 flex items-center justify-between">
+          <button onClick={onRerollAll} className="flex items-center gap-2 px-6 py-4 bg-white/5 hover:bg-white/10 text-neutral-300 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all" title="New seed for every pick that is not pinned or hand-edited">
+            <Dices className="w-4 h-4" /> Re-roll Unpinned
+          </button>
+          <button
+            disabled={!canLaunch}
+            onClick={onLaunch}
+            className="flex items-center gap-3 px-10 py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-2xl text-[12px] font-black uppercase tracking-widest transition-all disabled:opacity-20"
+          >
+            <Play className="w-4 h-4" /> Launch {batch.frames.length * takesPerPose} Frames
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPreview;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Plus, X, Loader2, Play, Trash2, DownloadCloud, Users } from 'lucide-react';
+
+export interface CharacterTab {
+  id: string;
+  name: string;
+  frameCount: number;
+  // Frames this character has waiting in the workspace queue
+  queued: number;
+  running: boolean;
+}
+
+interface CharacterTabsProps {
+  tabs: CharacterTab[];
+  activeId: string | null;
+  queueCost: string | null;
+  canRunQueue: boolean;
+  isExporting: boolean;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onCreate: () => void;
+  onRunQueue: () => void;
+  onClearQueue: () => void;
+  onExportAll: () => void;
+}
+
+const CharacterTabs: React.FC<CharacterTabsProps> = ({
+  tabs, activeId, queueCost, canRunQueue, isExporting, onSelect, onClose, onCreate, onRunQueue, onClearQueue, onExportAll
+}) => {
+  const queuedFrames = tabs.reduce((sum, tab) => sum + tab.queued, 0);
+
+  return (
+    <div className="flex items-center gap-6">
+      <div className="flex items-center gap-2 text-neutral-600 shrink-0">
+        <Users className="w-4 h-4" />
+        <span className="text-[10px] font-black uppercase tracking-[0.3em]">Characters</span>
+      </div>
+      <div className="flex-1 flex items-center gap-2 overflow-x-auto custom-scrollbar pb-1">
+        {tabs.map(tab => (
+          <div
+            key={tab.id}
+            onClick={() => onSelect(tab.id)}
+            className={`group flex items-center gap-3 pl-5 pr-2 py-2 rounded-full border cursor-pointer transition-all shrink-0 ${tab.id === activeId ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-300' : 'bg-white/5 border-white/5 text-neutral-500 hover:text-neutral-300 hover:border-white/10'}`}
+          >
+            {tab.running && <Loader2 className="w-3.5 h-3.5 animate-spin text-emerald-400" />}
+            <span className="text-[11px] font-black uppercase tracking-widest max-w-[12rem] truncate">{tab.name}</span>
+            <span className="text-[9px] font-black text-neutral-600 tabular-nums">{tab.frameCount}</span>
+            {tab.queued > 0 && (
+              <span className="px-2 py-0.5 bg-amber-500/10 border border-amber-500/30 rounded-full text-[9px] font-black text-amber-400 tabular-nums" title="Frames waiting in the workspace queue">+{tab.queued}</span>
+            )}
+            {tabs.length > 1 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onClose(tab.id); }}
+                className="p-1 rounded-full text-neutral-700 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-all"
+                title="Close tab (the project stays in the library)"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button onClick={onCreate} className="p-2.5 rounded-full border border-dashed border-white/10 text-neutral-600 hover:text-emerald-400 hover:border-emerald-500/40 transition-all shrink-0" title="New character">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {queuedFrames > 0 && (
+          <>
+            <button onClick={onClearQueue} disabled={!canRunQueue} className="p-2.5 text-neutral-600 hover:text-red-400 transition-colors disabled:opacity-30" title="Clear the workspace queue">
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRunQueue}
+              disabled={!canRunQueue}
+              className="flex items-center gap-2 px-5 py-2.5 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 border border-amber-500/30 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+              title="Render every queued batch, interleaving the characters"
+            >
+              <Play className="w-3.5 h-3.5" /> Run Queue · {queuedFrames}{queueCost && ` · ≈ ${queueCost}`}
+            </button>
+          </>
+        )}
+        {tabs.length > 1 && (
+          <button
+            onClick={onExportAll}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-5 py-2.5 bg-white/5 hover:bg-white/10 text-neutral-400 border border-white/10 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+            title="Download one dataset archive per character, each with its own export settings"
+          >
+            {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <DownloadCloud className="w-3.5 h-3.5" />} Export Each
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterTabs;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Sun, RefreshCcw, Pin } from 'lucide-react';
+import { DatasetPose, EnvironmentCategory, EnvironmentPreset, EnvironmentSettings } from '../types';
+import { ENVIRONMENT_CATEGORIES } from '../constants';
+import { Environments } from '../services/environments';
+
+interface EnvironmentManagerProps {
+  presets: EnvironmentPreset[];
+  settings: EnvironmentSettings;
+  poses: DatasetPose[];
+  projectName: string;
+  onPresetsChange: (presets: EnvironmentPreset[]) => void;
+  onSettingsChange: (settings: EnvironmentSettings) => void;
+  onClose: () => void;
+}
+
+const EnvironmentManager: React.FC<EnvironmentManagerProps> = ({ presets, settings, poses, projectName, onPresetsChange, onSettingsChange, onClose }) => {
+  const [activeCategory, setActiveCategory] = useState<EnvironmentCategory>('studio');
+  const [assignPoseId, setAssignPoseId] = useState("");
+
+  const categoryPresets = presets.filter(p => p.category === activeCategory);
+  const assignments = Object.entries(settings.poseAssignments) as [string, string][];
+
+  const updatePreset = (id: string, patch: Partial<EnvironmentPreset>) => {
+    onPresetsChange(presets.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const addPreset = () => {
+    onPresetsChange([...presets, { id: Environments.nextId(presets, activeCategory), name: '', category: activeCategory, setting: '', lighting: '', caption: '', weight: 1 }]);
+  };
+
+  const removePreset = (id: string) => {
+    onPresetsChange(presets.filter(p => p.id !== id));
+  };
+
+  const resetPresets = () => {
+    if (!window.confirm("Restore the default environments? Custom presets and weights will be lost.")) return;
+    onPresetsChange(Environments.reset());
+  };
+
+  const assignPose = (poseId: string, presetId: string) => {
+    onSettingsChange({ ...settings, poseAssignments: { ...settings.poseAssignments, [poseId]: presetId } });
+  };
+
+  const unassignPose = (poseId: string) => {
+    const poseAssignments = { ...settings.poseAssignments };
+    delete poseAssignments[poseId];
+    onSettingsChange({ ...settings, poseAssignments });
+  };
+
+  const presetSelect = (value: string, onValue: (id: string) => void, className: string) => (
+    <select value={value} onChange={(e) => onValue(e.target.value)} className={`bg-black/60 border border-white/5 rounded-xl px-4 py-2.5 text-[11px] font-black text-neutral-300 outline-none ${className}`}>
+      {ENVIRONMENT_CATEGORIES.map(cat => (
+        <optgroup key={cat.id} label={cat.label}>
+          {presets.filter(p => p.category === cat.id).map(p => <option key={p.id} value={p.id}>{p.name || p.id}</option>)}
+        </optgroup>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-6xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-amber-500/10 rounded-2xl border border-amber-500/20"><Sun className="w-7 h-7 text-amber-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Environments</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{presets.length} Presets · {assignments.length} Pose Assignments for {projectName}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={resetPresets} className="p-3 bg-white/5 hover:bg-red-500/10 text-neutral-500 hover:text-red-400 rounded-full transition-all" title="Restore defaults"><RefreshCcw className="w-4 h-4" /></button>
+            <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar">
+          <div className="px-10 py-6 border-b border-white/5 space-y-4">
+            <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Batch Environment</p>
+            <div className="flex items-center gap-4">
+              <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                {(['fixed', 'weighted'] as const).map(mode => (
+                  <button key={mode} onClick={() => onSettingsChange({ ...settings, mode })} className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${settings.mode === mode ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                    {mode === 'fixed' ? 'Single Preset' : 'Weighted Random'}
+                  </button>
+                ))}
+              </div>
+              {settings.mode === 'fixed'
+                ? presetSelect(settings.presetId, presetId => onSettingsChange({ ...settings, presetId }), 'flex-1')
+                : <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Each frame draws a preset by weight</p>}
+            </div>
+          </div>
+
+          <div className="px-10 py-6 border-b border-white/5 space-y-4">
+            <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Pose Assignments <span className="text-neutral-700">— always use a preset for a pose</span></p>
+            {assignments.map(([poseId, presetId]) => (
+              <div key={poseId} className="flex items-center gap-4">
+                <Pin className="w-4 h-4 text-amber-400 shrink-0" />
+                <span className="w-64 truncate text-[11px] font-black text-neutral-300 uppercase tracking-widest">{poses.find(p => p.id === poseId)?.label || poseId}</span>
+                {presetSelect(presetId, id => assignPose(poseId, id), 'flex-1')}
+                <button onClick={() => unassignPose(poseId)} className="p-2.5 bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-xl transition-all"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+            <div className="flex items-center gap-4">
+              <select value={assignPoseId} onChange={(e) => setAssignPoseId(e.target.value)} className="flex-1 bg-black/60 border border-white/5 rounded-xl px-4 py-2.5 text-[11px] font-black text-neutral-400 outline-none">
+                <option value="">Choose a pose...</option>
+                {poses.filter(p => !settings.poseAssignments[p.id]).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <button
+                disabled={!assignPoseId || presets.length === 0}
+                onClick={() => { assignPose(assignPoseId, settings.presetId || presets[0].id); setAssignPoseId(""); }}
+                className="flex items-center gap-2 px-5 py-2.5 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+              >
+                <Plus className="w-4 h-4" /> Assign
+              </button>
+            </div>
+          </div>
+
+          <div className="p-6 grid grid-cols-5 gap-3 border-b border-white/5">
+            {ENVIRONMENT_CATEGORIES.map(cat => (
+              <button key={cat.id} onClick={() => setActiveCategory(cat.id)} className={`py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.3em] border transition-all ${activeCategory === cat.id ? 'bg-neutral-800 border-white/10 text-white' : 'border-white/5 text-neutral-600 hover:text-neutral-400'}`}>
+                {cat.label} ({presets.filter(p => p.category === cat.id).length})
+              </button>
+            ))}
+          </div>
+
+          <div className="p-6 space-y-3">
+            {categoryPresets.map(preset => (
+              <div key={preset.id} className={`grid grid-cols-[1fr_2fr_2fr_auto] gap-3 p-4 rounded-2xl border transition-all ${preset.weight > 0 ? 'bg-black/40 border-white/5' : 'bg-black/20 border-white/5 opacity-50'}`}>
+                <input
+                  value={preset.name}
+                  onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                  placeholder="Name"
+                  className="min-w-0 bg-black/60 border border-white/5 focus:border-amber-500/40 rounded-xl px-4 py-2.5 text-[12px] font-black text-neutral-300 outline-none"
+                />
+                <input
+                  value={preset.setting}
+                  onChange={(e) => updatePreset(preset.id, { setting: e.target.value })}
+                  placeholder="Describe the setting..."
+                  className="min-w-0 bg-black/60 border border-white/5 focus:border-amber-500/40 rounded-xl px-4 py-2.5 text-[12px] text-neutral-300 outline-none"
+                />
+                <input
+                  value={preset.lighting}
+                  onChange={(e) => updatePreset(preset.id, { lighting: e.target.value })}
+                  placeholder="Lighting"
+                  className="min-w-0 bg-black/60 border border-white/5 focus:border-amber-500/40 rounded-xl px-4 py-2.5 text-[12px] text-neutral-400 outline-none"
+                />
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2" title="Relative pick weight in weighted mode (0 disables)">
+                    <span className="text-[9px] font-black text-neutral-600 uppercase tracking-widest">W</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={preset.weight}
+                      onChange={(e) => updatePreset(preset.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-16 bg-black/60 border border-white/5 rounded-xl px-2 py-2.5 text-[11px] font-black text-neutral-300 text-center outline-none"
+                    />
+                  </label>
+                  <button onClick={() => removePreset(preset.id)} className="p-2.5 bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-xl transition-all"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <input
+                  value={preset.caption}
+                  onChange={(e) => updatePreset(preset.id, { caption: e.target.value })}
+                  placeholder="Caption phrase, e.g. on a beach"
+                  className="col-span-4 bg-black/60 border border-white/5 focus:border-amber-500/40 rounded-xl px-4 py-2 text-[11px] text-neutral-500 italic outline-none"
+                />
+              </div>
+            ))}
+            <button onClick={addPreset} className="w-full flex items-center justify-center gap-3 py-5 border-2 border-dashed border-white/5 hover:border-amber-500/30 rounded-2xl text-neutral-600 hover:text-amber-400 text-[11px] font-black uppercase tracking-widest transition-all">
+              <Plus className="w-4 h-4" /> Add {ENVIRONMENT_CATEGORIES.find(c => c.id === activeCategory)?.label} Preset
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentManager;
@@ -0,0 +1,247 @@
+import React from 'react';
+import { X, Archive, ToggleLeft, ToggleRight, FolderTree, Crop, Plus, Trash2 } from 'lucide-react';
+import { CaptionSettings, ExportSettings, PostProcessSettings, TrainingBucket } from '../types';
+import { CROP_MODES, EXPORT_FORMATS, EXPORT_NAME_TOKENS, EXPORT_PROFILES } from '../constants';
+import { DatasetExport } from '../services/datasetExport';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  captionSettings: CaptionSettings;
+  postProcess: PostProcessSettings;
+  onChange: (settings: ExportSettings) => void;
+  onPostProcessChange: (settings: PostProcessSettings) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_TOKENS: Record<string, string> = { project: 'project', pose: 'Pose_Label', poseId: 'p01', group: 'portrait', index: '0', take: '1', version: '1' };
+
+// Sample layout lines so the folder and file naming can be checked before exporting
+const layoutPreview = (settings: ExportSettings, captionSettings: CaptionSettings) => {
+  const { extension } = EXPORT_FORMATS.find(f => f.id === settings.format)!;
+  const file = settings.nameTemplate.replace(/\{(\w+)\}/g, (token, key: string) => SAMPLE_TOKENS[key] ?? token);
+  const group = settings.splitByGroup ? 'portrait/' : '';
+  const caption = captionSettings.enabled;
+  switch (settings.profile) {
+    case 'kohya':
+      return [`img/${group}${DatasetExport.kohyaFolder(settings, captionSettings)}/${file}.${extension}`, ...(caption ? [`img/${group}${DatasetExport.kohyaFolder(settings, captionSettings)}/${file}.txt`] : [])];
+    case 'huggingface':
+      return [`${group}${file}.${extension}`, 'metadata.jsonl'];
+    case 'json':
+      return [`${group}${file}.${extension}`, 'dataset.json'];
+    default:
+      return [`${group}${file}.${extension}`, ...(caption ? [`${group}${file}.txt`] : []), 'manifest.json'];
+  }
+};
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, captionSettings, postProcess, onChange, onPostProcessChange, onClose }) => {
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+  const updatePost = (patch: Partial<PostProcessSettings>) => onPostProcessChange({ ...postProcess, ...patch });
+
+  const updateBucket = (index: number, patch: Partial<TrainingBucket>) => {
+    updatePost({ buckets: postProcess.buckets.map((b, i) => i === index ? { ...b, ...patch } : b) });
+  };
+
+  const toggle = (on: boolean, onClick: () => void) => (
+    <button onClick={onClick} className={`transition-colors ${on ? 'text-emerald-400' : 'text-neutral-600'}`}>
+      {on ? <ToggleRight className="w-9 h-9" /> : <ToggleLeft className="w-9 h-9" />}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-4xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><Archive className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Export Profile</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">Layout, image format and naming for Export Bin</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-10">
+          <div className="grid grid-cols-2 gap-4">
+            {EXPORT_PROFILES.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => update({ profile: profile.id })}
+                className={`p-5 rounded-2xl border text-left space-y-2 transition-all ${settings.profile === profile.id ? 'bg-emerald-500/10 border-emerald-500/40' : 'bg-black/40 border-white/5 hover:border-white/20'}`}
+              >
+                <p className={`text-[12px] font-black uppercase tracking-widest ${settings.profile === profile.id ? 'text-emerald-400' : 'text-neutral-300'}`}>{profile.label}</p>
+                <p className="text-[11px] text-neutral-500 leading-relaxed">{profile.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {settings.profile === 'kohya' && (
+            <div className="grid grid-cols-2 gap-8">
+              <label className="space-y-3">
+                <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Repeats</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.repeats}
+                  onChange={(e) => update({ repeats: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                  className="w-full bg-black/60 border border-white/5 rounded-2xl px-5 py-3 text-sm font-black text-neutral-300 outline-none focus:border-white/20"
+                />
+              </label>
+              <label className="space-y-3">
+                <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Class Token</span>
+                <input
+                  value={settings.className}
+                  onChange={(e) => update({ className: e.target.value })}
+                  placeholder="e.g. woman, man, person"
+                  className="w-full bg-black/60 border border-white/5 rounded-2xl px-5 py-3 text-sm font-black text-neutral-300 outline-none focus:border-white/20"
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Image Format</p>
+            <div className="flex items-center gap-6">
+              <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                {EXPORT_FORMATS.map(format => (
+                  <button key={format.id} onClick={() => update({ format: format.id })} className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${settings.format === format.id ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+              <label className={`flex-1 flex items-center gap-4 ${settings.format === 'png' ? 'opacity-30' : ''}`}>
+                <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Quality</span>
+                <input
+                  type="range"
+                  min={50}
+                  max={100}
+                  disabled={settings.format === 'png'}
+                  value={settings.quality}
+                  onChange={(e) => update({ quality: Number(e.target.value) })}
+                  className="flex-1 accent-emerald-500"
+                />
+                <span className="w-10 text-right text-[11px] font-black text-neutral-300">{settings.quality}</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">File Naming</p>
+            <input
+              value={settings.nameTemplate}
+              onChange={(e) => update({ nameTemplate: e.target.value })}
+              className="w-full bg-black/60 border border-white/5 rounded-2xl px-5 py-3 text-[12px] font-mono text-neutral-300 outline-none focus:border-white/20"
+            />
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_NAME_TOKENS.map(token => (
+                <button key={token} onClick={() => update({ nameTemplate: settings.nameTemplate ? `${settings.nameTemplate}_${token}` : token })} className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-lg text-[10px] font-mono transition-all">
+                  {token}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-5 bg-black/40 border border-white/5 rounded-2xl">
+            <div>
+              <p className="text-[11px] font-black text-neutral-300 uppercase tracking-widest">Split by Framing Group</p>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">portrait / upper / full subfolders</p>
+            </div>
+            {toggle(settings.splitByGroup, () => update({ splitByGroup: !settings.splitByGroup }))}
+          </div>
+
+          <div className="p-6 bg-black/40 border border-white/5 rounded-2xl space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Crop className="w-5 h-5 text-sky-400" />
+                <div>
+                  <p className="text-[11px] font-black text-neutral-300 uppercase tracking-widest">Post-Processing</p>
+                  <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Crop to training buckets and drop near-duplicates on export</p>
+                </div>
+              </div>
+              {toggle(postProcess.enabled, () => updatePost({ enabled: !postProcess.enabled }))}
+            </div>
+
+            {postProcess.enabled && (
+              <>
+                <div className="space-y-3">
+                  <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Training Buckets <span className="text-neutral-700">— each frame uses the closest aspect ratio</span></p>
+                  <div className="flex flex-wrap gap-3">
+                    {postProcess.buckets.map((bucket, index) => (
+                      <div key={index} className="flex items-center gap-2 p-2 bg-black/60 border border-white/5 rounded-xl">
+                        <input
+                          type="number"
+                          min={64}
+                          step={64}
+                          value={bucket.width}
+                          onChange={(e) => updateBucket(index, { width: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                          className="w-20 bg-transparent text-[11px] font-black text-neutral-300 text-center outline-none"
+                        />
+                        <span className="text-[10px] font-black text-neutral-700">×</span>
+                        <input
+                          type="number"
+                          min={64}
+                          step={64}
+                          value={bucket.height}
+                          onChange={(e) => updateBucket(index, { height: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                          className="w-20 bg-transparent text-[11px] font-black text-neutral-300 text-center outline-none"
+                        />
+                        <button onClick={() => updatePost({ buckets: postProcess.buckets.filter((_, i) => i !== index) })} className="p-1.5 text-neutral-600 hover:text-red-400 transition-all"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </div>
+                    ))}
+                    <button onClick={() => updatePost({ buckets: [...postProcess.buckets, { width: 1024, height: 1024 }] })} className="flex items-center gap-2 px-4 py-2 border border-dashed border-white/10 hover:border-sky-500/40 rounded-xl text-[10px] font-black text-neutral-500 hover:text-sky-400 uppercase tracking-widest transition-all">
+                      <Plus className="w-3.5 h-3.5" /> Bucket
+                    </button>
+                  </div>
+                  {postProcess.buckets.length === 0 && <p className="text-[10px] text-amber-400 font-bold uppercase tracking-widest">No buckets: frames keep their rendered size</p>}
+                </div>
+
+                <div className="grid grid-cols-2 gap-8">
+                  <div className="space-y-3">
+                    <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Crop</p>
+                    <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                      {CROP_MODES.map(mode => (
+                        <button key={mode.id} onClick={() => updatePost({ crop: mode.id })} title={mode.description} className={`flex-1 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${postProcess.crop === mode.id ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Drop Near-Duplicates</p>
+                      {toggle(postProcess.dedupe, () => updatePost({ dedupe: !postProcess.dedupe }))}
+                    </div>
+                    <label className={`flex items-center gap-4 ${postProcess.dedupe ? '' : 'opacity-30'}`} title="Perceptual hash distance out of 64 bits; higher catches looser matches">
+                      <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Tolerance</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={16}
+                        disabled={!postProcess.dedupe}
+                        value={postProcess.dedupeThreshold}
+                        onChange={(e) => updatePost({ dedupeThreshold: Number(e.target.value) })}
+                        className="flex-1 accent-sky-500"
+                      />
+                      <span className="w-8 text-right text-[11px] font-black text-neutral-300">{postProcess.dedupeThreshold}</span>
+                    </label>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]"><FolderTree className="w-4 h-4" /> Layout Preview</p>
+            <div className="p-5 bg-black/60 border border-white/5 rounded-2xl space-y-1">
+              {layoutPreview(settings, captionSettings).map(line => (
+                <p key={line} className="text-[11px] font-mono text-neutral-400">{line}</p>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Lock, PenLine, Shuffle } from 'lucide-react';
+import { IdentityAttribute, IdentityLocks, LockMode } from '../types';
+import { IDENTITY_ATTRIBUTES, LOCK_MODES } from '../constants';
+
+interface IdentityLockPanelProps {
+  locks: IdentityLocks;
+  onChange: (locks: IdentityLocks) => void;
+}
+
+const MODE_ICONS: Record<LockMode, React.ReactNode> = {
+  keep: <Lock className="w-3 h-3" />,
+  override: <PenLine className="w-3 h-3" />,
+  vary: <Shuffle className="w-3 h-3" />
+};
+
+const MODE_STYLES: Record<LockMode, string> = {
+  keep: 'bg-emerald-500/20 text-emerald-400',
+  override: 'bg-blue-600/20 text-blue-400',
+  vary: 'bg-amber-500/20 text-amber-400'
+};
+
+const IdentityLockPanel: React.FC<IdentityLockPanelProps> = ({ locks, onChange }) => {
+  const update = (id: IdentityAttribute, patch: Partial<IdentityLocks[IdentityAttribute]>) => {
+    onChange({ ...locks, [id]: { ...locks[id], ...patch } });
+  };
+
+  return (
+    <div className="space-y-3">
+      {IDENTITY_ATTRIBUTES.map(attr => {
+        const lock = locks[attr.id];
+        return (
+          <div key={attr.id} className="p-4 bg-black/40 border border-white/5 rounded-2xl space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">{attr.label}</span>
+              <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                {LOCK_MODES.map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => update(attr.id, { mode: mode.id })}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${lock.mode === mode.id ? MODE_STYLES[mode.id] : 'text-neutral-600 hover:text-neutral-400'}`}
+                  >
+                    {MODE_ICONS[mode.id]} {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {lock.mode === 'override' && (
+              <>
+                <input
+                  type="text"
+                  list={`lock-options-${attr.id}`}
+                  value={lock.value}
+                  onChange={(e) => update(attr.id, { value: e.target.value })}
+                  placeholder={attr.options[0]}
+                  className="w-full bg-black/60 border border-white/10 focus:border-blue-500/50 rounded-xl px-4 py-2.5 text-[12px] text-neutral-300 outline-none placeholder:text-neutral-700 placeholder:italic"
+                />
+                <datalist id={`lock-options-${attr.id}`}>
+                  {attr.options.map(o => <option key={o} value={o} />)}
+                </datalist>
+              </>
+            )}
+            {lock.mode === 'vary' && (
+              <p className="text-[10px] text-neutral-600 italic leading-relaxed">One per frame from: {attr.options.join(', ')}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IdentityLockPanel;
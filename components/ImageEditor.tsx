@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { X, Wand2, Brush, Eraser, Loader2 } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { EDIT_SUGGESTIONS, MASK_BRUSH_SIZES } from '../constants';
+
+interface ImageEditorProps {
+  image: GeneratedImage;
+  isBusy: boolean;
+  onSubmit: (instruction: string, mask?: string) => void;
+  onClose: () => void;
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, isBusy, onSubmit, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [instruction, setInstruction] = useState("");
+  const [brushSize, setBrushSize] = useState(MASK_BRUSH_SIZES[1]);
+  const [hasMask, setHasMask] = useState(false);
+
+  // The canvas is sized to the frame's pixels so the mask lines up with the image the model receives
+  const fitCanvas = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height)
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+    const from = lastPoint.current ?? point;
+    // Brush size is in screen pixels; scale it so strokes look the same at any resolution
+    ctx.lineWidth = brushSize * (e.currentTarget.width / e.currentTarget.getBoundingClientRect().width);
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // Flattens the strokes to white-on-black, the convention inpainting backends expect
+  const exportMask = () => {
+    const strokes = canvasRef.current;
+    if (!strokes || !hasMask) return undefined;
+    const mask = document.createElement('canvas');
+    mask.width = strokes.width;
+    mask.height = strokes.height;
+    const ctx = mask.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.drawImage(strokes, 0, 0);
+    return mask.toDataURL('image/png');
+  };
+
+  const submit = () => {
+    if (!instruction.trim() || isBusy) return;
+    onSubmit(instruction.trim(), exportMask());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-6xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-violet-500/10 rounded-2xl border border-violet-500/20"><Wand2 className="w-7 h-7 text-violet-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Edit Frame</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{image.meta.poseLabel} · Saved as a new version, the original is kept</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 grid grid-cols-[3fr_2fr] gap-10">
+          <div className="space-y-4">
+            <div className="relative flex justify-center rounded-[2rem] overflow-hidden border border-white/10 bg-black">
+              <div className="relative">
+                <img src={image.url} alt="Frame to edit" onLoad={fitCanvas} className="block max-h-[56vh] w-auto object-contain select-none" draggable={false} />
+                <canvas
+                  ref={canvasRef}
+                  onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); lastPoint.current = null; paint(e); }}
+                  onPointerMove={(e) => { if (e.buttons === 1) paint(e); }}
+                  onPointerUp={() => { lastPoint.current = null; }}
+                  className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Brush className="w-4 h-4 text-neutral-500" />
+                <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Mask Brush</span>
+                <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                  {MASK_BRUSH_SIZES.map(size => (
+                    <button key={size} onClick={() => setBrushSize(size)} className={`px-3 py-1.5 rounded-full text-[10px] font-black transition-all ${brushSize === size ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{size}px</button>
+                  ))}
+                </div>
+              </div>
+              <button onClick={clearMask} disabled={!hasMask} className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30">
+                <Eraser className="w-3.5 h-3.5" /> Clear Mask
+              </button>
+            </div>
+            <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">
+              {hasMask ? 'Only the painted region will be changed' : 'Paint over the flaw to limit the edit, or leave blank to edit the whole frame'}
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Instruction</p>
+              <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                rows={5}
+                placeholder="Describe the fix, e.g. remove the extra finger on the left hand"
+                className="w-full bg-black/60 border border-white/5 focus:border-violet-500/40 rounded-2xl px-4 py-3 text-[12px] text-neutral-300 leading-relaxed outline-none resize-y custom-scrollbar"
+              />
+            </div>
+            <div className="space-y-3">
+              <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Suggestions</p>
+              <div className="flex flex-wrap gap-2">
+                {EDIT_SUGGESTIONS.map(suggestion => (
+                  <button key={suggestion} onClick={() => setInstruction(suggestion)} className="px-3 py-2 bg-white/5 hover:bg-violet-500/10 text-neutral-400 hover:text-violet-300 rounded-xl text-[10px] font-bold text-left transition-all">
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-white/5 flex items-center justify-end">
+          <button
+            disabled={!instruction.trim() || isBusy}
+            onClick={submit}
+            className="flex items-center gap-3 px-10 py-4 bg-violet-600 hover:bg-violet-500 text-white rounded-2xl text-[12px] font-black uppercase tracking-widest transition-all disabled:opacity-20"
+          >
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            {isBusy ? 'Editing...' : hasMask ? 'Apply Masked Edit' : 'Apply Edit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,220 @@
+import React, { useRef, useState } from 'react';
+import {
+  X, Plus, Trash2, ChevronUp, ChevronDown, PenLine, Upload, DownloadCloud, RefreshCcw, AlertTriangle, Layers, CheckCircle2
+} from 'lucide-react';
+import { DatasetGroup, DatasetPose } from '../types';
+import { ASPECT_RATIO_OPTIONS, DATASET_GROUPS, POSE_FACING_OPTIONS } from '../constants';
+import { PoseLibrary } from '../services/poseLibrary';
+
+interface PoseLibraryEditorProps {
+  poses: DatasetPose[];
+  groupLabels: Record<string, string>;
+  onChange: (poses: DatasetPose[]) => void;
+  onClose: () => void;
+}
+
+const PoseLibraryEditor: React.FC<PoseLibraryEditorProps> = ({ poses, groupLabels, onChange, onClose }) => {
+  const [activeGroup, setActiveGroup] = useState<DatasetGroup>('portrait');
+  const [draft, setDraft] = useState<DatasetPose | null>(null);
+  const [draftIsNew, setDraftIsNew] = useState(false);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [notice, setNotice] = useState<{ type: 'error' | 'ok'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const groupPoses = poses.filter(p => p.group === activeGroup);
+
+  const startNew = () => {
+    setDraft({ id: PoseLibrary.nextId(poses), label: '', group: activeGroup, description: '' });
+    setDraftIsNew(true);
+    setNotice(null);
+  };
+
+  const startEdit = (pose: DatasetPose) => {
+    setDraft({ ...pose });
+    setDraftIsNew(false);
+    setNotice(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    try {
+      const clean = PoseLibrary.validatePose(draft, 0);
+      if (draftIsNew && poses.some(p => p.id === clean.id)) throw new Error(`Pose id "${clean.id}" already exists.`);
+      onChange(draftIsNew ? [...poses, clean] : poses.map(p => p.id === clean.id ? clean : p));
+      setActiveGroup(clean.group);
+      setDraft(null);
+    } catch (err: any) {
+      setNotice({ type: 'error', text: err.message });
+    }
+  };
+
+  const deletePose = (id: string) => {
+    onChange(poses.filter(p => p.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  // Moves a pose past its nearest neighbour in the same group, leaving other groups untouched.
+  const movePose = (id: string, direction: -1 | 1) => {
+    const index = poses.findIndex(p => p.id === id);
+    let target = index + direction;
+    while (target >= 0 && target < poses.length && poses[target].group !== poses[index].group) target += direction;
+    if (target < 0 || target >= poses.length) return;
+    const next = [...poses];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const exportPack = () => {
+    const blob = new Blob([PoseLibrary.exportPack('Pose Pack', poses)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `pose_pack_${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const pack = PoseLibrary.parsePack(await file.text());
+      onChange(importMode === 'replace' ? pack.poses : PoseLibrary.merge(poses, pack.poses));
+      setNotice({ type: 'ok', text: `Imported ${pack.poses.length} poses from "${pack.name}".` });
+    } catch (err: any) {
+      setNotice({ type: 'error', text: `Import failed: ${err.message}` });
+    }
+  };
+
+  const resetLibrary = () => {
+    if (!window.confirm("Restore the built-in pose library? Custom poses will be removed.")) return;
+    onChange(PoseLibrary.reset());
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-6xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><Layers className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Pose Library</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{poses.length} Poses · Saved locally</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex bg-black/60 rounded-full p-1 border border-white/10">
+              {(['merge', 'replace'] as const).map(mode => (
+                <button key={mode} onClick={() => setImportMode(mode)} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${importMode === mode ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{mode}</button>
+              ))}
+            </div>
+            <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 px-5 py-3 bg-white/5 hover:bg-white/10 text-neutral-300 rounded-full text-[10px] font-black uppercase tracking-widest transition-all"><Upload className="w-4 h-4" /> Import</button>
+            <button onClick={exportPack} className="flex items-center gap-2 px-5 py-3 bg-white/5 hover:bg-white/10 text-neutral-300 rounded-full text-[10px] font-black uppercase tracking-widest transition-all"><DownloadCloud className="w-4 h-4" /> Export</button>
+            <button onClick={resetLibrary} className="p-3 bg-white/5 hover:bg-red-500/10 text-neutral-500 hover:text-red-400 rounded-full transition-all" title="Restore built-ins"><RefreshCcw className="w-4 h-4" /></button>
+            <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+            <input type="file" ref={importInputRef} onChange={handleImport} className="hidden" accept="application/json,.json" />
+          </div>
+        </div>
+
+        {notice && (
+          <div className={`px-10 py-4 border-b flex items-center gap-3 ${notice.type === 'error' ? 'bg-red-500/5 border-red-500/10 text-red-400' : 'bg-emerald-500/5 border-emerald-500/10 text-emerald-400'}`}>
+            {notice.type === 'error' ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+            <span className="text-[10px] font-black uppercase tracking-widest">{notice.text}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 flex-1 min-h-0">
+          <div className="lg:col-span-3 flex flex-col min-h-0 border-r border-white/5">
+            <div className="p-6 grid grid-cols-3 gap-3 border-b border-white/5">
+              {DATASET_GROUPS.map(group => (
+                <button key={group} onClick={() => setActiveGroup(group)} className={`py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.3em] border transition-all ${activeGroup === group ? 'bg-neutral-800 border-white/10 text-white' : 'border-white/5 text-neutral-600 hover:text-neutral-400'}`}>
+                  {groupLabels[group]} ({poses.filter(p => p.group === group).length})
+                </button>
+              ))}
+            </div>
+            <div className="p-6 space-y-3 overflow-y-auto custom-scrollbar">
+              {groupPoses.map((pose, i) => (
+                <div key={pose.id} className={`flex items-center gap-4 p-4 rounded-2xl border transition-all ${draft?.id === pose.id && !draftIsNew ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-black/40 border-white/5'}`}>
+                  <div className="flex flex-col">
+                    <button onClick={() => movePose(pose.id, -1)} disabled={i === 0} className="p-1 text-neutral-600 hover:text-white disabled:opacity-20"><ChevronUp className="w-4 h-4" /></button>
+                    <button onClick={() => movePose(pose.id, 1)} disabled={i === groupPoses.length - 1} className="p-1 text-neutral-600 hover:text-white disabled:opacity-20"><ChevronDown className="w-4 h-4" /></button>
+                  </div>
+                  <span className="text-[10px] font-black text-neutral-700 w-10">{pose.id.toUpperCase()}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[11px] font-black text-neutral-300 uppercase tracking-widest truncate">{pose.label}</p>
+                    <p className="text-[9px] text-neutral-600 italic truncate">{pose.description}</p>
+                  </div>
+                  {pose.orientation && <span className="px-2 py-1 bg-white/5 rounded-lg text-[8px] font-black text-neutral-500 uppercase tracking-widest">{pose.orientation}</span>}
+                  {pose.aspectRatio && <span className="px-2 py-1 bg-white/5 rounded-lg text-[8px] font-black text-neutral-500 uppercase tracking-widest">{pose.aspectRatio}</span>}
+                  <button onClick={() => startEdit(pose)} className="p-2.5 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl transition-all"><PenLine className="w-4 h-4" /></button>
+                  <button onClick={() => deletePose(pose.id)} className="p-2.5 bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-xl transition-all"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              ))}
+              <button onClick={startNew} className="w-full flex items-center justify-center gap-3 py-5 border-2 border-dashed border-white/5 hover:border-emerald-500/30 rounded-2xl text-neutral-600 hover:text-emerald-400 text-[11px] font-black uppercase tracking-widest transition-all">
+                <Plus className="w-4 h-4" /> Add {groupLabels[activeGroup]} Pose
+              </button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 p-8 overflow-y-auto custom-scrollbar">
+            {draft ? (
+              <div className="space-y-6">
+                <p className="text-[12px] font-black text-neutral-300 uppercase tracking-[0.4em]">{draftIsNew ? 'New Pose' : `Edit ${draft.id.toUpperCase()}`}</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="space-y-2">
+                    <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Id</span>
+                    <input value={draft.id} disabled={!draftIsNew} onChange={(e) => setDraft({ ...draft, id: e.target.value.replace(/[^a-zA-Z0-9_-]/g, '') })} className="w-full bg-black/60 border border-white/10 focus:border-emerald-500/50 rounded-xl px-4 py-3 text-sm text-neutral-300 font-mono outline-none disabled:opacity-50" />
+                  </label>
+                  <label className="space-y-2">
+                    <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Group</span>
+                    <select value={draft.group} onChange={(e) => setDraft({ ...draft, group: e.target.value as DatasetGroup })} className="w-full bg-black/60 border border-white/10 rounded-xl px-4 py-3 text-sm text-neutral-300 outline-none">
+                      {DATASET_GROUPS.map(g => <option key={g} value={g}>{groupLabels[g]}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <label className="block space-y-2">
+                  <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Label</span>
+                  <input value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} placeholder="ANGLE 8: LOW 45 LEFT" className="w-full bg-black/60 border border-white/10 focus:border-emerald-500/50 rounded-xl px-4 py-3 text-sm text-neutral-300 outline-none" />
+                </label>
+                <label className="block space-y-2">
+                  <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Description</span>
+                  <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Describe the target pose as sent to the model..." className="w-full h-32 bg-black/60 border border-white/10 focus:border-emerald-500/50 rounded-xl px-4 py-3 text-sm text-neutral-300 leading-relaxed outline-none resize-none" />
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="space-y-2">
+                    <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Orientation</span>
+                    <select value={draft.orientation || ''} onChange={(e) => setDraft({ ...draft, orientation: (e.target.value || undefined) as DatasetPose['orientation'] })} className="w-full bg-black/60 border border-white/10 rounded-xl px-4 py-3 text-sm text-neutral-300 outline-none">
+                      <option value="">Infer from description</option>
+                      {POSE_FACING_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-2">
+                    <span className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Aspect Ratio</span>
+                    <select value={draft.aspectRatio || ''} onChange={(e) => setDraft({ ...draft, aspectRatio: (e.target.value || undefined) as DatasetPose['aspectRatio'] })} className="w-full bg-black/60 border border-white/10 rounded-xl px-4 py-3 text-sm text-neutral-300 outline-none">
+                      <option value="">Group default</option>
+                      {ASPECT_RATIO_OPTIONS.map(ar => <option key={ar} value={ar}>{ar}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <div className="flex justify-end gap-3 pt-4">
+                  <button onClick={() => setDraft(null)} className="px-6 py-3 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors">Cancel</button>
+                  <button onClick={saveDraft} className="px-8 py-3 bg-emerald-600 hover:bg-emerald-500 text-white rounded-full text-[10px] font-black uppercase tracking-widest transition-all">Save Pose</button>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center gap-4 text-center text-neutral-700">
+                <PenLine className="w-10 h-10" />
+                <p className="text-[11px] font-black uppercase tracking-widest">Select a pose to edit or add a new one</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PoseLibraryEditor;
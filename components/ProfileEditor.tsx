@@ -0,0 +1,61 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { CharacterProfile, IdentityLocks, ProfileField } from '../types';
+import { IDENTITY_ATTRIBUTES, PROFILE_FIELDS, PROFILE_SECTIONS } from '../constants';
+import { LockResolver } from '../services/identityLocks';
+
+interface ProfileEditorProps {
+  profile: CharacterProfile;
+  locks: IdentityLocks;
+  accent: 'emerald' | 'violet';
+  onChange: (profile: CharacterProfile) => void;
+}
+
+const ACCENTS = {
+  emerald: { label: 'text-emerald-500/70', focus: 'focus:border-emerald-500/50', lock: 'text-emerald-400' },
+  violet: { label: 'text-violet-400/70', focus: 'focus:border-violet-500/50', lock: 'text-violet-400' }
+};
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, locks, accent, onChange }) => {
+  const colors = ACCENTS[accent];
+
+  const updateField = (id: ProfileField, value: string) => {
+    onChange({ ...profile, [id]: value });
+  };
+
+  // A section shows the lock when every attribute that reads from it is kept from the reference.
+  const sectionAttributes = (section: string) => IDENTITY_ATTRIBUTES.filter(a => a.section === section).map(a => a.id);
+  const isFieldReplaced = (id: ProfileField) =>
+    IDENTITY_ATTRIBUTES.some(a => a.profileField === id && !LockResolver.isKept(locks, [a.id]));
+
+  return (
+    <div className="space-y-6">
+      {PROFILE_SECTIONS.map(section => {
+        const attrs = sectionAttributes(section.id);
+        const isLocked = attrs.length > 0 && LockResolver.isKept(locks, attrs);
+        return (
+          <div key={section.id} className="space-y-3">
+            <div className="flex items-center gap-2 px-2">
+              <span className={`text-[10px] font-black uppercase tracking-[0.4em] ${colors.label}`}>{section.label}</span>
+              {isLocked && <Lock className={`w-3 h-3 ${colors.lock}`} />}
+            </div>
+            {PROFILE_FIELDS.filter(f => f.section === section.id).map(field => (
+              <label key={field.id} className="flex items-center gap-3">
+                <span className={`w-20 shrink-0 text-[9px] font-black uppercase tracking-widest ${isFieldReplaced(field.id) ? 'text-neutral-700 line-through' : 'text-neutral-600'}`}>{field.label}</span>
+                <input
+                  type="text"
+                  value={profile[field.id]}
+                  onChange={(e) => updateField(field.id, e.target.value)}
+                  placeholder={field.placeholder}
+                  className={`flex-1 min-w-0 bg-black/40 border border-white/10 ${colors.focus} rounded-xl px-4 py-2.5 text-[12px] text-neutral-300 outline-none placeholder:text-neutral-700 placeholder:italic`}
+                />
+              </label>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProfileEditor;
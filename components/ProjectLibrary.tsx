@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { FolderOpen, X, Plus, Copy, PenLine, Trash2, CheckCircle2, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  isBusy: boolean;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects, activeProjectId, isBusy, onOpen, onCreate, onDuplicate, onRename, onDelete, onClose
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const beginRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-4xl w-full max-h-[85vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><FolderOpen className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Project Library</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">Autosaved locally in this browser</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onCreate}
+              className="flex items-center gap-3 px-6 py-4 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 text-white rounded-full text-[11px] font-black uppercase tracking-widest transition-all"
+            >
+              <Plus className="w-4 h-4" /> New Project
+            </button>
+            <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+          </div>
+        </div>
+
+        {isBusy && (
+          <div className="px-10 py-4 bg-amber-500/5 border-b border-amber-500/10 flex items-center gap-3 text-amber-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-[10px] font-black uppercase tracking-widest">Batch running — frames keep landing in the project that queued them; the open project cannot be deleted</span>
+          </div>
+        )}
+
+        <div className="p-10 space-y-4 overflow-y-auto custom-scrollbar">
+          {projects.length === 0 && (
+            <p className="text-center text-[11px] font-black text-neutral-600 uppercase tracking-widest py-10">No saved projects yet</p>
+          )}
+          {projects.map(project => {
+            const isActive = project.id === activeProjectId;
+            return (
+              <div key={project.id} className={`flex items-center justify-between gap-6 p-6 rounded-3xl border transition-all ${isActive ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-black/40 border-white/5 hover:border-white/10'}`}>
+                <div className="flex items-center gap-5 min-w-0">
+                  <div className={`p-3 rounded-xl ${isActive ? 'bg-emerald-500 text-black' : 'bg-white/5 text-neutral-600'}`}>
+                    {isActive ? <CheckCircle2 className="w-5 h-5" /> : <ImageIcon className="w-5 h-5" />}
+                  </div>
+                  <div className="min-w-0">
+                    {renamingId === project.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value.replace(/[^a-zA-Z0-9_-]/g, '_'))}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                        className="bg-black/60 border border-emerald-500/50 rounded-xl px-4 py-2 text-emerald-400 font-black uppercase tracking-[0.2em] text-sm outline-none"
+                      />
+                    ) : (
+                      <p className="text-sm font-black text-neutral-200 uppercase tracking-[0.2em] truncate">{project.name}</p>
+                    )}
+                    <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest mt-1">
+                      {project.frameCount} Frames · {project.hasReference ? 'Reference Set' : 'No Reference'} · {new Date(project.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={() => onOpen(project.id)} disabled={isActive} className="px-5 py-3 bg-emerald-500/10 hover:bg-emerald-500/20 disabled:opacity-30 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Open</button>
+                  <button onClick={() => beginRename(project)} className="p-3 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl transition-all" title="Rename"><PenLine className="w-4 h-4" /></button>
+                  <button onClick={() => onDuplicate(project.id)} className="p-3 bg-white/5 hover:bg-white/10 text-neutral-400 rounded-xl transition-all" title="Duplicate"><Copy className="w-4 h-4" /></button>
+                  <button onClick={() => onDelete(project.id)} disabled={isBusy && isActive} className="p-3 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-30 text-red-500 rounded-xl transition-all" title="Delete"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Plus, Trash2, RotateCcw, Zap, Download, Check, MapPin, ArrowLeftRight } from 'lucide-react';
+import { AspectRatio, EnvironmentPreset, ProjectSummary, SceneFraming, ScenePose, SceneShot } from '../types';
+import { ASPECT_RATIO_OPTIONS, SCENE_FRAMINGS } from '../constants';
+import { SceneLibrary } from '../services/sceneLibrary';
+import { Environments } from '../services/environments';
+import { Usage } from '../services/usage';
+
+interface SceneStudioProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  poses: ScenePose[];
+  environments: EnvironmentPreset[];
+  shots: SceneShot[];
+  // Estimated price of one shot at the current resolution
+  shotCost: number;
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onPosesChange: (poses: ScenePose[]) => void;
+  onResetPoses: () => void;
+  onGenerate: (poses: ScenePose[], castIds: [string, string], environmentId: string | null) => void;
+  onDeleteShot: (id: string) => void;
+}
+
+const SceneStudio: React.FC<SceneStudioProps> = ({
+  projects, activeProjectId, poses, environments, shots, shotCost, isGenerating, canGenerate,
+  onPosesChange, onResetPoses, onGenerate, onDeleteShot
+}) => {
+  const [castA, setCastA] = useState<string>(activeProjectId ?? '');
+  const [castB, setCastB] = useState<string>('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [environmentId, setEnvironmentId] = useState<string>('');
+  const [draft, setDraft] = useState<ScenePose | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  // Keep both slots pointing at existing projects; A follows the open tab until the user picks someone else
+  useEffect(() => {
+    if (!projects.some(p => p.id === castA)) setCastA(activeProjectId ?? projects[0]?.id ?? '');
+  }, [projects, activeProjectId]);
+  useEffect(() => {
+    if (!projects.some(p => p.id === castB) || castB === castA) setCastB(projects.find(p => p.id !== castA)?.id ?? '');
+  }, [projects, castA]);
+
+  const usableEnvironments = environments.filter(e => Environments.isUsable(e));
+  const selectedPoses = poses.filter(p => selectedIds.has(p.id));
+  const castReady = !!castA && !!castB && castA !== castB;
+  const projectFor = (id: string) => projects.find(p => p.id === id);
+
+  const togglePose = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const deletePose = (id: string) => {
+    onPosesChange(poses.filter(p => p.id !== id));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    try {
+      onPosesChange([...poses, SceneLibrary.validatePose(draft, poses.length)]);
+      setDraft(null);
+      setDraftError(null);
+    } catch (err: any) {
+      setDraftError(err.message);
+    }
+  };
+
+  const resetPoses = () => {
+    if (!window.confirm("Restore the built-in scene poses? Custom scenes will be removed.")) return;
+    setSelectedIds(new Set());
+    onResetPoses();
+  };
+
+  const generate = () => {
+    if (!castReady || selectedPoses.length === 0) return;
+    onGenerate(selectedPoses, [castA, castB], environmentId || null);
+    setSelectedIds(new Set());
+  };
+
+  const downloadShot = (shot: SceneShot) => {
+    const link = document.createElement('a');
+    link.href = shot.url;
+    link.download = `${shot.cast.map(c => c.name).join('_and_')}_${shot.sceneId}_${shot.timestamp}.png`;
+    link.click();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-16">
+      <div className="lg:col-span-4 space-y-8">
+        <div className="bg-[#111]/30 border border-white/5 rounded-[4rem] p-12 shadow-4xl backdrop-blur-3xl space-y-10">
+          <div className="flex items-center gap-4">
+            <div className="p-4 bg-sky-500/10 rounded-2xl border border-sky-500/20"><Users className="w-6 h-6 text-sky-400" /></div>
+            <div>
+              <h2 className="text-[12px] font-black text-neutral-300 uppercase tracking-[0.5em]">Cast</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Two saved characters, references and profiles</p>
+            </div>
+          </div>
+
+          {projects.length < 2 ? (
+            <p className="p-6 bg-amber-500/5 border border-amber-500/20 rounded-2xl text-[11px] font-bold text-amber-400 leading-relaxed">
+              Scenes need two saved characters. Create a second character from the tabs above and give it references first.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {([['A', 'Left of frame', castA, setCastA], ['B', 'Right of frame', castB, setCastB]] as const).map(([slot, side, value, setValue]) => (
+                <label key={slot} className="block space-y-2">
+                  <span className="px-2 text-[10px] font-black text-neutral-600 uppercase tracking-[0.4em]">Character {slot} <span className="text-neutral-700">· {side}</span></span>
+                  <select
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="w-full bg-black/60 border border-white/10 focus:border-sky-500 rounded-2xl px-6 py-4 text-[12px] font-black text-neutral-300 uppercase tracking-widest outline-none cursor-pointer"
+                  >
+                    {projects.map(p => (
+                      <option key={p.id} value={p.id} className="bg-neutral-900" disabled={p.id === (slot === 'A' ? castB : castA)}>
+                        {p.name}{p.hasReference ? '' : ' (no references)'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <button
+                onClick={() => { setCastA(castB); setCastB(castA); }}
+                disabled={!castReady}
+                className="flex items-center gap-2 mx-auto text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-sky-400 transition-colors disabled:opacity-30"
+              >
+                <ArrowLeftRight className="w-3.5 h-3.5" /> Swap Sides
+              </button>
+              {[castA, castB].some(id => projectFor(id) && !projectFor(id)!.hasReference) && (
+                <p className="text-[10px] font-bold text-red-400 uppercase tracking-widest text-center">Both characters need reference images</p>
+              )}
+            </div>
+          )}
+
+          <label className="block space-y-2">
+            <span className="px-2 flex items-center gap-2 text-[10px] font-black text-neutral-600 uppercase tracking-[0.4em]"><MapPin className="w-3.5 h-3.5" /> Environment</span>
+            <select
+              value={environmentId}
+              onChange={(e) => setEnvironmentId(e.target.value)}
+              className="w-full bg-black/60 border border-white/10 focus:border-sky-500 rounded-2xl px-6 py-4 text-[12px] font-black text-neutral-300 uppercase tracking-widest outline-none cursor-pointer"
+            >
+              <option value="" className="bg-neutral-900">Studio Backdrop</option>
+              {usableEnvironments.map(env => <option key={env.id} value={env.id} className="bg-neutral-900">{env.name}</option>)}
+            </select>
+          </label>
+
+          <button
+            onClick={generate}
+            disabled={!canGenerate || isGenerating || !castReady || selectedPoses.length === 0}
+            className="w-full flex items-center justify-center gap-4 py-7 bg-sky-600 hover:bg-sky-500 text-white rounded-[2.5rem] text-[13px] font-black uppercase tracking-widest transition-all shadow-3xl disabled:opacity-30 disabled:hover:bg-sky-600"
+          >
+            <Zap className="w-5 h-5" /> Generate {selectedPoses.length || ''} Scene{selectedPoses.length === 1 ? '' : 's'}
+            {shotCost > 0 && selectedPoses.length > 0 && <span className="text-sky-200/80">≈ {Usage.formatCost(shotCost * selectedPoses.length)}</span>}
+          </button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 space-y-12">
+        <div className="space-y-6">
+          <div className="flex items-center justify-between px-2">
+            <h2 className="text-[12px] font-black text-neutral-600 uppercase tracking-[0.5em]">Scene Poses <span className="text-neutral-700">({selectedIds.size} / {poses.length})</span></h2>
+            <div className="flex items-center gap-4">
+              <button onClick={() => setSelectedIds(selectedIds.size === poses.length ? new Set() : new Set(poses.map(p => p.id)))} className="text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-300 transition-colors">
+                {selectedIds.size === poses.length ? 'Select None' : 'Select All'}
+              </button>
+              <button onClick={resetPoses} className="flex items-center gap-2 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-300 transition-colors">
+                <RotateCcw className="w-3.5 h-3.5" /> Built-ins
+              </button>
+              <button
+                onClick={() => { setDraft({ id: SceneLibrary.nextId(poses), label: '', description: '', framing: 'medium', aspectRatio: '4:3' }); setDraftError(null); }}
+                className="flex items-center gap-2 text-[10px] font-black text-sky-500 uppercase tracking-widest hover:text-sky-300 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" /> Custom Scene
+              </button>
+            </div>
+          </div>
+
+          {draft && (
+            <div className="p-6 bg-black/40 border border-sky-500/20 rounded-2xl space-y-4">
+              <input
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder="Scene name"
+                className="w-full bg-black/60 border border-white/5 rounded-xl px-4 py-3 text-[12px] font-black text-neutral-300 uppercase tracking-widest outline-none focus:border-white/20"
+              />
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Describe the interaction, naming CHARACTER A (left) and CHARACTER B (right)"
+                rows={3}
+                className="w-full bg-black/60 border border-white/5 rounded-xl px-4 py-3 text-[12px] text-neutral-300 outline-none focus:border-white/20 resize-none"
+              />
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                  {SCENE_FRAMINGS.map(f => (
+                    <button key={f.id} onClick={() => setDraft({ ...draft, framing: f.id as SceneFraming })} className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${draft.framing === f.id ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{f.label}</button>
+                  ))}
+                </div>
+                <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                  {ASPECT_RATIO_OPTIONS.map(ratio => (
+                    <button key={ratio} onClick={() => setDraft({ ...draft, aspectRatio: ratio as AspectRatio })} className={`px-3 py-2 rounded-full text-[10px] font-black transition-all ${draft.aspectRatio === ratio ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{ratio}</button>
+                  ))}
+                </div>
+                <div className="ml-auto flex items-center gap-3">
+                  <button onClick={() => { setDraft(null); setDraftError(null); }} className="px-5 py-2 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-300 transition-colors">Cancel</button>
+                  <button onClick={saveDraft} className="px-5 py-2 bg-sky-500/10 hover:bg-sky-500/20 text-sky-400 border border-sky-500/30 rounded-full text-[10px] font-black uppercase tracking-widest transition-all">Add Scene</button>
+                </div>
+              </div>
+              {draftError && <p className="text-[10px] font-bold text-red-400 uppercase tracking-widest">{draftError}</p>}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {poses.map(pose => {
+              const selected = selectedIds.has(pose.id);
+              return (
+                <div
+                  key={pose.id}
+                  onClick={() => togglePose(pose.id)}
+                  className={`group relative p-6 rounded-2xl border cursor-pointer transition-all ${selected ? 'bg-sky-500/10 border-sky-500/40' : 'bg-black/40 border-white/5 hover:border-white/10'}`}
+                >
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <p className={`text-[11px] font-black uppercase tracking-widest ${selected ? 'text-sky-300' : 'text-neutral-300'}`}>{pose.label}</p>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[9px] font-black text-neutral-600 uppercase tracking-widest">{SCENE_FRAMINGS.find(f => f.id === pose.framing)?.label} · {pose.aspectRatio}</span>
+                      {selected && <Check className="w-4 h-4 text-sky-400" />}
+                    </div>
+                  </div>
+                  <p className="text-[11px] text-neutral-500 leading-relaxed">{pose.description}</p>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); deletePose(pose.id); }}
+                    className="absolute bottom-3 right-3 p-1.5 text-neutral-700 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                    title="Remove scene pose"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <h2 className="px-2 text-[12px] font-black text-neutral-600 uppercase tracking-[0.5em]">Scene Shots <span className="text-neutral-700">({shots.length})</span></h2>
+          {shots.length === 0 ? (
+            <p className="p-12 text-center text-[11px] font-black text-neutral-700 uppercase tracking-widest border border-dashed border-white/5 rounded-[3rem]">No scenes rendered for this character yet</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+              {shots.map(shot => (
+                <div key={shot.id} className="group relative rounded-[2rem] overflow-hidden border border-white/5 bg-black/40">
+                  <img src={shot.url} alt={shot.sceneLabel} className="w-full aspect-square object-cover" />
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+                  <div className="absolute bottom-0 inset-x-0 p-5 space-y-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <p className="text-[11px] font-black text-white uppercase tracking-widest truncate">{shot.sceneLabel}</p>
+                    <p className="text-[9px] font-black text-sky-300 uppercase tracking-widest truncate">{shot.cast.map(c => c.name).join(' + ')}</p>
+                  </div>
+                  <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => downloadShot(shot)} className="p-2 bg-black/60 hover:bg-sky-600 text-white rounded-xl transition-all" title="Download"><Download className="w-4 h-4" /></button>
+                    <button onClick={() => onDeleteShot(shot.id)} className="p-2 bg-black/60 hover:bg-red-600 text-white rounded-xl transition-all" title="Delete"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneStudio;
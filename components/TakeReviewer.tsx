@@ -0,0 +1,87 @@
+import React from 'react';
+import { X, Check, Ban, ShieldCheck, Images } from 'lucide-react';
+import { ReviewStatus } from '../types';
+import { TakeGroup, TakeReview } from '../services/takeReview';
+import { Verification } from '../services/verification';
+
+interface TakeReviewerProps {
+  groups: TakeGroup[];
+  threshold: number;
+  onSetStatus: (id: string, status: ReviewStatus) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'border-white/10',
+  kept: 'border-emerald-500 shadow-[0_0_30px_rgba(16,185,129,0.25)]',
+  rejected: 'border-red-500/40 opacity-40 grayscale'
+};
+
+const TakeReviewer: React.FC<TakeReviewerProps> = ({ groups, threshold, onSetStatus, onClose }) => {
+  const pending = groups.reduce((sum, g) => sum + TakeReview.pendingCount(g.images), 0);
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-7xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><Images className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Take Review</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{groups.length} Shots · {pending} Takes Awaiting Review · Only kept takes are exported</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-10">
+          {groups.length === 0 && (
+            <p className="text-center text-[11px] font-black text-neutral-700 uppercase tracking-widest py-20">No multi-take shots in the bin</p>
+          )}
+          {groups.map(group => (
+            <div key={group.key} className="space-y-4">
+              <div className="flex items-center justify-between px-2">
+                <p className="text-[11px] font-black text-neutral-300 uppercase tracking-[0.3em]">{group.label}</p>
+                <p className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">
+                  {group.images.filter(img => TakeReview.status(img) === 'kept').length} Kept / {group.images.length} Takes
+                </p>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                {group.images.map(img => {
+                  const status = TakeReview.status(img);
+                  return (
+                    <div key={img.id} className={`relative rounded-[2rem] overflow-hidden border-2 transition-all ${STATUS_STYLES[status]}`}>
+                      <img src={img.url} alt={`Take ${img.meta.take}`} className="w-full aspect-square object-cover" />
+                      <div className="absolute top-4 left-4 px-3 py-1 bg-black/70 backdrop-blur-sm rounded-lg text-[10px] font-black text-neutral-300 uppercase tracking-widest">Take {img.meta.take}</div>
+                      {img.score && (
+                        <div className={`absolute top-4 right-4 flex items-center gap-1.5 px-3 py-1 rounded-lg backdrop-blur-sm text-[10px] font-black ${Verification.passes(img.score, threshold) ? 'bg-emerald-500/80 text-black' : 'bg-red-600/80 text-white'}`}>
+                          <ShieldCheck className="w-3 h-3" /> {img.score.overall}
+                        </div>
+                      )}
+                      <div className="absolute bottom-0 inset-x-0 p-4 flex gap-2 bg-gradient-to-t from-black/90 to-transparent">
+                        <button
+                          onClick={() => onSetStatus(img.id, status === 'kept' ? 'pending' : 'kept')}
+                          className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${status === 'kept' ? 'bg-emerald-500 text-black' : 'bg-white/10 text-neutral-300 hover:bg-emerald-500/30'}`}
+                        >
+                          <Check className="w-3.5 h-3.5" /> Keep
+                        </button>
+                        <button
+                          onClick={() => onSetStatus(img.id, status === 'rejected' ? 'pending' : 'rejected')}
+                          className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${status === 'rejected' ? 'bg-red-600 text-white' : 'bg-white/10 text-neutral-300 hover:bg-red-500/30'}`}
+                        >
+                          <Ban className="w-3.5 h-3.5" /> Reject
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TakeReviewer;
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { X, Receipt, ToggleLeft, ToggleRight, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { BudgetSettings, PriceEntry, Resolution, UsageEntry } from '../types';
+import { BUDGET_SCOPES } from '../constants';
+import { Usage, UsageSummary } from '../services/usage';
+
+interface UsagePanelProps {
+  entries: UsageEntry[];
+  projectId: string;
+  prices: PriceEntry[];
+  budget: BudgetSettings;
+  onPricesChange: (prices: PriceEntry[]) => void;
+  onResetPrices: () => void;
+  onBudgetChange: (budget: BudgetSettings) => void;
+  onClearLedger: () => void;
+  onClose: () => void;
+}
+
+type UsageView = 'batch' | 'day' | 'project';
+
+const VIEWS: { id: UsageView; label: string; column: string }[] = [
+  { id: 'batch', label: 'Batches', column: 'Batch' },
+  { id: 'day', label: 'Days', column: 'Day' },
+  { id: 'project', label: 'Projects', column: 'Project' }
+];
+
+const RESOLUTIONS: Resolution[] = ['1K', '2K', '4K'];
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ entries, projectId, prices, budget, onPricesChange, onResetPrices, onBudgetChange, onClearLedger, onClose }) => {
+  const [view, setView] = useState<UsageView>('batch');
+
+  const projectEntries = useMemo(() => entries.filter(e => e.projectId === projectId), [entries, projectId]);
+  const totals = useMemo(() => {
+    const today = Usage.dayKey(Date.now());
+    return [
+      Usage.summarize(projectEntries, 'project', 'This Project'),
+      Usage.summarize(entries.filter(e => Usage.dayKey(e.timestamp) === today), 'today', 'Today'),
+      Usage.summarize(entries, 'all', 'All Time')
+    ];
+  }, [entries, projectEntries]);
+
+  // Batches are listed for the open project only; days and projects span the whole ledger
+  const rows = useMemo(() => {
+    if (view === 'batch') return Usage.byBatch(projectEntries);
+    if (view === 'day') return Usage.byDay(entries);
+    return Usage.byProject(entries);
+  }, [view, entries, projectEntries]);
+
+  const spent = Usage.spent(entries, budget, projectId);
+  const updateBudget = (patch: Partial<BudgetSettings>) => onBudgetChange({ ...budget, ...patch });
+  const updatePrice = (index: number, patch: Partial<PriceEntry>) => {
+    onPricesChange(prices.map((p, i) => i === index ? { ...p, ...patch } : p));
+  };
+
+  const clearLedger = () => {
+    if (window.confirm("Clear the usage ledger for every project? Prices and the budget cap are kept.")) onClearLedger();
+  };
+
+  const resolutionMix = (summary: UsageSummary) =>
+    RESOLUTIONS.filter(r => summary.resolutions[r] > 0).map(r => `${summary.resolutions[r]}×${r}`).join(' · ') || '—';
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-5xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-amber-500/10 rounded-2xl border border-amber-500/20"><Receipt className="w-7 h-7 text-amber-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Usage & Spend</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">Estimated from the price table, per successful image</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-10 space-y-10">
+          <div className="grid grid-cols-3 gap-4">
+            {totals.map(summary => (
+              <div key={summary.key} className="p-6 bg-black/40 border border-white/5 rounded-2xl space-y-2">
+                <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">{summary.label}</p>
+                <p className="text-3xl font-black text-amber-400 tracking-tighter tabular-nums">{Usage.formatCost(summary.cost)}</p>
+                <p className="text-[10px] font-black text-neutral-500 uppercase tracking-widest">
+                  {summary.succeeded} ok · <span className={summary.failed > 0 ? 'text-red-400' : ''}>{summary.failed} failed</span> · {summary.tokens.toLocaleString()} tokens
+                </p>
+                <p className="text-[10px] font-mono text-neutral-600">{resolutionMix(summary)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-6 bg-black/40 border border-white/5 rounded-2xl space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-[11px] font-black text-neutral-300 uppercase tracking-widest">Budget Cap</p>
+                <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-widest">Stops the batch before a request would exceed the limit</p>
+              </div>
+              <button onClick={() => updateBudget({ enabled: !budget.enabled })} className={`transition-colors ${budget.enabled ? 'text-emerald-400' : 'text-neutral-600'}`}>
+                {budget.enabled ? <ToggleRight className="w-9 h-9" /> : <ToggleLeft className="w-9 h-9" />}
+              </button>
+            </div>
+            {budget.enabled && (
+              <div className="flex items-center gap-6">
+                <label className="flex items-center gap-3">
+                  <span className="text-[10px] font-black text-neutral-600 uppercase tracking-widest">Limit $</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={budget.limit}
+                    onChange={(e) => updateBudget({ limit: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-28 bg-black/60 border border-white/5 rounded-2xl px-4 py-2 text-sm font-black text-neutral-300 outline-none focus:border-white/20"
+                  />
+                </label>
+                <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                  {BUDGET_SCOPES.map(scope => (
+                    <button key={scope.id} onClick={() => updateBudget({ scope: scope.id })} className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${budget.scope === scope.id ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                      {scope.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="ml-auto text-[10px] font-black text-neutral-500 uppercase tracking-widest">
+                  {budget.scope === 'batch' ? 'Resets every batch' : `${Usage.formatCost(spent)} of ${Usage.formatCost(budget.limit)} used`}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                {VIEWS.map(v => (
+                  <button key={v.id} onClick={() => setView(v.id)} className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${view === v.id ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                    {v.label}
+                  </button>
+                ))}
+              </div>
+              <button onClick={clearLedger} disabled={entries.length === 0} className="flex items-center gap-2 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-red-400 transition-colors disabled:opacity-30">
+                <Trash2 className="w-3.5 h-3.5" /> Clear Ledger
+              </button>
+            </div>
+            {rows.length === 0 ? (
+              <p className="p-8 text-center text-[11px] font-black text-neutral-700 uppercase tracking-widest">No requests recorded yet</p>
+            ) : (
+              <div className="border border-white/5 rounded-2xl overflow-hidden">
+                <div className="grid grid-cols-[2fr_1fr_1fr_1.5fr_1fr_1fr] gap-4 px-5 py-3 bg-black/60 text-[10px] font-black text-neutral-600 uppercase tracking-widest">
+                  <span>{VIEWS.find(v => v.id === view)!.column}</span><span>Requests</span><span>Failed</span><span>Resolutions</span><span>Tokens</span><span className="text-right">Cost</span>
+                </div>
+                {rows.map(row => (
+                  <div key={row.key} className={`grid grid-cols-[2fr_1fr_1fr_1.5fr_1fr_1fr] gap-4 px-5 py-3 border-t border-white/5 text-[11px] font-bold ${view === 'project' && row.key === projectId ? 'text-emerald-300' : 'text-neutral-400'}`}>
+                    <span className="truncate" title={row.key}>{row.label}</span>
+                    <span className="tabular-nums">{row.requests}</span>
+                    <span className={`tabular-nums ${row.failed > 0 ? 'text-red-400' : ''}`}>{row.failed}</span>
+                    <span className="font-mono text-[10px] text-neutral-500">{resolutionMix(row)}</span>
+                    <span className="tabular-nums">{row.tokens.toLocaleString()}</span>
+                    <span className="text-right tabular-nums text-amber-400">{Usage.formatCost(row.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Price Table <span className="text-neutral-700">— USD per image; models without a row count as free</span></p>
+              <button onClick={onResetPrices} className="flex items-center gap-2 text-[10px] font-black text-neutral-600 uppercase tracking-widest hover:text-neutral-400 transition-colors">
+                <RotateCcw className="w-3.5 h-3.5" /> Defaults
+              </button>
+            </div>
+            <div className="space-y-2">
+              {prices.map((entry, index) => (
+                <div key={index} className="flex items-center gap-3 p-2 bg-black/60 border border-white/5 rounded-xl">
+                  <input
+                    value={entry.model}
+                    onChange={(e) => updatePrice(index, { model: e.target.value })}
+                    placeholder="model id"
+                    className="flex-1 bg-transparent px-3 text-[11px] font-mono text-neutral-300 outline-none"
+                  />
+                  <div className="flex bg-black/60 rounded-full p-1 border border-white/5">
+                    {RESOLUTIONS.map(res => (
+                      <button key={res} onClick={() => updatePrice(index, { resolution: res })} className={`px-3 py-1 rounded-full text-[10px] font-black transition-all ${entry.resolution === res ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>{res}</button>
+                    ))}
+                  </div>
+                  <span className="text-[10px] font-black text-neutral-700">$</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.001}
+                    value={entry.price}
+                    onChange={(e) => updatePrice(index, { price: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-24 bg-transparent text-[11px] font-black text-neutral-300 text-right outline-none"
+                  />
+                  <button onClick={() => onPricesChange(prices.filter((_, i) => i !== index))} className="p-1.5 text-neutral-600 hover:text-red-400 transition-all"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              ))}
+              <button onClick={() => onPricesChange([...prices, { model: '', resolution: '1K', price: 0 }])} className="flex items-center gap-2 px-4 py-2 border border-dashed border-white/10 hover:border-amber-500/40 rounded-xl text-[10px] font-black text-neutral-500 hover:text-amber-400 uppercase tracking-widest transition-all">
+                <Plus className="w-3.5 h-3.5" /> Price Row
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
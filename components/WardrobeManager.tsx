@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Shirt, RefreshCcw, Eye, EyeOff } from 'lucide-react';
+import { WardrobeCategory, WardrobeFilter, WardrobeItem } from '../types';
+import { WARDROBE_CATEGORIES, WARDROBE_TAG_SUGGESTIONS } from '../constants';
+import { Wardrobe } from '../services/wardrobe';
+
+interface WardrobeManagerProps {
+  items: WardrobeItem[];
+  filter: WardrobeFilter;
+  projectName: string;
+  onItemsChange: (items: WardrobeItem[]) => void;
+  onFilterChange: (filter: WardrobeFilter) => void;
+  onClose: () => void;
+}
+
+type TagRule = 'neutral' | 'allow' | 'deny';
+
+const WardrobeManager: React.FC<WardrobeManagerProps> = ({ items, filter, projectName, onItemsChange, onFilterChange, onClose }) => {
+  const [activeCategory, setActiveCategory] = useState<WardrobeCategory>('top');
+
+  const tags = [...new Set([...WARDROBE_TAG_SUGGESTIONS, ...Wardrobe.allTags(items)])];
+  const categoryItems = items.filter(i => i.category === activeCategory);
+
+  const tagRule = (tag: string): TagRule =>
+    filter.allowTags.includes(tag) ? 'allow' : filter.denyTags.includes(tag) ? 'deny' : 'neutral';
+
+  // Cycles neutral -> allow -> deny -> neutral
+  const cycleTag = (tag: string) => {
+    const rule = tagRule(tag);
+    const allowTags = filter.allowTags.filter(t => t !== tag);
+    const denyTags = filter.denyTags.filter(t => t !== tag);
+    if (rule === 'neutral') allowTags.push(tag);
+    if (rule === 'allow') denyTags.push(tag);
+    onFilterChange({ ...filter, allowTags, denyTags });
+  };
+
+  const toggleExcluded = (id: string) => {
+    const excludedItemIds = filter.excludedItemIds.includes(id)
+      ? filter.excludedItemIds.filter(x => x !== id)
+      : [...filter.excludedItemIds, id];
+    onFilterChange({ ...filter, excludedItemIds });
+  };
+
+  const updateItem = (id: string, patch: Partial<WardrobeItem>) => {
+    onItemsChange(items.map(i => i.id === id ? { ...i, ...patch } : i));
+  };
+
+  const addItem = () => {
+    onItemsChange([...items, { id: Wardrobe.nextId(items, activeCategory), name: '', category: activeCategory, weight: 1, tags: ['casual'] }]);
+  };
+
+  const removeItem = (id: string) => {
+    onItemsChange(items.filter(i => i.id !== id));
+  };
+
+  const resetWardrobe = () => {
+    if (!window.confirm("Restore the default wardrobe? Custom items and weights will be lost.")) return;
+    onItemsChange(Wardrobe.reset());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/90 flex items-center justify-center p-6 backdrop-blur-2xl" onClick={onClose}>
+      <div className="relative max-w-6xl w-full max-h-[90vh] flex flex-col bg-[#111]/95 border border-white/5 rounded-[3rem] shadow-6xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-10 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-5">
+            <div className="p-4 bg-emerald-500/10 rounded-2xl border border-emerald-500/20"><Shirt className="w-7 h-7 text-emerald-400" /></div>
+            <div>
+              <h2 className="text-2xl font-black tracking-tighter uppercase text-neutral-200">Wardrobe</h2>
+              <p className="text-[10px] text-neutral-600 font-bold uppercase tracking-[0.4em]">{Wardrobe.eligible(items, filter).length} / {items.length} Items eligible for {projectName}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={resetWardrobe} className="p-3 bg-white/5 hover:bg-red-500/10 text-neutral-500 hover:text-red-400 rounded-full transition-all" title="Restore defaults"><RefreshCcw className="w-4 h-4" /></button>
+            <button onClick={onClose} className="p-3 text-white/20 hover:text-white transition-all"><X className="w-8 h-8" /></button>
+          </div>
+        </div>
+
+        <div className="px-10 py-6 border-b border-white/5 space-y-3">
+          <p className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.3em]">Project Tag Rules <span className="text-neutral-700">— click to cycle allow / deny</span></p>
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => {
+              const rule = tagRule(tag);
+              return (
+                <button key={tag} onClick={() => cycleTag(tag)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${rule === 'allow' ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : rule === 'deny' ? 'bg-red-500/10 border-red-500/40 text-red-400 line-through' : 'bg-black/40 border-white/5 text-neutral-500'}`}>
+                  {rule === 'allow' ? '+ ' : rule === 'deny' ? '− ' : ''}{tag}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-6 grid grid-cols-3 gap-3 border-b border-white/5">
+          {WARDROBE_CATEGORIES.map(cat => (
+            <button key={cat.id} onClick={() => setActiveCategory(cat.id)} className={`py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.3em] border transition-all ${activeCategory === cat.id ? 'bg-neutral-800 border-white/10 text-white' : 'border-white/5 text-neutral-600 hover:text-neutral-400'}`}>
+              {cat.label} ({items.filter(i => i.category === cat.id).length})
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto custom-scrollbar">
+          {categoryItems.map(item => {
+            const allowed = Wardrobe.isAllowed(item, filter);
+            const excluded = filter.excludedItemIds.includes(item.id);
+            return (
+              <div key={item.id} className={`flex items-center gap-4 p-4 rounded-2xl border transition-all ${allowed ? 'bg-black/40 border-white/5' : 'bg-black/20 border-white/5 opacity-50'}`}>
+                <span className="text-[10px] font-black text-neutral-700 w-10">{item.id.toUpperCase()}</span>
+                <input
+                  value={item.name}
+                  onChange={(e) => updateItem(item.id, { name: e.target.value })}
+                  placeholder="Describe the garment..."
+                  className="flex-1 min-w-0 bg-black/60 border border-white/5 focus:border-emerald-500/40 rounded-xl px-4 py-2.5 text-[12px] text-neutral-300 outline-none"
+                />
+                <input
+                  value={item.tags.join(', ')}
+                  onChange={(e) => updateItem(item.id, { tags: e.target.value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean) })}
+                  placeholder="tags"
+                  className="w-48 bg-black/60 border border-white/5 focus:border-emerald-500/40 rounded-xl px-4 py-2.5 text-[11px] text-neutral-400 font-mono outline-none"
+                />
+                <label className="flex items-center gap-2" title="Relative pick weight (0 disables)">
+                  <span className="text-[9px] font-black text-neutral-600 uppercase tracking-widest">W</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={item.weight}
+                    onChange={(e) => updateItem(item.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-16 bg-black/60 border border-white/5 rounded-xl px-2 py-2.5 text-[11px] font-black text-neutral-300 text-center outline-none"
+                  />
+                </label>
+                <button onClick={() => toggleExcluded(item.id)} className={`p-2.5 rounded-xl transition-all ${excluded ? 'bg-red-500/10 text-red-400' : 'bg-white/5 hover:bg-white/10 text-neutral-400'}`} title={excluded ? 'Excluded for this project' : 'Exclude for this project'}>
+                  {excluded ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+                <button onClick={() => removeItem(item.id)} className="p-2.5 bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-xl transition-all"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            );
+          })}
+          <button onClick={addItem} className="w-full flex items-center justify-center gap-3 py-5 border-2 border-dashed border-white/5 hover:border-emerald-500/30 rounded-2xl text-neutral-600 hover:text-emerald-400 text-[11px] font-black uppercase tracking-widest transition-all">
+            <Plus className="w-4 h-4" /> Add {WARDROBE_CATEGORIES.find(c => c.id === activeCategory)?.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WardrobeManager;
@@ -1,112 +1,159 @@
 
-import { DatasetPose } from "./types";
-
-export const CLOTHING_LIST = [
-  "burgundy ribbed slim-fit deep V long-sleeve tee",
-  "heather grey basic cotton blend deep V long-sleeve",
-  "emerald green off the shoulder deep v long sleeve",
-  "white seamless cotton spaghetti strap camisole tank",
-  "sand colored long basic spaghetti strap cami",
-  "mocha brown fitted bodysuit with deep V neck",
-  "crimson lace corset-style crop top",
-  "lavender spaghetti strap crop top",
-  "hot pink strapless bandeau top",
-  "translucent black overlay long-sleeve blouse",
-  "turquoise halter neck crop top",
-  "coral cut-out shoulder long-sleeve top",
-  "white lace-up corset top",
-  "neon orange criss-cross halter neck top",
-  "pink mesh long-sleeve crop top over lining",
-  "scarlet red glossy vinyl bodysuit with high neck",
-  "white tank crop top",
-  "white lace corseted bodice top",
-  "canary yellow ribbed crop tank",
-  "tan mesh bodysuit with opaque flocked patterns",
-  "black open-weave long sleeve top over crop top",
-  "denim corset-style crop top",
-  "mint green ruched front bandeau top",
-  "violet chiffon blouse with deep V",
-  "lime green keyhole front crop top",
-  "cherry red wrap-around crop top",
-  "navy blue racerback cropped tank",
-  "neon yellow strappy open-back top",
-  "pastel blue sweetheart neckline corset top",
-  "orange smooth nylon bodysuit",
-  "polka dot tulle overlay top",
-  "gold metal-mesh halter top",
-  "lavender silk camisole with lace edges",
-  "baby pink fine-knit cropped tee",
-  "fuchsia racerback bodysuit",
-  "cyan blue racer front crop top",
-  "red gingham tie-front crop top",
-  "black lace long sleeve bodysuit",
-  "white eyelet lace corset top",
-  "copper metallic fitted camisole",
-  "royal blue satin wrap blouse",
-  "tangerine orange halter neck bodysuit",
-  "white ribbed sleeveless turtleneck crop",
-  "crimson red crop top",
-  "deep blue silk slip top",
-  "beige glitter mesh bodysuit",
-  "matte black smooth leather corset top",
+import { BalancePlan, CaptionField, CaptionSettings, ExportImageFormat, ExportProfileId, ExportSettings, CropMode, PostProcessSettings, BudgetScope, BudgetSettings, PriceEntry, CharacterAdjustments, DatasetGroup, DatasetPose, EnvironmentCategory, EnvironmentPreset, EnvironmentSettings, PoseFacing, AspectRatio, ProviderId, SceneFraming, ScenePose, ReferenceAngle, ShotAngle, ProfileField, ProfileSection, IdentityAttribute, LockMode, ProviderSettings, QueueSettings, Resolution, VerificationSettings, WardrobeCategory, WardrobeFilter, WardrobeItem } from "./types";
+
+export const WARDROBE_CATEGORIES: { id: WardrobeCategory; label: string }[] = [
+  { id: 'top', label: 'Tops' },
+  { id: 'bottom', label: 'Bottoms' },
+  { id: 'one-piece', label: 'Dresses & Sets' }
+];
+
+export const WARDROBE_TAG_SUGGESTIONS = ['casual', 'athletic', 'formal', 'evening', 'statement'];
+
+export const DEFAULT_WARDROBE_FILTER: WardrobeFilter = {
+  allowTags: [],
+  denyTags: [],
+  excludedItemIds: []
+};
+
+export const ENVIRONMENT_CATEGORIES: { id: EnvironmentCategory; label: string }[] = [
+  { id: 'studio', label: 'Studio' },
+  { id: 'outdoor', label: 'Outdoor' },
+  { id: 'interior', label: 'Interior' },
+  { id: 'golden-hour', label: 'Golden Hour' },
+  { id: 'night', label: 'Night Neon' }
+];
+
+// The gray studio matches the backdrop every prompt used before presets existed, so it stays the default.
+export const DEFAULT_ENVIRONMENT_ID = 'studio-gray';
+
+export const DEFAULT_ENVIRONMENTS: EnvironmentPreset[] = [
+  { id: 'studio-gray', name: 'Gray Seamless', category: 'studio', setting: 'Professional neutral high-key studio, seamless gray backdrop', lighting: '', caption: 'in a studio with a gray backdrop', weight: 3 },
+  { id: 'studio-white', name: 'White Cyclorama', category: 'studio', setting: 'Clean white cyclorama studio', lighting: 'bright high-key softbox lighting', caption: 'in a white studio', weight: 1 },
+  { id: 'studio-teal', name: 'Teal Paper', category: 'studio', setting: 'Studio with a saturated teal paper backdrop', lighting: 'crisp beauty-dish key light with soft fill', caption: 'against a teal backdrop', weight: 1 },
+  { id: 'studio-terracotta', name: 'Terracotta Paper', category: 'studio', setting: 'Studio with a warm terracotta paper backdrop', lighting: 'soft large octabox key light', caption: 'against a terracotta backdrop', weight: 1 },
+  { id: 'outdoor-park', name: 'City Park', category: 'outdoor', setting: 'Leafy city park with a softly blurred path and trees', lighting: 'bright overcast daylight', caption: 'outdoors in a park', weight: 1 },
+  { id: 'outdoor-beach', name: 'Beach', category: 'outdoor', setting: 'Sandy beach with a calm sea on the horizon', lighting: 'clear midday sun with soft bounce fill', caption: 'on a beach', weight: 1 },
+  { id: 'interior-loft', name: 'Loft Apartment', category: 'interior', setting: 'Sunlit loft apartment with a brick wall and plants', lighting: 'soft window light from the side', caption: 'in a loft apartment', weight: 1 },
+  { id: 'interior-cafe', name: 'Cafe', category: 'interior', setting: 'Cozy cafe interior with warm wood tones', lighting: 'warm ambient tungsten light', caption: 'in a cafe', weight: 1 },
+  { id: 'golden-meadow', name: 'Golden Meadow', category: 'golden-hour', setting: 'Open meadow with tall grass', lighting: 'low warm golden hour backlight with gentle lens flare', caption: 'in a meadow at golden hour', weight: 1 },
+  { id: 'golden-rooftop', name: 'Sunset Rooftop', category: 'golden-hour', setting: 'City rooftop terrace overlooking the skyline', lighting: 'warm setting sun rim light', caption: 'on a rooftop at sunset', weight: 1 },
+  { id: 'night-neon', name: 'Neon Street', category: 'night', setting: 'Rain-slick city street lined with neon signs', lighting: 'mixed magenta and cyan neon light, deep shadows', caption: 'on a neon-lit street at night', weight: 1 },
+  { id: 'night-bokeh', name: 'City Lights', category: 'night', setting: 'City sidewalk at night with bokeh street lights', lighting: 'warm street lamp key light', caption: 'on a city street at night', weight: 1 }
+];
+
+export const DEFAULT_ENVIRONMENT_SETTINGS: EnvironmentSettings = {
+  mode: 'fixed',
+  presetId: DEFAULT_ENVIRONMENT_ID,
+  poseAssignments: {}
+};
+
+export const DEFAULT_WARDROBE: WardrobeItem[] = [
+  // --- Tops ---
+  { id: 't1', name: "burgundy ribbed slim-fit deep V long-sleeve tee", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't2', name: "heather grey basic cotton blend deep V long-sleeve", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't3', name: "emerald green off the shoulder deep v long sleeve", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't4', name: "white seamless cotton spaghetti strap camisole tank", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't5', name: "sand colored long basic spaghetti strap cami", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't6', name: "mocha brown fitted bodysuit with deep V neck", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't7', name: "crimson lace corset-style crop top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't8', name: "lavender spaghetti strap crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't9', name: "hot pink strapless bandeau top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't10', name: "translucent black overlay long-sleeve blouse", category: 'top', weight: 1, tags: ['formal', 'statement'] },
+  { id: 't11', name: "turquoise halter neck crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't12', name: "coral cut-out shoulder long-sleeve top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't13', name: "white lace-up corset top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't14', name: "neon orange criss-cross halter neck top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't15', name: "pink mesh long-sleeve crop top over lining", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't16', name: "scarlet red glossy vinyl bodysuit with high neck", category: 'top', weight: 1, tags: ['evening'] },
+  { id: 't17', name: "white tank crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't18', name: "white lace corseted bodice top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't19', name: "canary yellow ribbed crop tank", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't20', name: "tan mesh bodysuit with opaque flocked patterns", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't21', name: "black open-weave long sleeve top over crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't22', name: "denim corset-style crop top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't23', name: "mint green ruched front bandeau top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't24', name: "violet chiffon blouse with deep V", category: 'top', weight: 1, tags: ['formal'] },
+  { id: 't25', name: "lime green keyhole front crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't26', name: "cherry red wrap-around crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't27', name: "navy blue racerback cropped tank", category: 'top', weight: 1, tags: ['athletic'] },
+  { id: 't28', name: "neon yellow strappy open-back top", category: 'top', weight: 1, tags: ['evening', 'statement'] },
+  { id: 't29', name: "pastel blue sweetheart neckline corset top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't30', name: "orange smooth nylon bodysuit", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't31', name: "polka dot tulle overlay top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't32', name: "gold metal-mesh halter top", category: 'top', weight: 1, tags: ['evening', 'statement'] },
+  { id: 't33', name: "lavender silk camisole with lace edges", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't34', name: "baby pink fine-knit cropped tee", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't35', name: "fuchsia racerback bodysuit", category: 'top', weight: 1, tags: ['athletic'] },
+  { id: 't36', name: "cyan blue racer front crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't37', name: "red gingham tie-front crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't38', name: "black lace long sleeve bodysuit", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't39', name: "white eyelet lace corset top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
+  { id: 't40', name: "copper metallic fitted camisole", category: 'top', weight: 1, tags: ['evening'] },
+  { id: 't41', name: "royal blue satin wrap blouse", category: 'top', weight: 1, tags: ['evening', 'formal'] },
+  { id: 't42', name: "tangerine orange halter neck bodysuit", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't43', name: "white ribbed sleeveless turtleneck crop", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't44', name: "crimson red crop top", category: 'top', weight: 1, tags: ['casual'] },
+  { id: 't45', name: "deep blue silk slip top", category: 'top', weight: 1, tags: ['evening'] },
+  { id: 't46', name: "beige glitter mesh bodysuit", category: 'top', weight: 1, tags: ['evening', 'statement'] },
+  { id: 't47', name: "matte black smooth leather corset top", category: 'top', weight: 1, tags: ['casual', 'statement'] },
 
   // --- Bottoms ---
-  "indigo wash mid-rise skinny form-fitted jeans",
-  "navy blue volleyball-style spandex shorts",
-  "neon pink spandex shorts with short inseam",
-  "matte black high-waisted spandex leggings",
-  "charcoal grey form-fitted pencil skirt",
-  "gray tube top form-fitted mini skirt",
-  "black bandeau top and neon green mesh insert leggings",
-  "slate gray compression fit yoga set",
-  "electric blue high-hem mini skirt with side slit",
-  "black smooth leather biker shorts with zippers",
-  "purple metallic fitted leggings",
-  "pink geometric print leggings",
-  "black glossy vinyl form-fitted trousers", 
-  "silver holographic spandex shorts",
-  "black leggings with mesh side cutouts",
-  "maroon smooth leather pencil skirt", 
-  "rust colored ribbed knit bike shorts",
-  "deep purple compression leggings",
-  "black leggings with translucent panels",
-  "tan smooth leather form-fitted mini skirt", 
-  "olive green heavy cotton mini skirt",
-  "leopard print spandex bike shorts",
-  "blush pink pleated tennis skirt",
-  "silver metallic leggings",
-  "mustard yellow smooth leather fringe mini skirt", 
-
-  // --- Dresses & Rompers ---
-  "ruby red bodycon mini dress with plunging neckline",
-  "burnt orange halter neck cut-out midi dress",
-  "midnight black semi-sheer panel bodycon dress",
-  "champagne gold open-back slip maxi dress",
-  "royal blue asymmetrical slit form-fitted dress",
-  "olive green lace-up front mini dress",
-  "dusty rose off-shoulder ruched bodycon dress",
-  "dark gray strapless wrap dress",
-  "gray purple ruched side bodycon dress",
-  "metallic silver open-back halter mini dress",
-  "sapphire blue plunging neckline jumpsuit",
-  "magenta asymmetric hem bodycon dress",
-  "beige panel high-neck dress",
-  "mustard yellow form-fitted romper with shorts",
-  "glossy black vinyl strapless mini dress", 
-  "deep black bodysuit with high hips",
-  "ice blue ribbed knit tank dress with side cut-outs",
-  "pearl white satin slip dress with cowl neck",
-  "forest green strapless mini dress",
-  "rose gold sequin plunge neck mini dress",
-  "cobalt blue one-shoulder bodycon dress",
-  "white ribbed knit bodycon midi dress",
-  "beige fine-knit form-fitted sweater dress",
-  "black satin corset dress with lace trim",
-  "white off-shoulder bandage dress",
-  "charcoal grey ribbed maxi dress with side slit",
-  "neon green mesh overlay t-shirt dress",
-  "black strappy cutout mini dress",
-  "black mesh panel maxi dress with bodysuit underlay"
+  { id: 'b1', name: "indigo wash mid-rise skinny form-fitted jeans", category: 'bottom', weight: 1, tags: ['casual'] },
+  { id: 'b2', name: "navy blue volleyball-style spandex shorts", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b3', name: "neon pink spandex shorts with short inseam", category: 'bottom', weight: 1, tags: ['athletic', 'statement'] },
+  { id: 'b4', name: "matte black high-waisted spandex leggings", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b5', name: "charcoal grey form-fitted pencil skirt", category: 'bottom', weight: 1, tags: ['formal'] },
+  { id: 'b6', name: "gray tube top form-fitted mini skirt", category: 'bottom', weight: 1, tags: ['casual'] },
+  { id: 'b7', name: "electric blue high-hem mini skirt with side slit", category: 'bottom', weight: 1, tags: ['casual'] },
+  { id: 'b8', name: "black smooth leather biker shorts with zippers", category: 'bottom', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'b9', name: "purple metallic fitted leggings", category: 'bottom', weight: 1, tags: ['athletic', 'evening'] },
+  { id: 'b10', name: "pink geometric print leggings", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b11', name: "black glossy vinyl form-fitted trousers", category: 'bottom', weight: 1, tags: ['evening'] },
+  { id: 'b12', name: "silver holographic spandex shorts", category: 'bottom', weight: 1, tags: ['athletic', 'evening'] },
+  { id: 'b13', name: "black leggings with mesh side cutouts", category: 'bottom', weight: 1, tags: ['athletic', 'statement'] },
+  { id: 'b14', name: "maroon smooth leather pencil skirt", category: 'bottom', weight: 1, tags: ['formal', 'statement'] },
+  { id: 'b15', name: "rust colored ribbed knit bike shorts", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b16', name: "deep purple compression leggings", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b17', name: "black leggings with translucent panels", category: 'bottom', weight: 1, tags: ['athletic', 'statement'] },
+  { id: 'b18', name: "tan smooth leather form-fitted mini skirt", category: 'bottom', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'b19', name: "olive green heavy cotton mini skirt", category: 'bottom', weight: 1, tags: ['casual'] },
+  { id: 'b20', name: "leopard print spandex bike shorts", category: 'bottom', weight: 1, tags: ['athletic', 'statement'] },
+  { id: 'b21', name: "blush pink pleated tennis skirt", category: 'bottom', weight: 1, tags: ['athletic'] },
+  { id: 'b22', name: "silver metallic leggings", category: 'bottom', weight: 1, tags: ['athletic', 'evening'] },
+  { id: 'b23', name: "mustard yellow smooth leather fringe mini skirt", category: 'bottom', weight: 1, tags: ['casual', 'statement'] },
+
+  // --- Dresses, Rompers & Sets ---
+  { id: 'd1', name: "black bandeau top and neon green mesh insert leggings", category: 'one-piece', weight: 1, tags: ['athletic', 'statement'] },
+  { id: 'd2', name: "slate gray compression fit yoga set", category: 'one-piece', weight: 1, tags: ['athletic'] },
+  { id: 'd3', name: "ruby red bodycon mini dress with plunging neckline", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd4', name: "burnt orange halter neck cut-out midi dress", category: 'one-piece', weight: 1, tags: ['formal', 'statement'] },
+  { id: 'd5', name: "midnight black semi-sheer panel bodycon dress", category: 'one-piece', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'd6', name: "champagne gold open-back slip maxi dress", category: 'one-piece', weight: 1, tags: ['evening', 'formal'] },
+  { id: 'd7', name: "royal blue asymmetrical slit form-fitted dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd8', name: "olive green lace-up front mini dress", category: 'one-piece', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'd9', name: "dusty rose off-shoulder ruched bodycon dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd10', name: "dark gray strapless wrap dress", category: 'one-piece', weight: 1, tags: ['formal'] },
+  { id: 'd11', name: "gray purple ruched side bodycon dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd12', name: "metallic silver open-back halter mini dress", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd13', name: "sapphire blue plunging neckline jumpsuit", category: 'one-piece', weight: 1, tags: ['evening', 'formal'] },
+  { id: 'd14', name: "magenta asymmetric hem bodycon dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd15', name: "beige panel high-neck dress", category: 'one-piece', weight: 1, tags: ['formal'] },
+  { id: 'd16', name: "mustard yellow form-fitted romper with shorts", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd17', name: "glossy black vinyl strapless mini dress", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd18', name: "deep black bodysuit with high hips", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd19', name: "ice blue ribbed knit tank dress with side cut-outs", category: 'one-piece', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'd20', name: "pearl white satin slip dress with cowl neck", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd21', name: "forest green strapless mini dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd22', name: "rose gold sequin plunge neck mini dress", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd23', name: "cobalt blue one-shoulder bodycon dress", category: 'one-piece', weight: 1, tags: ['casual'] },
+  { id: 'd24', name: "white ribbed knit bodycon midi dress", category: 'one-piece', weight: 1, tags: ['formal'] },
+  { id: 'd25', name: "beige fine-knit form-fitted sweater dress", category: 'one-piece', weight: 1, tags: ['formal'] },
+  { id: 'd26', name: "black satin corset dress with lace trim", category: 'one-piece', weight: 1, tags: ['evening', 'statement'] },
+  { id: 'd27', name: "white off-shoulder bandage dress", category: 'one-piece', weight: 1, tags: ['evening'] },
+  { id: 'd28', name: "charcoal grey ribbed maxi dress with side slit", category: 'one-piece', weight: 1, tags: ['formal'] },
+  { id: 'd29', name: "neon green mesh overlay t-shirt dress", category: 'one-piece', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'd30', name: "black strappy cutout mini dress", category: 'one-piece', weight: 1, tags: ['casual', 'statement'] },
+  { id: 'd31', name: "black mesh panel maxi dress with bodysuit underlay", category: 'one-piece', weight: 1, tags: ['formal', 'statement'] }
 ];
 
 export const POSE_DEFINITIONS: DatasetPose[] = [
@@ -174,12 +221,257 @@ export const FACIAL_EXPRESSIONS = [
   "calm neutral gaze"
 ];
 
+export const DATASET_GROUPS: DatasetGroup[] = ['portrait', 'upper', 'full'];
+
+export const POSE_FACING_OPTIONS: { id: PoseFacing; label: string }[] = [
+  { id: 'frontal', label: 'Frontal' },
+  { id: 'angled-left', label: '45° Left' },
+  { id: 'angled-right', label: '45° Right' },
+  { id: 'profile-left', label: '90° Profile Left' },
+  { id: 'profile-right', label: '90° Profile Right' },
+  { id: 'rear', label: 'Rear' },
+  { id: 'rear-left', label: 'Rear 3/4 Left' },
+  { id: 'rear-right', label: 'Rear 3/4 Right' },
+  { id: 'unspecified', label: 'No Direction' }
+];
+
+export const ASPECT_RATIO_OPTIONS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const SCENE_FRAMINGS: { id: SceneFraming; label: string; prompt: string }[] = [
+  { id: 'medium', label: 'Medium', prompt: "Medium two-shot from the waist up, both faces clearly visible and equally sharp, 50mm lens" },
+  { id: 'full', label: 'Full Body', prompt: "Full-body two-shot, both characters head to toe inside the frame, 35mm lens" },
+  { id: 'wide', label: 'Wide', prompt: "Wide establishing shot, both characters full body with the environment around them, 24mm lens" }
+];
+
+// Built-in interaction shots. CHARACTER A always stands on the left of frame and CHARACTER B on the right.
+export const SCENE_POSES: ScenePose[] = [
+  { id: 's1', label: 'Standing Together', framing: 'full', aspectRatio: '3:4', description: 'CHARACTER A and CHARACTER B stand side by side facing the camera, shoulders almost touching, relaxed friendly posture' },
+  { id: 's2', label: 'Conversation', framing: 'medium', aspectRatio: '4:3', description: 'CHARACTER A and CHARACTER B face each other in a three-quarter turn toward camera, mid-conversation, CHARACTER A gesturing with one hand while CHARACTER B listens' },
+  { id: 's3', label: 'Walking Side by Side', framing: 'full', aspectRatio: '3:4', description: 'CHARACTER A and CHARACTER B walk toward the camera side by side in step, natural stride, glancing at each other' },
+  { id: 's4', label: 'Shared Laugh', framing: 'medium', aspectRatio: '4:3', description: 'CHARACTER A and CHARACTER B laugh together at something off-camera, heads slightly tilted toward each other' },
+  { id: 's5', label: 'Selfie Together', framing: 'medium', aspectRatio: '9:16', description: 'CHARACTER A holds a phone at arm\'s length for a selfie with CHARACTER B leaning in beside them, both smiling at the phone' },
+  { id: 's6', label: 'Seated Chat', framing: 'full', aspectRatio: '4:3', description: 'CHARACTER A and CHARACTER B sit next to each other on a bench turned slightly inward, chatting casually' },
+  { id: 's7', label: 'Back to Back', framing: 'full', aspectRatio: '3:4', description: 'CHARACTER A and CHARACTER B stand back to back with arms crossed, both looking toward the camera over their outer shoulder' },
+  { id: 's8', label: 'Toast', framing: 'medium', aspectRatio: '4:3', description: 'CHARACTER A and CHARACTER B raise their glasses toward each other in a toast, both smiling' },
+  { id: 's9', label: 'Looking at Phone', framing: 'medium', aspectRatio: '4:3', description: 'CHARACTER B holds a phone between them while CHARACTER A leans over to look at the screen, both focused on it' },
+  { id: 's10', label: 'High Five', framing: 'full', aspectRatio: '4:3', description: 'CHARACTER A and CHARACTER B meet in a high five at shoulder height, mid-motion, energetic expressions' }
+];
+
+export const REFERENCE_ANGLE_OPTIONS: { id: ReferenceAngle; label: string }[] = [
+  { id: 'front', label: 'Front' },
+  { id: 'angled', label: '3/4 Angle' },
+  { id: 'profile', label: 'Side Profile' },
+  { id: 'rear', label: 'Rear' },
+  { id: 'full-body', label: 'Full Body' }
+];
+
+export const SHOT_ANGLES: { id: ShotAngle; label: string }[] = [
+  { id: 'front', label: 'Front' },
+  { id: 'angled', label: '45°' },
+  { id: 'profile', label: 'Profile' },
+  { id: 'rear', label: 'Rear' }
+];
+
+export const DEFAULT_BALANCE_PLAN: BalancePlan = {
+  total: 40,
+  groups: { portrait: 70, upper: 20, full: 10 },
+  angles: { front: 40, angled: 30, profile: 20, rear: 10 }
+};
+
+// Upper bound on reference images attached to a single generation request.
+export const MAX_REFERENCES_PER_REQUEST = 3;
+// Scene shots carry references for two characters, so each gets a smaller share.
+export const SCENE_REFERENCES_PER_CHARACTER = 2;
+
 export const EYE_COLOR_OPTIONS = ["Blue", "Green", "Brown", "Hazel", "Grey", "Amber"];
 export const BODY_BUILD_OPTIONS = ["Slim", "Athletic", "Curvy", "Muscular", "Average"];
 export const CHEST_SIZE_OPTIONS = ["Small", "Average", "Full", "Voluptuous"];
 export const HIP_SIZE_OPTIONS = ["Slim", "Average", "Wide", "Curvy"];
 
+export const PROFILE_FIELDS: { id: ProfileField; section: ProfileSection; label: string; placeholder: string }[] = [
+  { id: 'hairLength', section: 'hair', label: 'Length', placeholder: 'touching shoulders' },
+  { id: 'hairTexture', section: 'hair', label: 'Texture', placeholder: 'straight, fine' },
+  { id: 'hairColor', section: 'hair', label: 'Color', placeholder: 'dark brown with caramel highlights' },
+  { id: 'faceShape', section: 'face', label: 'Face Shape', placeholder: 'oval, high cheekbones' },
+  { id: 'eyes', section: 'face', label: 'Eyes', placeholder: 'almond-shaped, hooded lids' },
+  { id: 'skin', section: 'face', label: 'Skin', placeholder: 'light olive' },
+  { id: 'build', section: 'body', label: 'Build', placeholder: 'medium shoulders, defined waist, toned limbs' },
+  { id: 'distinguishingMarks', section: 'other', label: 'Marks', placeholder: 'small scar above left eyebrow' },
+  { id: 'notes', section: 'other', label: 'Notes', placeholder: 'age, overall aesthetic' }
+];
+
+export const PROFILE_SECTIONS: { id: ProfileSection; label: string }[] = [
+  { id: 'hair', label: 'Hair' },
+  { id: 'face', label: 'Face' },
+  { id: 'body', label: 'Body' },
+  { id: 'other', label: 'Other' }
+];
+
+export const IDENTITY_ATTRIBUTES: {
+  id: IdentityAttribute;
+  label: string;
+  section: ProfileSection;
+  // Profile field the attribute replaces when overridden or varied
+  profileField?: ProfileField;
+  // Appended to a bare value in captions and prompts, e.g. "green" -> "green eyes"
+  noun?: string;
+  options: string[];
+}[] = [
+  { id: 'hairColor', label: 'Hair Color', section: 'hair', profileField: 'hairColor', noun: 'hair', options: ["black", "dark brown", "chestnut", "auburn", "copper red", "honey blonde", "platinum blonde", "silver grey"] },
+  { id: 'hairLength', label: 'Hair Length', section: 'hair', profileField: 'hairLength', noun: 'hair', options: ["pixie-length", "chin-length", "shoulder-length", "collarbone-length", "mid-back length", "waist-length"] },
+  { id: 'hairstyle', label: 'Hairstyle', section: 'hair', options: ["worn loose", "high ponytail", "low bun", "messy top knot", "side braid", "half-up half-down", "slicked back", "tucked behind ears"] },
+  { id: 'skinTone', label: 'Skin Tone', section: 'face', profileField: 'skin', noun: 'skin', options: ["fair", "light", "light olive", "medium tan", "olive", "deep brown"] },
+  { id: 'age', label: 'Age', section: 'other', options: ["early twenties", "late twenties", "early thirties", "late thirties", "forties"] },
+  { id: 'makeup', label: 'Makeup', section: 'face', options: ["no makeup", "natural minimal makeup", "soft glam makeup", "bold red lip", "smoky eye makeup"] },
+  { id: 'marks', label: 'Tattoos / Marks', section: 'other', profileField: 'distinguishingMarks', options: ["no visible tattoos", "small fine-line wrist tattoo", "forearm tattoo sleeve", "freckles across the nose"] },
+  { id: 'eyeColor', label: 'Eye Color', section: 'face', noun: 'eyes', options: EYE_COLOR_OPTIONS.map(c => c.toLowerCase()) },
+  { id: 'build', label: 'Build', section: 'body', profileField: 'build', noun: 'build', options: BODY_BUILD_OPTIONS.map(b => b.toLowerCase()) }
+];
+
+export const LOCK_MODES: { id: LockMode; label: string }[] = [
+  { id: 'keep', label: 'Keep' },
+  { id: 'override', label: 'Override' },
+  { id: 'vary', label: 'Vary' }
+];
+
+export const DEFAULT_ADJUSTMENTS: CharacterAdjustments = {
+  chestSize: 'Average',
+  hipSize: 'Average'
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: true,
+  triggerWord: 'ohwx',
+  style: 'tags',
+  omitFields: []
+};
+
+export const EXPORT_PROFILES: { id: ExportProfileId; label: string; description: string }[] = [
+  { id: 'flat', label: 'Flat ZIP', description: 'Images with caption .txt files side by side, plus manifest.json' },
+  { id: 'kohya', label: 'kohya_ss', description: 'img/<repeats>_<trigger> <class>/ folders with caption .txt files' },
+  { id: 'huggingface', label: 'HF Datasets', description: 'imagefolder layout: images plus metadata.jsonl with a text column' },
+  { id: 'json', label: 'JSON Manifest', description: 'Images plus one dataset.json describing every frame' }
+];
+
+export const EXPORT_FORMATS: { id: ExportImageFormat; label: string; mime: string; extension: string }[] = [
+  { id: 'png', label: 'PNG', mime: 'image/png', extension: 'png' },
+  { id: 'jpeg', label: 'JPEG', mime: 'image/jpeg', extension: 'jpg' },
+  { id: 'webp', label: 'WebP', mime: 'image/webp', extension: 'webp' }
+];
+
+export const EXPORT_NAME_TOKENS = ['{project}', '{pose}', '{poseId}', '{group}', '{index}', '{take}', '{version}'];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  profile: 'flat',
+  format: 'png',
+  quality: 92,
+  nameTemplate: '{project}_{pose}_{index}',
+  splitByGroup: false,
+  repeats: 10,
+  className: 'person'
+};
+
+export const CROP_MODES: { id: CropMode; label: string; description: string }[] = [
+  { id: 'center', label: 'Center', description: 'Crop evenly from both edges' },
+  { id: 'face', label: 'Face-Aware', description: 'Keep the detected face in frame with headroom above it' }
+];
+
+// Common SDXL-style buckets; anything the trainer is configured for can be added
+export const DEFAULT_POST_PROCESS_SETTINGS: PostProcessSettings = {
+  enabled: false,
+  buckets: [
+    { width: 1024, height: 1024 },
+    { width: 896, height: 1152 },
+    { width: 832, height: 1216 },
+    { width: 1152, height: 896 }
+  ],
+  crop: 'face',
+  dedupe: true,
+  dedupeThreshold: 6
+};
+
+// Published per-image list prices at the time of writing; edit them in the Usage panel when they change
+export const DEFAULT_PRICES: PriceEntry[] = [
+  { model: 'gemini-3-pro-image-preview', resolution: '1K', price: 0.134 },
+  { model: 'gemini-3-pro-image-preview', resolution: '2K', price: 0.134 },
+  { model: 'gemini-3-pro-image-preview', resolution: '4K', price: 0.24 }
+];
+
+export const BUDGET_SCOPES: { id: BudgetScope; label: string }[] = [
+  { id: 'batch', label: 'Per Batch' },
+  { id: 'project', label: 'Per Project' },
+  { id: 'day', label: 'Per Day' }
+];
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  enabled: false,
+  limit: 5,
+  scope: 'batch'
+};
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 3,
+  requestsPerMinute: 20,
+  maxRetries: 4,
+  baseDelayMs: 2000
+};
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+export const TAKE_OPTIONS = [1, 2, 3, 4];
+
+// One-click starting points for the lightbox edit pass
+export const EDIT_SUGGESTIONS = [
+  "Fix the hands so each has exactly five natural fingers",
+  "Match the hair length to the reference images",
+  "Correct the outfit color to match the prompt",
+  "Remove the stray artifact in the marked area",
+  "Open the eyes naturally and keep the expression"
+];
+
+export const MASK_BRUSH_SIZES = [16, 32, 64];
+
+export const DEFAULT_VERIFICATION_SETTINGS: VerificationSettings = {
+  autoVerify: false,
+  threshold: 75,
+  autoRegenerate: false,
+  maxRegenerations: 1
+};
+
+export const CAPTION_FIELDS: { id: CaptionField; label: string }[] = [
+  { id: 'framing', label: 'Framing' },
+  { id: 'pose', label: 'Pose' },
+  { id: 'expression', label: 'Expression' },
+  { id: 'clothing', label: 'Clothing' },
+  { id: 'variations', label: 'Varied Traits' },
+  { id: 'environment', label: 'Environment' }
+];
+
+export const CAPTION_FRAMING: Record<DatasetGroup, string> = {
+  portrait: 'close-up portrait',
+  upper: 'upper body shot',
+  full: 'full body shot'
+};
+
 export const MODELS = {
   IMAGE: 'gemini-3-pro-image-preview',
   ANALYSIS: 'gemini-3-flash-preview'
 };
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Google Gemini image + analysis models' },
+  { id: 'mock', label: 'Offline Mock', description: 'Deterministic placeholders, no API calls' },
+  { id: 'http', label: 'Self-Hosted', description: 'ComfyUI / A1111-style HTTP endpoint' }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  httpEndpoint: 'http://127.0.0.1:7860',
+  httpAuthToken: ''
+};
+
+export const RESOLUTION_PIXELS: Record<Resolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BalancePlanner } from './balancePlanner';
+import { BalancePlan, DatasetGroup, DatasetPose, PoseFacing } from '../types';
+
+const pose = (id: string, group: DatasetGroup, orientation: PoseFacing): DatasetPose =>
+  ({ id, label: id, group, description: `pose ${id}`, orientation });
+
+const plan = (total: number, groups: Partial<BalancePlan['groups']>, angles: Partial<BalancePlan['angles']> = {}): BalancePlan => ({
+  total,
+  groups: { portrait: 0, upper: 0, full: 0, ...groups },
+  angles: { front: 1, angled: 1, profile: 1, rear: 1, ...angles }
+});
+
+describe('BalancePlanner.apportion', () => {
+  it('always adds back up to the total', () => {
+    const counts = BalancePlanner.apportion(10, [['a', 1], ['b', 1], ['c', 1]]);
+    expect([...counts.values()].reduce((s, n) => s + n, 0)).toBe(10);
+    expect(counts.get('a')).toBe(4);
+    expect(counts.get('b')).toBe(3);
+  });
+
+  it('hands leftovers to the largest remainders', () => {
+    const counts = BalancePlanner.apportion(10, [['a', 15], ['b', 50], ['c', 35]]);
+    expect(Object.fromEntries(counts)).toEqual({ a: 2, b: 5, c: 3 });
+  });
+
+  it('gives nothing to zero weights and everything to zero when all weights are zero', () => {
+    expect(Object.fromEntries(BalancePlanner.apportion(5, [['a', 0], ['b', 2]]))).toEqual({ a: 0, b: 5 });
+    expect(Object.fromEntries(BalancePlanner.apportion(5, [['a', 0], ['b', 0]]))).toEqual({ a: 0, b: 0 });
+  });
+});
+
+describe('BalancePlanner.build', () => {
+  const poses = [
+    pose('p-front', 'portrait', 'frontal'),
+    pose('p-profile', 'portrait', 'profile-left'),
+    pose('u-front', 'upper', 'frontal')
+  ];
+
+  it('moves an angle without poses to the angles the group has', () => {
+    const result = BalancePlanner.build(plan(4, { portrait: 1 }), poses);
+    expect(result.planned.portrait).toEqual({ front: 2, angled: 0, profile: 2, rear: 0 });
+    expect(result.frames).toHaveLength(4);
+    expect(result.shortfall).toBe(0);
+  });
+
+  it('cycles through a cell and bumps the variant on every lap', () => {
+    const result = BalancePlanner.build(plan(3, { upper: 1 }), poses);
+    expect(result.frames.map(f => `${f.pose.id}#${f.variant}`)).toEqual(['u-front#0', 'u-front#1', 'u-front#2']);
+  });
+
+  it('reports frames for groups without any poses as shortfall', () => {
+    const result = BalancePlanner.build(plan(6, { upper: 1, full: 1 }), poses);
+    expect(result.frames).toHaveLength(3);
+    expect(result.shortfall).toBe(3);
+  });
+
+  it('splits evenly when every available angle is weighted to zero', () => {
+    const result = BalancePlanner.build(plan(4, { portrait: 1 }, { front: 0, profile: 0, angled: 5 }), poses);
+    expect(result.planned.portrait.front).toBe(2);
+    expect(result.planned.portrait.profile).toBe(2);
+  });
+});
+
+describe('BalancePlanner.histogram', () => {
+  it('counts poses by group and shot angle', () => {
+    const matrix = BalancePlanner.histogram([pose('a', 'full', 'rear'), pose('b', 'full', 'rear-left'), pose('c', 'upper', 'angled-right')]);
+    expect(matrix.full.rear).toBe(2);
+    expect(matrix.upper.angled).toBe(1);
+    expect(BalancePlanner.total(matrix)).toBe(3);
+    expect(BalancePlanner.total(matrix, 'full')).toBe(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { DATASET_GROUPS, SHOT_ANGLES } from "../constants";
+import { BalanceMatrix, BalancePlan, DatasetGroup, DatasetPose, PlannedFrame, ShotAngle } from "../types";
+import { ReferenceSelector } from "./referenceSelector";
+
+export interface BalanceResult {
+  frames: PlannedFrame[];
+  planned: BalanceMatrix;
+  // Frames a group could not take at all because it has no poses
+  shortfall: number;
+}
+
+export class BalancePlanner {
+  static emptyMatrix(): BalanceMatrix {
+    return Object.fromEntries(
+      DATASET_GROUPS.map(g => [g, Object.fromEntries(SHOT_ANGLES.map(a => [a.id, 0]))])
+    ) as BalanceMatrix;
+  }
+
+  /**
+   * Splits `total` across keys in proportion to their weights using largest remainders, so the
+   * parts always add back up to `total`. Ties go to the earlier key.
+   */
+  static apportion<K extends string>(total: number, weights: [K, number][]): Map<K, number> {
+    const usable = weights.filter(([, w]) => w > 0);
+    const sum = usable.reduce((s, [, w]) => s + w, 0);
+    const counts = new Map<K, number>(weights.map(([k]) => [k, 0]));
+    if (total <= 0 || sum === 0) return counts;
+
+    const shares = usable.map(([k, w]) => ({ key: k, exact: (total * w) / sum }));
+    shares.forEach(s => counts.set(s.key, Math.floor(s.exact)));
+    let left = total - shares.reduce((s, x) => s + Math.floor(x.exact), 0);
+    const byRemainder = [...shares].sort((a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact)));
+    for (const share of byRemainder) {
+      if (left <= 0) break;
+      counts.set(share.key, counts.get(share.key)! + 1);
+      left--;
+    }
+    return counts;
+  }
+
+  /**
+   * Expands the plan into concrete frames. A group's share of an angle with no matching poses is moved
+   * to the group's other angles, so the group split holds even when the library has gaps. Each cell
+   * cycles through its poses, and every lap adds a new variant so repeats get their own outfit and expression.
+   */
+  static build(plan: BalancePlan, poses: DatasetPose[]): BalanceResult {
+    const planned = this.emptyMatrix();
+    const frames: PlannedFrame[] = [];
+    let shortfall = 0;
+
+    const groupCounts = this.apportion(Math.max(0, Math.floor(plan.total)), DATASET_GROUPS.map(g => [g, plan.groups[g]]));
+    for (const group of DATASET_GROUPS) {
+      const groupCount = groupCounts.get(group)!;
+      const byAngle = new Map<ShotAngle, DatasetPose[]>(SHOT_ANGLES.map(a => [a.id, []]));
+      poses.filter(p => p.group === group).forEach(p => byAngle.get(ReferenceSelector.shotAngle(p))!.push(p));
+
+      const available = SHOT_ANGLES.filter(a => byAngle.get(a.id)!.length > 0);
+      if (available.length === 0) {
+        shortfall += groupCount;
+        continue;
+      }
+      // Fall back to an even split if every angle with poses was weighted to zero
+      const weighted = available.some(a => plan.angles[a.id] > 0);
+      const angleCounts = this.apportion(groupCount, available.map(a => [a.id, weighted ? plan.angles[a.id] : 1]));
+
+      for (const [angle, count] of angleCounts) {
+        const candidates = byAngle.get(angle)!;
+        planned[group][angle] = count;
+        for (let i = 0; i < count; i++) {
+          frames.push({ pose: candidates[i % candidates.length], variant: Math.floor(i / candidates.length) });
+        }
+      }
+    }
+    return { frames, planned, shortfall };
+  }
+
+  static histogram(poses: DatasetPose[]): BalanceMatrix {
+    const matrix = this.emptyMatrix();
+    for (const pose of poses) {
+      if (matrix[pose.group]) matrix[pose.group][ReferenceSelector.shotAngle(pose)]++;
+    }
+    return matrix;
+  }
+
+  static total(matrix: BalanceMatrix, group?: DatasetGroup): number {
+    const groups = group ? [group] : DATASET_GROUPS;
+    return groups.reduce((sum, g) => sum + SHOT_ANGLES.reduce((s, a) => s + matrix[g][a.id], 0), 0);
+  }
+}
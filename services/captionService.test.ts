@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CAPTION_SETTINGS } from '../constants';
+import { CaptionService } from './captionService';
+import { frame } from './testFixtures';
+import { CaptionSettings, GeneratedImage } from '../types';
+
+const SETTINGS: CaptionSettings = { ...DEFAULT_CAPTION_SETTINGS, enabled: true, triggerWord: 'ohwx', style: 'tags', omitFields: [] };
+
+const imported = (extra: Partial<GeneratedImage>) =>
+  frame('f1', { poseId: 'custom', poseLabel: 'Custom', poseDescription: 'arms crossed', model: 'imported' }, extra);
+
+describe('CaptionService.buildCaption for imported frames', () => {
+  it('keeps the caption the frame shipped with', () => {
+    expect(CaptionService.buildCaption(imported({ imported: { file: 'a.png', caption: ' ohwx, hand written ' } }), SETTINGS)).toBe('ohwx, hand written');
+  });
+
+  it('builds a caption when none shipped, without framing for an assumed group', () => {
+    const caption = CaptionService.buildCaption(imported({ imported: { file: 'a.png', groupAssumed: true } }), SETTINGS);
+    expect(caption).toBe('ohwx, arms crossed');
+  });
+});
@@ -0,0 +1,68 @@
+import { CAPTION_FRAMING, POSE_DEFINITIONS } from "../constants";
+import { CaptionSettings, GeneratedImage, IdentityAttribute } from "../types";
+import { LockResolver } from "./identityLocks";
+
+export class CaptionService {
+  private static clean(text: string) {
+    return text.trim().replace(/\s+/g, ' ').replace(/[.,;\s]+$/, '');
+  }
+
+  // Pose descriptions are written as prose; split them on commas so each clause becomes a tag.
+  private static toTags(text: string) {
+    return text
+      .split(',')
+      .map(part => this.clean(part).toLowerCase())
+      .filter(Boolean);
+  }
+
+  private static capitalize(text: string) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  /**
+   * Builds the kohya / ai-toolkit style caption for a generated frame.
+   * Fields listed in `omitFields` are left out so the LoRA absorbs them into the trigger word.
+   * Imported frames keep the caption they shipped with, since it may have been written by hand.
+   */
+  static buildCaption(image: GeneratedImage, settings: CaptionSettings): string {
+    if (image.imported?.caption?.trim()) return image.imported.caption.trim();
+    const omit = new Set(settings.omitFields);
+    const trigger = this.clean(settings.triggerWord);
+    const { meta } = image;
+    // Projects saved before descriptions were recorded fall back to the built-in pose text
+    const poseDescription = meta.poseDescription || POSE_DEFINITIONS.find(p => p.id === meta.poseId)?.description || '';
+
+    const framing = !omit.has('framing') && !image.imported?.groupAssumed ? CAPTION_FRAMING[meta.group] : '';
+    const poseText = !omit.has('pose') ? this.clean(poseDescription) : '';
+    const expression = !omit.has('expression') && meta.expression ? this.clean(meta.expression) : '';
+    const clothing = !omit.has('clothing') && meta.clothing ? this.clean(meta.clothing) : '';
+    const environment = !omit.has('environment') && meta.environment ? this.clean(meta.environment) : '';
+    // Traits deliberately varied across the dataset are captioned so the LoRA does not bake them into the trigger
+    const variations = !omit.has('variations')
+      ? Object.entries(meta.variations || {}).map(([attr, value]) => this.clean(LockResolver.phrase(attr as IdentityAttribute, value!)))
+      : [];
+
+    if (settings.style === 'tags') {
+      return [
+        trigger,
+        framing,
+        ...this.toTags(poseText),
+        expression,
+        ...variations,
+        clothing ? `wearing ${clothing}` : '',
+        environment
+      ].filter(Boolean).join(', ');
+    }
+
+    const subject = trigger || 'the subject';
+    const sentences = [
+      framing ? `A ${framing} of ${subject}.` : `A photo of ${subject}.`,
+      poseText ? `${this.capitalize(poseText)}.` : '',
+      expression ? `${this.capitalize(expression)}.` : '',
+      variations.length > 0 ? `${this.capitalize(variations.join(', '))}.` : '',
+      clothing ? `Wearing ${clothing}.` : '',
+      environment ? `${this.capitalize(environment)}.` : ''
+    ];
+    return sentences.filter(Boolean).join(' ');
+  }
+}
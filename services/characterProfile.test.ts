@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { ProfileService } from './characterProfile';
+
+const analyzed = { ...ProfileService.empty(), hairColor: 'auburn' };
+const manual = { ...ProfileService.empty(), eyes: 'green' };
+
+describe('ProfileService.active', () => {
+  it('uses the analyzed profile in auto mode', () => {
+    expect(ProfileService.active('auto', analyzed, manual)).toBe(analyzed);
+    expect(ProfileService.active('auto', null, manual)).toBeNull();
+  });
+
+  it('uses the manual profile in manual mode unless it is blank', () => {
+    expect(ProfileService.active('manual', analyzed, manual)).toBe(manual);
+    expect(ProfileService.active('manual', analyzed, ProfileService.empty())).toBeNull();
+  });
+});
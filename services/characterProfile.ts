@@ -0,0 +1,66 @@
+import { PROFILE_FIELDS, PROFILE_SECTIONS } from "../constants";
+import { CharacterProfile, ProfileField, ProfileMode, ProfileSection } from "../types";
+
+export class ProfileService {
+  static empty(): CharacterProfile {
+    return {
+      hairLength: "",
+      hairTexture: "",
+      hairColor: "",
+      faceShape: "",
+      eyes: "",
+      skin: "",
+      build: "",
+      distinguishingMarks: "",
+      notes: ""
+    };
+  }
+
+  static isEmpty(profile: CharacterProfile | null): boolean {
+    return !profile || PROFILE_FIELDS.every(f => !profile[f.id].trim());
+  }
+
+  // The profile a character renders with: the analyzed one in auto mode, else the manual one unless it is blank
+  static active(mode: ProfileMode, auto: CharacterProfile | null, manual: CharacterProfile | null): CharacterProfile | null {
+    if (mode === 'auto') return auto;
+    return this.isEmpty(manual) ? null : manual;
+  }
+
+  // Validates an analysis response: unknown keys are dropped and missing or non-string fields become "".
+  static parse(raw: unknown): CharacterProfile {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error("Character profile must be a JSON object.");
+    const profile = this.empty();
+    for (const field of PROFILE_FIELDS) {
+      const value = (raw as Record<string, unknown>)[field.id];
+      if (typeof value === 'string') profile[field.id] = value.trim();
+    }
+    return profile;
+  }
+
+  // Profiles saved before the structured schema were one free-text block; it is kept verbatim as notes.
+  static fromText(text: string | null): CharacterProfile | null {
+    if (!text?.trim()) return null;
+    return { ...this.empty(), notes: text.trim() };
+  }
+
+  static describeSection(profile: CharacterProfile, section: ProfileSection, omit: ProfileField[] = []): string {
+    return PROFILE_FIELDS
+      .filter(f => f.section === section && profile[f.id].trim() && !omit.includes(f.id))
+      .map(f => `${f.label.toLowerCase()}: ${profile[f.id].trim()}`)
+      .join('; ');
+  }
+
+  /**
+   * Renders the profile as prompt text, one bracketed group per section. Field values are never split,
+   * so a value like "mid-back. Wavy" stays intact. `omit` drops fields that an identity lock replaces.
+   */
+  static describe(profile: CharacterProfile, options: { includeBody?: boolean; omit?: ProfileField[] } = {}): string {
+    const { includeBody = true, omit = [] } = options;
+    return PROFILE_SECTIONS
+      .filter(s => includeBody || s.id !== 'body')
+      .map(s => ({ label: s.label.toUpperCase(), text: this.describeSection(profile, s.id, omit) }))
+      .filter(s => s.text)
+      .map(s => `${s.label} (${s.text})`)
+      .join(' ');
+  }
+}
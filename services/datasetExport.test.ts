@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_EXPORT_SETTINGS } from '../constants';
+import { DatasetExport } from './datasetExport';
+import { frame } from './testFixtures';
+import { GeneratedImage, GenerationMetadata } from '../types';
+
+const exported = (meta: Partial<GenerationMetadata> = {}, extra: Partial<GeneratedImage> = {}) =>
+  frame('f1', { poseId: 'p7', poseLabel: 'Over the Shoulder', ...meta }, extra);
+
+describe('DatasetExport.slug', () => {
+  it('replaces whitespace and characters file systems reject', () => {
+    expect(DatasetExport.slug('  a b/c:d*e?  ')).toBe('a_b_c_d_e_');
+  });
+});
+
+describe('DatasetExport.fileName', () => {
+  it('fills every template token', () => {
+    const img = exported({ take: 2 }, { edit: { rootId: 'f0', parentId: 'f0', version: 3, instruction: '', masked: false } });
+    expect(DatasetExport.fileName('{project}_{pose}_{poseId}_{group}_{index}_t{take}_v{version}', img, 4, 'Ava'))
+      .toBe('Ava_Over_the_Shoulder_p7_portrait_4_t2_v3');
+  });
+
+  it('defaults take and version to 1 for an unedited single-take frame', () => {
+    expect(DatasetExport.fileName('{take}-{version}', exported(), 0, 'Ava')).toBe('1-1');
+  });
+
+  it('falls back to a frame label when the pose has none', () => {
+    expect(DatasetExport.fileName('{pose}', exported({ poseLabel: '' }), 5, 'Ava')).toBe('Frame_5');
+  });
+
+  it('leaves unknown tokens in place', () => {
+    expect(DatasetExport.fileName('{pose}_{seed}', exported(), 0, 'Ava')).toBe('Over_the_Shoulder_{seed}');
+  });
+
+  it('never returns an empty name', () => {
+    expect(DatasetExport.fileName('   ', exported(), 9, 'Ava')).toBe('frame_9');
+  });
+});
+
+describe('DatasetExport.kohyaFolder', () => {
+  it('joins repeats, trigger word and class', () => {
+    const folder = DatasetExport.kohyaFolder({ ...DEFAULT_EXPORT_SETTINGS, repeats: 10, className: 'woman' }, { ...DEFAULT_CAPTION_SETTINGS, triggerWord: 'ohwx' });
+    expect(folder).toBe('10_ohwx woman');
+  });
+
+  it('keeps at least one repeat and a concept', () => {
+    const folder = DatasetExport.kohyaFolder({ ...DEFAULT_EXPORT_SETTINGS, repeats: 0, className: ' ' }, { ...DEFAULT_CAPTION_SETTINGS, triggerWord: '' });
+    expect(folder).toBe('1_subject');
+  });
+});
@@ -0,0 +1,178 @@
+import JSZip from 'jszip';
+import { EXPORT_FORMATS } from "../constants";
+import { BatchManifest, CaptionSettings, ExportImageFormat, ExportSettings, GeneratedImage, PostProcessSettings } from "../types";
+import { CaptionService } from "./captionService";
+import { ManifestService } from "./manifest";
+import { PostProcessor } from "./postProcessor";
+import { Versions } from "./versions";
+
+export interface ExportContext {
+  projectName: string;
+  captionSettings: CaptionSettings;
+  manifests: BatchManifest[];
+  postProcess: PostProcessSettings;
+}
+
+export interface ExportResult {
+  zip: JSZip;
+  // Near-duplicates left out of the archive
+  skipped: GeneratedImage[];
+}
+
+interface ExportedFrame {
+  image: GeneratedImage;
+  // Path inside the archive, relative to the profile root
+  path: string;
+  caption: string;
+}
+
+export class DatasetExport {
+  // Keeps names portable across file systems and training scripts; the importer matches pose labels the same way
+  static slug(text: string) {
+    return text.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_');
+  }
+
+  static fileName(template: string, img: GeneratedImage, index: number, projectName: string): string {
+    const tokens: Record<string, string> = {
+      project: projectName,
+      pose: img.meta.poseLabel || `Frame_${index}`,
+      poseId: img.meta.poseId,
+      group: img.meta.group,
+      index: String(index),
+      take: String(img.meta.take ?? 1),
+      version: String(Versions.number(img))
+    };
+    const name = template.replace(/\{(\w+)\}/g, (token, key: string) => tokens[key] ?? token);
+    return this.slug(name) || `frame_${index}`;
+  }
+
+  // kohya_ss reads repeats and the instance/class prompt from the folder name
+  static kohyaFolder(settings: ExportSettings, captionSettings: CaptionSettings): string {
+    const concept = [captionSettings.triggerWord.trim(), settings.className.trim()].filter(Boolean).join(' ');
+    return `${Math.max(1, settings.repeats)}_${concept || 'subject'}`.replace(/[\\/:*?"<>|]+/g, '_');
+  }
+
+  private static loadImage(url: string) {
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not decode a frame for export."));
+      img.src = url;
+    });
+  }
+
+  // Returns bare base64 in the requested format; PNG frames pass through untouched
+  static async encode(url: string, format: ExportImageFormat, quality: number): Promise<string> {
+    const { mime } = EXPORT_FORMATS.find(f => f.id === format)!;
+    if (url.startsWith(`data:${mime};`)) return url.split(',')[1];
+
+    const source = await this.loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable for export.");
+    ctx.drawImage(source, 0, 0);
+    return this.encodeCanvas(canvas, format, quality);
+  }
+
+  static encodeCanvas(source: HTMLCanvasElement, format: ExportImageFormat, quality: number): string {
+    const { mime } = EXPORT_FORMATS.find(f => f.id === format)!;
+    let canvas = source;
+    // JPEG has no alpha; flatten onto white rather than the encoder default of black
+    if (format === 'jpeg') {
+      canvas = document.createElement('canvas');
+      canvas.width = source.width;
+      canvas.height = source.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas 2D context unavailable for export.");
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(source, 0, 0);
+    }
+    return canvas.toDataURL(mime, Math.min(100, Math.max(1, quality)) / 100).split(',')[1];
+  }
+
+  /**
+   * Lays the frames out for the chosen profile and returns the archive ready to zip. With post-processing on,
+   * near-duplicates are dropped first and every frame is cropped and resized to its training bucket.
+   * Names are made unique per folder, so a template without {index} never overwrites a frame.
+   */
+  static async build(allFrames: GeneratedImage[], settings: ExportSettings, context: ExportContext): Promise<ExportResult> {
+    const zip = new JSZip();
+    const { extension } = EXPORT_FORMATS.find(f => f.id === settings.format)!;
+    const { captionSettings, postProcess } = context;
+    const duplicateOf = postProcess.enabled && postProcess.dedupe
+      ? await PostProcessor.duplicates(allFrames, postProcess.dedupeThreshold)
+      : new Map<string, string>();
+    const frames = allFrames.filter(img => !duplicateOf.has(img.id));
+    const root = settings.profile === 'kohya' ? 'img/' : '';
+    const used = new Set<string>();
+    const exported: ExportedFrame[] = [];
+
+    for (let index = 0; index < frames.length; index++) {
+      const image = frames[index];
+      const data = postProcess.enabled
+        ? this.encodeCanvas((await PostProcessor.render(image.url, postProcess, image.meta.group)).canvas, settings.format, settings.quality)
+        : await this.encode(image.url, settings.format, settings.quality);
+      const folder = [
+        // Split kohya exports get one training folder per group, each usable as its own dataset subset
+        settings.splitByGroup && !image.imported?.groupAssumed ? image.meta.group : '',
+        settings.profile === 'kohya' ? this.kohyaFolder(settings, captionSettings) : ''
+      ].filter(Boolean).join('/');
+      const base = this.fileName(settings.nameTemplate, image, index, context.projectName);
+      let name = base;
+      for (let n = 2; used.has(`${folder}/${name}`); n++) name = `${base}_${n}`;
+      used.add(`${folder}/${name}`);
+
+      const path = `${folder ? `${folder}/` : ''}${name}`;
+      const caption = captionSettings.enabled ? CaptionService.buildCaption(image, captionSettings) : '';
+      zip.file(`${root}${path}.${extension}`, data, { base64: true });
+      if (caption && (settings.profile === 'flat' || settings.profile === 'kohya')) {
+        zip.file(`${root}${path}.txt`, caption);
+      }
+      exported.push({ image, path: `${path}.${extension}`, caption });
+    }
+
+    const batches = ManifestService.forImages(context.manifests, frames);
+    if (settings.profile === 'huggingface') {
+      zip.file('metadata.jsonl', exported.map(frame => JSON.stringify({
+        file_name: frame.path,
+        ...(captionSettings.enabled ? { text: frame.caption } : {}),
+        ...this.describe(frame.image)
+      })).join('\n') + '\n');
+    } else if (settings.profile === 'json') {
+      zip.file('dataset.json', JSON.stringify({
+        project: context.projectName,
+        exportedAt: Date.now(),
+        format: settings.format,
+        frames: exported.map(frame => ({
+          file: frame.path,
+          ...(captionSettings.enabled ? { caption: frame.caption } : {}),
+          ...this.describe(frame.image),
+          score: frame.image.score ?? null,
+          batchId: frame.image.meta.batchId ?? null,
+          seed: frame.image.meta.seed ?? null
+        })),
+        batches
+      }, null, 2));
+    }
+    if (batches.length > 0 && settings.profile !== 'json') {
+      zip.file('manifest.json', ManifestService.toJson(context.projectName, batches));
+    }
+    return { zip, skipped: allFrames.filter(img => duplicateOf.has(img.id)) };
+  }
+
+  private static describe(image: GeneratedImage) {
+    const { meta } = image;
+    return {
+      pose: meta.poseId,
+      group: image.imported?.groupAssumed ? '' : meta.group,
+      clothing: meta.clothing,
+      expression: meta.expression,
+      environment: meta.environment ?? '',
+      take: meta.take ?? 1,
+      version: Versions.number(image)
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetImport } from './datasetImport';
+import { DatasetPose } from '../types';
+
+const pose = (id: string, label: string): DatasetPose => ({ id, label, group: 'upper', description: '' });
+
+const POSES = [pose('p1', 'Standing'), pose('p2', 'Standing Left'), pose('p10', 'Over the Shoulder')];
+
+describe('DatasetImport.matchPose', () => {
+  it('matches a pose id written as its own token', () => {
+    expect(DatasetImport.matchPose('Ava_p10_3.png', POSES)?.id).toBe('p10');
+    expect(DatasetImport.matchPose('img/10_ohwx/p2-take1.webp', POSES)?.id).toBe('p2');
+  });
+
+  it('does not match an id inside a longer token', () => {
+    expect(DatasetImport.matchPose('Ava_p100.png', POSES)).toBeUndefined();
+  });
+
+  it('matches the slugged label our name template writes', () => {
+    expect(DatasetImport.matchPose('Ava_Over_the_Shoulder_4.png', POSES)?.id).toBe('p10');
+  });
+
+  it('prefers the longest matching label', () => {
+    expect(DatasetImport.matchPose('Ava_Standing_Left_1.png', POSES)?.id).toBe('p2');
+    expect(DatasetImport.matchPose('Ava_Standing_1.png', POSES)?.id).toBe('p1');
+  });
+
+  it('ignores case and leaves unknown names unmatched', () => {
+    expect(DatasetImport.matchPose('ava_standing_left.PNG', POSES)?.id).toBe('p2');
+    expect(DatasetImport.matchPose('IMG_2041.jpg', POSES)).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import JSZip from 'jszip';
+import { DATASET_GROUPS, DEFAULT_ADJUSTMENTS } from "../constants";
+import { AspectRatio, BatchManifest, DatasetGroup, DatasetPose, GeneratedImage, PoseJob, Resolution } from "../types";
+import { DatasetExport } from "./datasetExport";
+import { LockResolver } from "./identityLocks";
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// Per-file fields recorded by the JSON and HF export profiles
+interface FrameRecord {
+  pose?: string;
+  group?: string;
+  clothing?: string;
+  expression?: string;
+  environment?: string;
+  caption?: string;
+  batchId?: string | null;
+  seed?: number | null;
+}
+
+export interface ImportResult {
+  images: GeneratedImage[];
+  manifests: BatchManifest[];
+  // Frames placed by metadata, filename or manifest vs. frames that kept only their file name
+  matched: number;
+  unmatched: number;
+  // Frames with no group in their metadata, pose or folder
+  ungrouped: number;
+}
+
+export class DatasetImport {
+  private static extension(path: string) {
+    return path.split('.').pop()?.toLowerCase() || '';
+  }
+
+  private static stem(path: string) {
+    return path.replace(/\.[^./]+$/, '');
+  }
+
+  private static async readJson<T>(zip: JSZip, name: string): Promise<T | null> {
+    const entry = Object.values(zip.files).find(f => !f.dir && f.name.split('/').pop() === name);
+    if (!entry) return null;
+    try {
+      return JSON.parse(await entry.async('string')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  // Metadata written by our JSON / HF profiles, keyed by the image path relative to the archive root
+  private static async frameRecords(zip: JSZip): Promise<Map<string, FrameRecord>> {
+    const records = new Map<string, FrameRecord>();
+    const dataset = await this.readJson<{ frames?: (FrameRecord & { file: string })[] }>(zip, 'dataset.json');
+    dataset?.frames?.forEach(frame => records.set(frame.file, frame));
+
+    const jsonl = Object.values(zip.files).find(f => !f.dir && f.name.split('/').pop() === 'metadata.jsonl');
+    if (jsonl) {
+      for (const line of (await jsonl.async('string')).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const { file_name, text, ...rest } = JSON.parse(line);
+          if (file_name) records.set(file_name, { ...rest, caption: text });
+        } catch {
+          // A malformed row only loses that row's metadata
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Finds the pose a file name refers to: a pose id as its own token, else the slugged pose label
+   * our naming template writes. The longest label wins so "Standing Left" beats "Standing".
+   */
+  static matchPose(fileName: string, poses: DatasetPose[]): DatasetPose | undefined {
+    const name = DatasetExport.slug(this.stem(fileName.split('/').pop() || ''));
+    const tokens = new Set(name.toLowerCase().split(/[_\-]+/));
+    const byId = poses.find(p => tokens.has(p.id.toLowerCase()));
+    if (byId) return byId;
+    const lower = `_${name.toLowerCase()}_`;
+    return poses
+      .filter(p => p.label && lower.includes(`_${DatasetExport.slug(p.label).toLowerCase()}_`))
+      .sort((a, b) => b.label.length - a.label.length)[0];
+  }
+
+  // Split exports put frames under portrait/ upper/ full/ folders
+  private static groupFromPath(path: string): DatasetGroup | undefined {
+    const folders = path.split('/').slice(0, -1).map(f => f.toLowerCase());
+    return DATASET_GROUPS.find(g => folders.includes(g));
+  }
+
+  // A manifest job for the pose: the recorded batch when known, otherwise only an unambiguous single job
+  private static findJob(manifests: BatchManifest[], poseId: string, batchId?: string | null): PoseJob | undefined {
+    if (batchId) return manifests.find(m => m.id === batchId)?.jobs.find(j => j.pose.id === poseId);
+    const jobs = manifests.flatMap(m => m.jobs.filter(j => j.pose.id === poseId));
+    return jobs.length === 1 ? jobs[0] : undefined;
+  }
+
+  /**
+   * Rebuilds bin entries from one of our exports (any profile) or a plain folder of image + caption pairs.
+   * Poses are recovered from export metadata, then the file name, and group from the pose or the split folder.
+   */
+  static async read(file: Blob, poses: DatasetPose[]): Promise<ImportResult> {
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files).filter(f =>
+      !f.dir && !f.name.startsWith('__MACOSX/') && !f.name.split('/').pop()!.startsWith('.') && IMAGE_TYPES[this.extension(f.name)]
+    );
+    const records = await this.frameRecords(zip);
+    const manifests = (await this.readJson<{ batches?: BatchManifest[] }>(zip, 'manifest.json'))?.batches
+      ?? (await this.readJson<{ batches?: BatchManifest[] }>(zip, 'dataset.json'))?.batches
+      ?? [];
+    // kohya exports nest everything under img/; metadata paths are relative to it
+    const relative = (path: string) => path.replace(/^img\//, '');
+
+    const images: GeneratedImage[] = [];
+    let matched = 0;
+    let ungrouped = 0;
+    for (const [i, entry] of entries.entries()) {
+      const record = records.get(entry.name) ?? records.get(relative(entry.name));
+      const captionFile = zip.file(`${this.stem(entry.name)}.txt`);
+      const caption = record?.caption ?? (captionFile ? (await captionFile.async('string')).trim() : undefined);
+      const pose = poses.find(p => p.id === record?.pose) ?? this.matchPose(entry.name, poses);
+      const job = pose ? this.findJob(manifests, pose.id, record?.batchId) : undefined;
+      const knownGroup = (DATASET_GROUPS as string[]).includes(record?.group || '')
+        ? record!.group as DatasetGroup
+        : pose?.group ?? this.groupFromPath(entry.name);
+      // Cropping still needs a group, so unknown frames are framed as upper body but flagged for export
+      const group = knownGroup ?? 'upper';
+      if (pose) matched++;
+      if (!knownGroup) ungrouped++;
+
+      const fileLabel = this.stem(entry.name.split('/').pop()!);
+      const data = await entry.async('base64');
+      images.push({
+        id: `import-${Date.now()}-${i}`,
+        url: `data:${IMAGE_TYPES[this.extension(entry.name)]};base64,${data}`,
+        prompt: job?.prompt ?? '',
+        timestamp: entry.date?.getTime() || Date.now(),
+        group,
+        meta: {
+          poseId: pose?.id ?? `import-${DatasetExport.slug(fileLabel)}`,
+          poseLabel: pose?.label ?? fileLabel,
+          poseDescription: pose?.description ?? '',
+          group,
+          clothing: record?.clothing ?? job?.clothing ?? '',
+          expression: record?.expression ?? job?.expression ?? '',
+          environment: record?.environment || job?.environment,
+          aspectRatio: job?.aspectRatio ?? (group === 'full' ? '3:4' : '1:1') as AspectRatio,
+          resolution: job?.resolution ?? '1K' as Resolution,
+          model: 'imported',
+          profile: '',
+          locks: LockResolver.defaults(),
+          variations: job?.variations,
+          adjustments: { ...DEFAULT_ADJUSTMENTS },
+          attempt: 1,
+          batchId: record?.batchId ?? job?.batchId,
+          seed: record?.seed ?? job?.seed,
+          variant: job?.variant
+        },
+        imported: { file: entry.name, caption, ...(knownGroup ? {} : { groupAssumed: true }) }
+      });
+    }
+    return { images, manifests, matched, unmatched: images.length - matched, ungrouped };
+  }
+}
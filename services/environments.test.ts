@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Environments } from './environments';
+import { stubStorage } from './testFixtures';
+
+const PRESET = { id: 'studio-1', name: 'Grey backdrop', category: 'studio', setting: 'seamless grey paper', lighting: 'softbox key', caption: 'studio', weight: 1 };
+
+describe('Environments.load', () => {
+  beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => undefined));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the valid presets when one is malformed', () => {
+    stubStorage({ 'ucc:environments': JSON.stringify([PRESET, { ...PRESET, id: 'studio-2', weight: 'high' }, { ...PRESET, id: 'studio-3' }]) });
+    expect(Environments.load().map(p => p.id)).toEqual(['studio-1', 'studio-3']);
+  });
+
+  it('keeps a preset with a blank setting but never picks it', () => {
+    stubStorage({ 'ucc:environments': JSON.stringify([{ ...PRESET, setting: '' }]) });
+    const presets = Environments.load();
+    expect(presets).toEqual([{ ...PRESET, setting: '' }]);
+    expect(Environments.isUsable(presets[0])).toBe(false);
+  });
+
+  it('falls back to defaults only when the stored value is not a list', () => {
+    stubStorage({ 'ucc:environments': JSON.stringify({ presets: [PRESET] }) });
+    expect(Environments.load()).toEqual(Environments.defaults());
+  });
+});
@@ -0,0 +1,80 @@
+import { DEFAULT_ENVIRONMENTS, ENVIRONMENT_CATEGORIES } from "../constants";
+import { DatasetPose, EnvironmentCategory, EnvironmentPreset, EnvironmentSettings } from "../types";
+import { SeededRandom } from "./random";
+import { Validation } from "./validation";
+
+const STORAGE_KEY = 'ucc:environments';
+
+export class Environments {
+  static defaults(): EnvironmentPreset[] {
+    return DEFAULT_ENVIRONMENTS.map(preset => ({ ...preset }));
+  }
+
+  static load(): EnvironmentPreset[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.defaults();
+      const presets = JSON.parse(raw);
+      if (!Array.isArray(presets)) throw new Error("Stored environments are not an array.");
+      return Validation.keepValid(presets, (preset, i) => this.validatePreset(preset, i), 'environment');
+    } catch (err) {
+      console.error("Environment restore failed, falling back to defaults", err);
+      return this.defaults();
+    }
+  }
+
+  // A preset saved mid-edit can have a blank setting; isUsable keeps it out of every draw rather than rejecting it here
+  static validatePreset(preset: unknown, index: number): EnvironmentPreset {
+    const where = `Environment #${index + 1}`;
+    const { id, name, category, setting, lighting, caption, weight } = Validation.fields(preset, where);
+    if (typeof id !== 'string' || !id.trim()) throw new Error(`${where} is missing "id".`);
+    if (typeof name !== 'string') throw new Error(`${where} is missing "name".`);
+    if (!ENVIRONMENT_CATEGORIES.some(c => c.id === category)) throw new Error(`${where} has unknown category "${category}".`);
+    if (typeof setting !== 'string') throw new Error(`${where} is missing "setting".`);
+    if (typeof lighting !== 'string') throw new Error(`${where} is missing "lighting".`);
+    if (typeof caption !== 'string') throw new Error(`${where} is missing "caption".`);
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) throw new Error(`${where} has no numeric "weight".`);
+    return { id, name, category: category as EnvironmentCategory, setting, lighting, caption, weight };
+  }
+
+  static save(presets: EnvironmentPreset[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  }
+
+  static reset(): EnvironmentPreset[] {
+    localStorage.removeItem(STORAGE_KEY);
+    return this.defaults();
+  }
+
+  static nextId(presets: EnvironmentPreset[], category: EnvironmentPreset['category']): string {
+    let n = 1;
+    while (presets.some(p => p.id === `${category}-${n}`)) n++;
+    return `${category}-${n}`;
+  }
+
+  static isUsable(preset: EnvironmentPreset | undefined): preset is EnvironmentPreset {
+    return !!preset && !!preset.setting.trim();
+  }
+
+  /**
+   * Resolves the environment for a pose. A pose assignment wins, then the project's fixed preset;
+   * in weighted mode every frame draws from the presets with a positive weight.
+   */
+  static pick(presets: EnvironmentPreset[], settings: EnvironmentSettings, pose: DatasetPose, random: () => number = Math.random): EnvironmentPreset | null {
+    const assigned = presets.find(p => p.id === settings.poseAssignments[pose.id]);
+    if (this.isUsable(assigned)) return assigned;
+
+    if (settings.mode === 'fixed') {
+      const fixed = presets.find(p => p.id === settings.presetId);
+      return this.isUsable(fixed) ? fixed : null;
+    }
+
+    const preset = SeededRandom.pickWeighted(presets.filter(p => p.weight > 0 && this.isUsable(p)), random);
+    if (!preset) throw new Error("No environment presets have a weight above zero. Raise a weight or switch to a fixed environment.");
+    return preset;
+  }
+
+  static describe(preset: EnvironmentPreset): string {
+    return preset.lighting.trim() ? `${preset.setting.trim()}. LIGHTING: ${preset.lighting.trim()}` : preset.setting.trim();
+  }
+}
@@ -1,29 +1,70 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { MODELS } from "../constants";
-import { Resolution } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { MODELS, PROFILE_FIELDS, REFERENCE_ANGLE_OPTIONS } from "../constants";
+import { AspectRatio, ImageEditRequest, ImageResult, ReferenceImage, Resolution, VerificationRequest } from "../types";
 
 export class GeminiService {
   private static getClient(apiKey: string) {
     return new GoogleGenAI({ apiKey: apiKey });
   }
 
-  static async analyzeCharacter(apiKey: string, imageBase64: string): Promise<string> {
+  private static toInlineData(dataUrl: string) {
+    const mimeType = dataUrl.match(/^data:([^;]+);base64,/)?.[1] || 'image/png';
+    const data = dataUrl.includes('base64,') ? dataUrl.split('base64,')[1] : dataUrl;
+    return { inlineData: { mimeType, data } };
+  }
+
+  // A single reference is sent bare, as before; several are each preceded by their angle (and character, in scenes) so the model can tell them apart.
+  private static referenceParts(references: ReferenceImage[]) {
+    if (references.length === 1 && !references[0].subject) return [this.toInlineData(references[0].url)];
+    return references.flatMap((ref, i) => [
+      { text: `REFERENCE ${i + 1} (${REFERENCE_ANGLE_OPTIONS.find(o => o.id === ref.angle)?.label || ref.angle} view of ${ref.subject ?? 'the same character'}):` },
+      this.toInlineData(ref.url)
+    ]);
+  }
+
+  private static imageFromResponse(response: GenerateContentResponse): ImageResult {
+    if (!response.candidates || response.candidates.length === 0) {
+      throw new Error("The model did not return any candidates.");
+    }
+
+    const candidate = response.candidates[0];
+    const parts = candidate.content?.parts;
+    if (!parts || parts.length === 0) {
+      throw new Error("Generation blocked by safety filters or empty response.");
+    }
+
+    for (const part of parts) {
+      if (part.inlineData) {
+        return { url: `data:image/png;base64,${part.inlineData.data}`, usage: this.usage(response) };
+      }
+    }
+
+    throw new Error("No image data found in the response parts.");
+  }
+
+  private static usage(response: GenerateContentResponse): ImageResult['usage'] {
+    const meta = response.usageMetadata;
+    if (!meta) return undefined;
+    const input = meta.promptTokenCount ?? 0;
+    const output = meta.candidatesTokenCount ?? 0;
+    return { input, output, total: meta.totalTokenCount ?? input + output };
+  }
+
+  static async analyzeCharacter(apiKey: string, references: ReferenceImage[]): Promise<unknown> {
     const ai = this.getClient(apiKey);
+    const mergeNote = references.length > 1
+      ? `These ${references.length} images show the SAME person from different angles. Merge them into ONE profile: take face details from the front and 3/4 views, hair length and back styling from profile and rear views, and body build from full-body views. Where views disagree, prefer the clearest view.`
+      : "";
     
     try {
       const response = await ai.models.generateContent({
         model: MODELS.ANALYSIS,
         contents: {
           parts: [
+            ...this.referenceParts(references),
             {
-              inlineData: {
-                mimeType: 'image/png',
-                data: imageBase64,
-              },
-            },
-            {
-              text: `Analyze the character identity in this image for a LoRA training dataset. 
+              text: `Analyze the character identity in ${references.length > 1 ? 'these images' : 'this image'} for a LoRA training dataset. ${mergeNote}
               EXCLUDE POSE AND ENVIRONMENT. Use strictly technical, literal language.
               
               CRITICAL: DO NOT hallucinate minor skin marks, moles, freckles, or temporary blemishes unless they are extremely prominent and defining permanent character features. Focus on clear, repeatable traits.
@@ -33,13 +74,74 @@ export class GeminiService {
               2. Hair: BE PRECISE about length relative to body (e.g., 'bottom of ears', 'touching shoulders', 'mid-back'). Describe texture (straight, wavy, curly), and exact base color + highlights.
               3. Body build: Describe shoulder width, waist ratio, and limb tone.
               
-              Respond with a factual identity profile. Formatting: HAIR: [details]. FACE: [details]. BODY: [details].`
+              Respond with a factual identity profile as JSON. Each field is a short literal phrase; use an empty string when a trait is not visible.
+              distinguishingMarks: only prominent permanent marks (scars, tattoos, birthmarks). notes: apparent age range and anything identity-defining not covered above.`
+            }
+          ]
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(PROFILE_FIELDS.map(f => [f.id, { type: Type.STRING }])),
+            required: PROFILE_FIELDS.map(f => f.id)
+          }
+        }
+      });
+
+      return JSON.parse(response.text || "{}");
+    } catch (error: any) {
+      if (error.message?.includes("Requested entity was not found")) {
+        throw new Error("API_KEY_EXPIRED");
+      }
+      throw error;
+    }
+  }
+
+  static async verifyFrame(apiKey: string, request: VerificationRequest): Promise<unknown> {
+    const ai = this.getClient(apiKey);
+
+    try {
+      const response = await ai.models.generateContent({
+        model: MODELS.ANALYSIS,
+        contents: {
+          parts: [
+            ...this.referenceParts(request.references),
+            { text: "CANDIDATE FRAME:" },
+            this.toInlineData(request.image),
+            {
+              text: `You are auditing a LoRA training dataset. Compare the CANDIDATE FRAME against the reference image(s) of the character.
+              Character profile: ${request.profile || "not provided"}
+              Intended pose: ${request.poseDescription}
+
+              Score each identity aspect from 0 (different person) to 100 (indistinguishable):
+              - face: facial structure, eye shape, lips, skin tone. Judge the visible part only for profile and rear views.
+              - hair: color, length and texture.
+              - body: build and proportions. Return null when the body is not visible (e.g. tight headshots).
+              Ignore clothing, expression, lighting and background.
+
+              poseMatch: true only if the frame actually shows the intended pose and camera orientation (e.g. a requested 90-degree left profile must not be frontal or angled).
+              poseNote: one short sentence describing any pose or orientation mismatch, empty when it matches.`
             }
           ]
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              face: { type: Type.NUMBER },
+              hair: { type: Type.NUMBER },
+              body: { type: Type.NUMBER, nullable: true },
+              poseMatch: { type: Type.BOOLEAN },
+              poseNote: { type: Type.STRING }
+            },
+            required: ['face', 'hair', 'body', 'poseMatch', 'poseNote']
+          }
         }
       });
 
-      return response.text || "A detailed character profile.";
+      return JSON.parse(response.text || "{}");
     } catch (error: any) {
       if (error.message?.includes("Requested entity was not found")) {
         throw new Error("API_KEY_EXPIRED");
@@ -50,28 +152,19 @@ export class GeminiService {
 
   static async generateCharacterImage(
     apiKey: string,
-    imageBase64: string,
+    references: ReferenceImage[],
     prompt: string,
     resolution: Resolution = '1K',
-    aspectRatio: "1:1" | "3:4" | "4:3" | "9:16" | "16:9" = "1:1"
-  ): Promise<string> {
+    aspectRatio: AspectRatio = "1:1"
+  ): Promise<ImageResult> {
     const ai = this.getClient(apiKey);
     
     try {
-      const cleanBase64 = imageBase64.includes('base64,') 
-        ? imageBase64.split('base64,')[1] 
-        : imageBase64;
-
       const response = await ai.models.generateContent({
         model: MODELS.IMAGE,
         contents: {
           parts: [
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: cleanBase64,
-              },
-            },
+            ...this.referenceParts(references),
             {
               text: prompt
             },
@@ -85,23 +178,46 @@ export class GeminiService {
         },
       });
 
-      if (!response.candidates || response.candidates.length === 0) {
-        throw new Error("The model did not return any candidates.");
+      return this.imageFromResponse(response);
+    } catch (error: any) {
+      if (error.message?.includes("Requested entity was not found")) {
+        throw new Error("API_KEY_EXPIRED");
       }
+      throw error;
+    }
+  }
 
-      const candidate = response.candidates[0];
-      const parts = candidate.content?.parts;
-      if (!parts || parts.length === 0) {
-        throw new Error("Generation blocked by safety filters or empty response.");
-      }
+  static async editImage(apiKey: string, request: ImageEditRequest): Promise<ImageResult> {
+    const ai = this.getClient(apiKey);
+    const scope = request.mask
+      ? "Change ONLY the white area of the EDIT MASK; every pixel outside it must stay as it is."
+      : "Change only what the instruction asks for.";
 
-      for (const part of parts) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
+    try {
+      const response = await ai.models.generateContent({
+        model: MODELS.IMAGE,
+        contents: {
+          parts: [
+            ...this.referenceParts(request.references),
+            { text: "FRAME TO EDIT:" },
+            this.toInlineData(request.image),
+            ...(request.mask ? [{ text: "EDIT MASK (white = region to change, black = keep):" }, this.toInlineData(request.mask)] : []),
+            {
+              text: `Edit the FRAME TO EDIT. EDIT INSTRUCTION: ${request.instruction}
+              ${scope} Keep the character's identity consistent with the reference image(s), and keep the pose, framing, clothing, lighting and background otherwise identical.
+              Return the full edited frame at the same composition.`
+            }
+          ]
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: request.aspectRatio,
+            imageSize: request.resolution
+          },
+        },
+      });
 
-      throw new Error("No image data found in the response parts.");
+      return this.imageFromResponse(response);
     } catch (error: any) {
       if (error.message?.includes("Requested entity was not found")) {
         throw new Error("API_KEY_EXPIRED");
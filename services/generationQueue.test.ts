@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationQueue, QueueJob } from './generationQueue';
+import { QueueSettings } from '../types';
+
+const SETTINGS: QueueSettings = { concurrency: 1, requestsPerMinute: 0, maxRetries: 2, baseDelayMs: 1000 };
+
+const job = (id: string, execute: (attempt: number) => Promise<string>, log: string[]): QueueJob<string> => ({
+  id,
+  execute,
+  onSuccess: (result, attempt) => log.push(`ok:${id}:${result}:${attempt}`),
+  onFailure: (error) => log.push(`fail:${id}:${error.message}`)
+});
+
+describe('GenerationQueue error classification', () => {
+  it('retries rate limits, server errors and transient API states', () => {
+    expect(GenerationQueue.isRetryable({ status: 429 })).toBe(true);
+    expect(GenerationQueue.isRetryable({ status: 503 })).toBe(true);
+    expect(GenerationQueue.isRetryable(new Error("Request failed with 500"))).toBe(true);
+    expect(GenerationQueue.isRetryable(new Error("RESOURCE_EXHAUSTED: quota"))).toBe(true);
+    expect(GenerationQueue.isRetryable(new Error("The model is overloaded"))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(GenerationQueue.isRetryable({ status: 400 })).toBe(false);
+    expect(GenerationQueue.isRetryable(new Error("Generation blocked by safety filters"))).toBe(false);
+  });
+
+  it('treats an expired key and 401 as fatal', () => {
+    expect(GenerationQueue.isFatal(new Error("API_KEY_EXPIRED"))).toBe(true);
+    expect(GenerationQueue.isFatal(new Error("401 Unauthorized"))).toBe(true);
+    expect(GenerationQueue.isFatal(new Error("403 Forbidden"))).toBe(false);
+  });
+});
+
+describe('GenerationQueue.backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles per attempt with jitter in the upper half', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(GenerationQueue.backoffDelay(1, 1000)).toBe(500);
+    expect(GenerationQueue.backoffDelay(3, 1000)).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(GenerationQueue.backoffDelay(3, 1000)).toBe(4000);
+  });
+
+  it('caps the delay at one minute', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(GenerationQueue.backoffDelay(20, 1000)).toBe(60_000);
+  });
+});
+
+describe('GenerationQueue.run', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries a retryable error after the backoff delay', async () => {
+    const log: string[] = [];
+    const retries: number[] = [];
+    const execute = vi.fn(async (attempt: number) => {
+      if (attempt === 1) throw { status: 429, message: "429 Too Many Requests" };
+      return 'frame';
+    });
+    const run = GenerationQueue.run([job('a', execute, log)], SETTINGS, {
+      isAborted: () => false,
+      onRetry: (_id, _attempt, delay) => retries.push(delay)
+    });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await run;
+    expect(retries).toEqual([500]);
+    expect(log).toEqual(['ok:a:frame:2']);
+  });
+
+  it('fails a job once its retries are used up', async () => {
+    const log: string[] = [];
+    const execute = vi.fn(async () => { throw new Error("503 Service Unavailable"); });
+    const run = GenerationQueue.run([job('a', execute, log)], SETTINGS, { isAborted: () => false });
+
+    await vi.runAllTimersAsync();
+    await run;
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(log).toEqual(['fail:a:503 Service Unavailable']);
+  });
+
+  it('fails a non-retryable error without waiting', async () => {
+    const log: string[] = [];
+    const run = GenerationQueue.run([job('a', async () => { throw new Error("bad prompt"); }, log)], SETTINGS, { isAborted: () => false });
+
+    await run;
+    expect(log).toEqual(['fail:a:bad prompt']);
+  });
+
+  it('halts every worker on a fatal error', async () => {
+    const log: string[] = [];
+    const onFatal = vi.fn();
+    const jobs = [
+      job('a', async () => { throw new Error("API_KEY_EXPIRED"); }, log),
+      job('b', async () => 'frame', log)
+    ];
+
+    await GenerationQueue.run(jobs, SETTINGS, { isAborted: () => false, onFatal });
+    expect(onFatal).toHaveBeenCalledTimes(1);
+    expect(log).toEqual([]);
+  });
+
+  it('does not treat an error thrown by onSuccess as a failed request', async () => {
+    const counts: number[] = [];
+    const execute = vi.fn(async () => 'frame');
+    const onFailure = vi.fn();
+    const run = GenerationQueue.run([{ id: 'a', execute, onSuccess: () => { throw new Error("render bug"); }, onFailure }], SETTINGS, {
+      isAborted: () => false,
+      onActiveChange: (active) => counts.push(active)
+    });
+
+    await expect(run).rejects.toThrow("render bug");
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(onFailure).not.toHaveBeenCalled();
+    expect(counts).toEqual([1, 0]);
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    const log: string[] = [];
+    const peaks: number[] = [];
+    const slow = (id: string) => job(id, () => new Promise(resolve => setTimeout(() => resolve(id), 100)), log);
+    const run = GenerationQueue.run([slow('a'), slow('b'), slow('c')], { ...SETTINGS, concurrency: 2 }, {
+      isAborted: () => false,
+      onActiveChange: (active) => peaks.push(active)
+    });
+
+    await vi.runAllTimersAsync();
+    await run;
+    expect(Math.max(...peaks)).toBe(2);
+    expect(log).toHaveLength(3);
+  });
+
+  it('holds starts past the per-minute limit until the window rolls over', async () => {
+    const log: string[] = [];
+    const started: number[] = [];
+    const instant = (id: string) => job(id, async () => { started.push(Date.now()); return id; }, log);
+    const begin = Date.now();
+    const run = GenerationQueue.run([instant('a'), instant('b'), instant('c')], { ...SETTINGS, concurrency: 3, requestsPerMinute: 2 }, {
+      isAborted: () => false
+    });
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await run;
+    expect(started.map(t => t - begin)).toEqual([0, 0, 60_000]);
+  });
+
+  it('stops waiting out a backoff once aborted and fails the job', async () => {
+    const log: string[] = [];
+    let aborted = false;
+    const execute = vi.fn(async () => { throw { status: 429, message: "429" }; });
+    const run = GenerationQueue.run([job('a', execute, log), job('b', async () => 'frame', log)], SETTINGS, {
+      isAborted: () => aborted
+    });
+
+    await vi.advanceTimersByTimeAsync(250);
+    aborted = true;
+    await vi.advanceTimersByTimeAsync(250);
+    await run;
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(log).toEqual(['fail:a:429']);
+  });
+});
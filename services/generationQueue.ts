@@ -0,0 +1,124 @@
+import { QueueSettings } from "../types";
+
+export interface QueueJob<T> {
+  id: string;
+  execute: (attempt: number) => Promise<T>;
+  onSuccess: (result: T, attempt: number) => void;
+  onFailure: (error: any) => void;
+}
+
+export interface QueueHooks {
+  isAborted: () => boolean;
+  onActiveChange?: (active: number) => void;
+  onRetry?: (jobId: string, attempt: number, delayMs: number, error: any) => void;
+  onFatal?: (error: any) => void;
+}
+
+const RATE_WINDOW_MS = 60_000;
+const ABORT_POLL_MS = 250;
+const MAX_BACKOFF_MS = 60_000;
+
+export class GenerationQueue {
+  // Sleeps in short slices so Stop Batch is honored while waiting out a backoff or rate-limit window.
+  private static async wait(ms: number, isAborted: () => boolean) {
+    const until = Date.now() + ms;
+    while (Date.now() < until) {
+      if (isAborted()) return;
+      await new Promise(resolve => setTimeout(resolve, Math.min(ABORT_POLL_MS, until - Date.now())));
+    }
+  }
+
+  private static statusOf(error: any): number | null {
+    if (typeof error?.status === 'number') return error.status;
+    const match = String(error?.message || '').match(/\b(429|5\d\d)\b/);
+    return match ? Number(match[1]) : null;
+  }
+
+  static isRetryable(error: any): boolean {
+    const status = this.statusOf(error);
+    if (status !== null && (status === 429 || status >= 500)) return true;
+    return /RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|overloaded|rate limit/i.test(String(error?.message || ''));
+  }
+
+  static isFatal(error: any): boolean {
+    const message = String(error?.message || '');
+    return message === "API_KEY_EXPIRED" || message.includes("401");
+  }
+
+  static backoffDelay(attempt: number, baseDelayMs: number): number {
+    const exponential = Math.min(MAX_BACKOFF_MS, baseDelayMs * 2 ** (attempt - 1));
+    // Equal jitter (half fixed, half random) keeps concurrent workers from retrying in lockstep after a shared 429.
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  /**
+   * Runs jobs with at most `concurrency` requests in flight and at most `requestsPerMinute` starts per minute.
+   * Retryable errors (429 / 5xx) are retried with exponential backoff; fatal auth errors halt the whole queue.
+   */
+  static async run<T>(jobs: QueueJob<T>[], settings: QueueSettings, hooks: QueueHooks): Promise<void> {
+    const pending = [...jobs];
+    const starts: number[] = [];
+    let active = 0;
+    let halted = false;
+
+    const stopped = () => halted || hooks.isAborted();
+
+    const acquireSlot = async () => {
+      while (!stopped()) {
+        const now = Date.now();
+        while (starts.length && now - starts[0] >= RATE_WINDOW_MS) starts.shift();
+        if (settings.requestsPerMinute <= 0 || starts.length < settings.requestsPerMinute) {
+          starts.push(now);
+          return true;
+        }
+        await this.wait(starts[0] + RATE_WINDOW_MS - now, stopped);
+      }
+      return false;
+    };
+
+    const setActive = (delta: number) => {
+      active += delta;
+      hooks.onActiveChange?.(active);
+    };
+
+    const worker = async () => {
+      while (pending.length && !stopped()) {
+        const job = pending.shift()!;
+        for (let attempt = 1; ; attempt++) {
+          if (!(await acquireSlot())) return;
+          setActive(1);
+          let result: T;
+          try {
+            result = await job.execute(attempt);
+          } catch (error: any) {
+            setActive(-1);
+            if (this.isFatal(error)) {
+              halted = true;
+              hooks.onFatal?.(error);
+              return;
+            }
+            if (attempt > settings.maxRetries || !this.isRetryable(error) || stopped()) {
+              job.onFailure(error);
+              break;
+            }
+            const delay = this.backoffDelay(attempt, settings.baseDelayMs);
+            hooks.onRetry?.(job.id, attempt, delay, error);
+            await this.wait(delay, stopped);
+            if (stopped()) {
+              job.onFailure(error);
+              return;
+            }
+            continue;
+          }
+          setActive(-1);
+          // Outside the try, so an error thrown by the callback is not counted as a failed request
+          job.onSuccess(result, attempt);
+          break;
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(settings.concurrency, jobs.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  }
+}
@@ -0,0 +1,76 @@
+import { IDENTITY_ATTRIBUTES } from "../constants";
+import { IdentityAttribute, IdentityLocks, IdentityVariations, ProfileField } from "../types";
+import { RandomSource, SeededRandom } from "./random";
+
+export class LockResolver {
+  static defaults(): IdentityLocks {
+    return Object.fromEntries(
+      IDENTITY_ATTRIBUTES.map(a => [a.id, { mode: 'keep', value: "" }])
+    ) as IdentityLocks;
+  }
+
+  /**
+   * Accepts both the current per-attribute shape and the old `{ hair, body }` booleans. The old eye color
+   * and body build adjustments always applied, so they come back as overrides.
+   */
+  static normalize(raw: any, legacyAdjustments?: any): IdentityLocks {
+    const locks = this.defaults();
+    if (!raw || typeof raw !== 'object') return locks;
+
+    if (typeof raw.hair === 'boolean' || typeof raw.body === 'boolean') {
+      if (legacyAdjustments?.eyeColor) locks.eyeColor = { mode: 'override', value: String(legacyAdjustments.eyeColor).toLowerCase() };
+      if (raw.body === false && legacyAdjustments?.bodyBuild) locks.build = { mode: 'override', value: String(legacyAdjustments.bodyBuild).toLowerCase() };
+      return locks;
+    }
+
+    for (const attr of IDENTITY_ATTRIBUTES) {
+      const lock = raw[attr.id];
+      if (lock && ['keep', 'override', 'vary'].includes(lock.mode)) {
+        locks[attr.id] = { mode: lock.mode, value: typeof lock.value === 'string' ? lock.value : "" };
+      }
+    }
+    return locks;
+  }
+
+  // Attributes are picked in a fixed order so a seeded stream always lands on the same values.
+  static pickVariations(locks: IdentityLocks, random: RandomSource): IdentityVariations {
+    const variations: IdentityVariations = {};
+    for (const attr of IDENTITY_ATTRIBUTES) {
+      if (locks[attr.id].mode === 'vary') variations[attr.id] = SeededRandom.pick(attr.options, random);
+    }
+    return variations;
+  }
+
+  // The concrete value each non-kept attribute takes in a frame. An override with no value counts as keep.
+  static applied(locks: IdentityLocks, variations: IdentityVariations = {}): IdentityVariations {
+    const applied: IdentityVariations = {};
+    for (const attr of IDENTITY_ATTRIBUTES) {
+      const lock = locks[attr.id];
+      const value = lock.mode === 'override' ? lock.value.trim() : lock.mode === 'vary' ? variations[attr.id] : undefined;
+      if (value) applied[attr.id] = value;
+    }
+    return applied;
+  }
+
+  static kept(applied: IdentityVariations): IdentityAttribute[] {
+    return IDENTITY_ATTRIBUTES.filter(a => !applied[a.id]).map(a => a.id);
+  }
+
+  static replacedProfileFields(applied: IdentityVariations): ProfileField[] {
+    return IDENTITY_ATTRIBUTES.filter(a => applied[a.id] && a.profileField).map(a => a.profileField!);
+  }
+
+  static label(attr: IdentityAttribute): string {
+    return IDENTITY_ATTRIBUTES.find(a => a.id === attr)?.label || attr;
+  }
+
+  // "green" -> "green eyes"; values that already name the noun are left alone
+  static phrase(attr: IdentityAttribute, value: string): string {
+    const noun = IDENTITY_ATTRIBUTES.find(a => a.id === attr)?.noun;
+    return noun && !value.toLowerCase().includes(noun) ? `${value} ${noun}` : value;
+  }
+
+  static isKept(locks: IdentityLocks, attrs: IdentityAttribute[]): boolean {
+    return attrs.every(a => locks[a].mode === 'keep' || (locks[a].mode === 'override' && !locks[a].value.trim()));
+  }
+}
@@ -0,0 +1,23 @@
+import { BatchManifest, GeneratedImage } from "../types";
+
+export const MANIFEST_VERSION = 1;
+
+export class ManifestService {
+  static newBatchId() {
+    return `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static create(fields: Omit<BatchManifest, 'version'>): BatchManifest {
+    return { version: MANIFEST_VERSION, ...fields };
+  }
+
+  // Only the batches that still have frames in the bin are worth shipping with an export.
+  static forImages(manifests: BatchManifest[], images: GeneratedImage[]): BatchManifest[] {
+    const batchIds = new Set(images.map(img => img.meta.batchId).filter(Boolean));
+    return manifests.filter(m => batchIds.has(m.id));
+  }
+
+  static toJson(projectName: string, manifests: BatchManifest[]): string {
+    return JSON.stringify({ project: projectName, exportedAt: Date.now(), batches: manifests }, null, 2);
+  }
+}
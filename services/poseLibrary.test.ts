@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PoseLibrary } from './poseLibrary';
+import { stubStorage } from './testFixtures';
+
+const POSE = { id: 'c1', label: 'Leaning', group: 'upper', description: 'leaning on a wall' };
+
+describe('PoseLibrary.load', () => {
+  beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => undefined));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('drops only the malformed and duplicate poses', () => {
+    stubStorage({ 'ucc:pose-library': JSON.stringify({ poses: [POSE, { ...POSE, id: 'c2', group: 'side' }, POSE, { ...POSE, id: 'c3' }] }) });
+    expect(PoseLibrary.load().map(p => p.id)).toEqual(['c1', 'c3']);
+  });
+
+  it('falls back to the built-ins when nothing is stored or the JSON is unreadable', () => {
+    stubStorage();
+    expect(PoseLibrary.load()).toEqual(PoseLibrary.defaults());
+    stubStorage({ 'ucc:pose-library': '{' });
+    expect(PoseLibrary.load()).toEqual(PoseLibrary.defaults());
+  });
+});
+
+describe('PoseLibrary.parsePack', () => {
+  it('rejects a whole pack with a bad pose, so an import never half-applies', () => {
+    expect(() => PoseLibrary.parsePack(JSON.stringify([POSE, { ...POSE, id: 'c2', aspectRatio: '5:1' }]))).toThrow('Pose #2 has unsupported aspect ratio "5:1".');
+  });
+
+  it('trims text fields and keeps optional overrides', () => {
+    const pack = PoseLibrary.parsePack(JSON.stringify({ name: 'Mine', poses: [{ ...POSE, label: ' Leaning ', orientation: 'angled-left', aspectRatio: '3:4' }] }));
+    expect(pack.poses[0]).toEqual({ ...POSE, orientation: 'angled-left', aspectRatio: '3:4' });
+  });
+});
@@ -0,0 +1,96 @@
+import { DATASET_GROUPS, POSE_DEFINITIONS, POSE_FACING_OPTIONS } from "../constants";
+import { DatasetGroup, DatasetPose, PoseFacing, PosePack } from "../types";
+import { Validation } from "./validation";
+
+const STORAGE_KEY = 'ucc:pose-library';
+const PACK_VERSION = 1;
+
+export class PoseLibrary {
+  static defaults(): DatasetPose[] {
+    return POSE_DEFINITIONS.map(p => ({ ...p }));
+  }
+
+  // Unlike a pack import, a bad stored pose only drops that pose
+  static load(): DatasetPose[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.defaults();
+      return Validation.keepValid(this.rawPoses(JSON.parse(raw)), (p, i) => this.validatePose(p, i), 'pose');
+    } catch (err) {
+      console.error("Pose library restore failed, falling back to built-ins", err);
+      return this.defaults();
+    }
+  }
+
+  static save(poses: DatasetPose[]) {
+    localStorage.setItem(STORAGE_KEY, this.exportPack('Local Library', poses));
+  }
+
+  static reset(): DatasetPose[] {
+    localStorage.removeItem(STORAGE_KEY);
+    return this.defaults();
+  }
+
+  static exportPack(name: string, poses: DatasetPose[]): string {
+    const pack: PosePack = { name, version: PACK_VERSION, poses };
+    return JSON.stringify(pack, null, 2);
+  }
+
+  static validatePose(pose: unknown, index: number): DatasetPose {
+    const where = `Pose #${index + 1}`;
+    const fields = Validation.fields(pose, where);
+    const { group, orientation, aspectRatio } = fields;
+    const clean: DatasetPose = {
+      id: Validation.text(fields, 'id', where),
+      label: Validation.text(fields, 'label', where),
+      group: group as DatasetGroup,
+      description: Validation.text(fields, 'description', where)
+    };
+
+    if (!DATASET_GROUPS.includes(group as DatasetGroup)) throw new Error(`${where} has unknown group "${group}".`);
+    if (orientation !== undefined && !POSE_FACING_OPTIONS.some(o => o.id === orientation)) {
+      throw new Error(`${where} has unknown orientation "${orientation}".`);
+    }
+
+    if (orientation) clean.orientation = orientation as PoseFacing;
+    if (aspectRatio !== undefined) clean.aspectRatio = Validation.aspectRatio(aspectRatio, where);
+    return clean;
+  }
+
+  // Accepts either a full pack or a bare array of poses.
+  private static rawPoses(data: any): unknown[] {
+    const rawPoses = Array.isArray(data) ? data : data?.poses;
+    if (!Array.isArray(rawPoses)) throw new Error("Pose pack must contain a \"poses\" array.");
+    return rawPoses;
+  }
+
+  static parsePack(json: string): PosePack {
+    const data = JSON.parse(json);
+    const poses = this.rawPoses(data).map((p, i) => this.validatePose(p, i));
+    const seen = new Set<string>();
+    for (const pose of poses) {
+      if (seen.has(pose.id)) throw new Error(`Duplicate pose id "${pose.id}".`);
+      seen.add(pose.id);
+    }
+
+    return {
+      name: typeof data?.name === 'string' ? data.name : 'Imported Pack',
+      version: typeof data?.version === 'number' ? data.version : PACK_VERSION,
+      poses
+    };
+  }
+
+  // Imported poses replace existing ones with the same id; new ids are appended.
+  static merge(current: DatasetPose[], incoming: DatasetPose[]): DatasetPose[] {
+    const incomingById = new Map(incoming.map(p => [p.id, p]));
+    const merged = current.map(p => incomingById.get(p.id) || p);
+    const existing = new Set(current.map(p => p.id));
+    return [...merged, ...incoming.filter(p => !existing.has(p.id))];
+  }
+
+  static nextId(poses: DatasetPose[]): string {
+    let n = 1;
+    while (poses.some(p => p.id === `c${n}`)) n++;
+    return `c${n}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { PostProcessor } from './postProcessor';
+
+const SQUARE = { width: 1024, height: 1024 };
+const PORTRAIT = { width: 832, height: 1216 };
+const LANDSCAPE = { width: 1216, height: 832 };
+
+describe('PostProcessor.bucketFor', () => {
+  it('picks the bucket with the nearest aspect ratio', () => {
+    expect(PostProcessor.bucketFor([SQUARE, PORTRAIT, LANDSCAPE], 900, 1400)).toBe(PORTRAIT);
+    expect(PostProcessor.bucketFor([SQUARE, PORTRAIT, LANDSCAPE], 1400, 900)).toBe(LANDSCAPE);
+    expect(PostProcessor.bucketFor([SQUARE, PORTRAIT, LANDSCAPE], 1000, 1000)).toBe(SQUARE);
+  });
+
+  it('compares aspect ratios on a log scale', () => {
+    // A plain ratio difference would call 1:2 (0.5 off) nearer to square than 9:5 (0.8 off)
+    const wide = { width: 1800, height: 1000 };
+    expect(PostProcessor.bucketFor([{ width: 500, height: 1000 }, wide], 1000, 1000)).toBe(wide);
+  });
+
+  it('skips degenerate buckets and returns null when none are usable', () => {
+    expect(PostProcessor.bucketFor([{ width: 0, height: 512 }, SQUARE], 512, 512)).toBe(SQUARE);
+    expect(PostProcessor.bucketFor([{ width: 0, height: 0 }], 512, 512)).toBeNull();
+  });
+});
+
+describe('PostProcessor.cropRect', () => {
+  it('trims the width of a wide source around the focus point', () => {
+    expect(PostProcessor.cropRect(2000, 1000, 1, { x: 1500, y: 500 })).toEqual({ x: 1000, y: 0, width: 1000, height: 1000 });
+  });
+
+  it('trims the height of a tall source, placing the focus at the anchor', () => {
+    expect(PostProcessor.cropRect(1000, 2000, 1, { x: 500, y: 1000 }, 0.4)).toEqual({ x: 0, y: 600, width: 1000, height: 1000 });
+  });
+
+  it('clamps the window to the image edges', () => {
+    expect(PostProcessor.cropRect(2000, 1000, 1, { x: 0, y: 0 })).toEqual({ x: 0, y: 0, width: 1000, height: 1000 });
+    expect(PostProcessor.cropRect(1000, 2000, 1, { x: 500, y: 2000 })).toEqual({ x: 0, y: 1000, width: 1000, height: 1000 });
+  });
+});
+
+describe('PostProcessor.distance', () => {
+  it('counts differing bits between two hashes', () => {
+    expect(PostProcessor.distance('0000', '0000')).toBe(0);
+    expect(PostProcessor.distance('000f', '0000')).toBe(4);
+    expect(PostProcessor.distance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(PostProcessor.distance('a5', '5a')).toBe(8);
+  });
+});
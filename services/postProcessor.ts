@@ -0,0 +1,192 @@
+import { CropMode, DatasetGroup, GeneratedImage, PostProcessSettings, TrainingBucket } from "../types";
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedFrame {
+  canvas: HTMLCanvasElement;
+  bucket: TrainingBucket | null;
+  crop: CropRect;
+  // False when face-aware crop had to fall back to the framing heuristic
+  faceDetected: boolean;
+}
+
+// The Shape Detection API is only exposed by some Chromium builds, so it is typed locally and probed at runtime
+interface FaceDetectorLike {
+  detect(image: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+// dHash samples a 9x8 grayscale thumbnail: 8 comparisons per row, 64 bits total
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Hashes are 16 characters, so this keeps the cache small while covering a large bin
+const MAX_CACHED_HASHES = 2000;
+
+export class PostProcessor {
+  private static hashCache = new Map<string, string>();
+  private static detector: FaceDetectorLike | null | undefined;
+
+  private static loadImage(url: string) {
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not decode a frame for post-processing."));
+      img.src = url;
+    });
+  }
+
+  // Nearest bucket by aspect ratio, compared on a log scale so 2:3 and 3:2 are equally far from 1:1
+  static bucketFor(buckets: TrainingBucket[], width: number, height: number): TrainingBucket | null {
+    const aspect = Math.log(width / height);
+    let best: TrainingBucket | null = null;
+    for (const bucket of buckets) {
+      if (bucket.width <= 0 || bucket.height <= 0) continue;
+      if (!best || Math.abs(Math.log(bucket.width / bucket.height) - aspect) < Math.abs(Math.log(best.width / best.height) - aspect)) {
+        best = bucket;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Largest window of the target aspect ratio that fits the source, placed so the focus point
+   * sits at `anchorY` of the window height (0.5 centers it) and clamped to the image edges.
+   */
+  static cropRect(width: number, height: number, aspect: number, focus: { x: number; y: number }, anchorY = 0.5): CropRect {
+    const clamp = (value: number, max: number) => Math.min(Math.max(0, value), max);
+    if (width / height > aspect) {
+      const cropWidth = Math.round(height * aspect);
+      return { x: Math.round(clamp(focus.x - cropWidth / 2, width - cropWidth)), y: 0, width: cropWidth, height };
+    }
+    const cropHeight = Math.round(width / aspect);
+    return { x: 0, y: Math.round(clamp(focus.y - cropHeight * anchorY, height - cropHeight)), width, height: cropHeight };
+  }
+
+  private static async detectFace(img: HTMLImageElement): Promise<DOMRectReadOnly | null> {
+    if (this.detector === undefined) {
+      const Detector = (window as Window & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+      this.detector = Detector ? new Detector({ fastMode: true, maxDetectedFaces: 1 }) : null;
+    }
+    if (!this.detector) return null;
+    try {
+      const faces = await this.detector.detect(img);
+      return faces[0]?.boundingBox ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Where the crop should center. Face-aware mode uses the browser face detector when there is one;
+   * otherwise it assumes the head sits in the upper quarter of upper-body and full-body frames.
+   */
+  private static async focus(img: HTMLImageElement, group: DatasetGroup, mode: CropMode) {
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    if (mode === 'center') return { point: { x: width / 2, y: height / 2 }, anchorY: 0.5, faceDetected: false };
+    const face = await this.detectFace(img);
+    if (face) return { point: { x: face.x + face.width / 2, y: face.y + face.height / 2 }, anchorY: 0.4, faceDetected: true };
+    return { point: { x: width / 2, y: group === 'portrait' ? height / 2 : height * 0.25 }, anchorY: group === 'portrait' ? 0.5 : 0.3, faceDetected: false };
+  }
+
+  // Crops to the nearest bucket's aspect ratio, then scales to its exact size
+  static async render(url: string, settings: PostProcessSettings, group: DatasetGroup): Promise<ProcessedFrame> {
+    const img = await this.loadImage(url);
+    const bucket = this.bucketFor(settings.buckets, img.naturalWidth, img.naturalHeight);
+    const { point, anchorY, faceDetected } = await this.focus(img, group, settings.crop);
+    const crop = bucket
+      ? this.cropRect(img.naturalWidth, img.naturalHeight, bucket.width / bucket.height, point, anchorY)
+      : { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bucket?.width ?? crop.width;
+    canvas.height = bucket?.height ?? crop.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable for post-processing.");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    return { canvas, bucket, crop, faceDetected };
+  }
+
+  // 64-bit difference hash as 16 hex digits; cached per frame id (a frame's pixels never change) so repeated exports stay cheap
+  static async hash(image: GeneratedImage): Promise<string> {
+    const cached = this.hashCache.get(image.id);
+    if (cached) return cached;
+
+    const img = await this.loadImage(image.url);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable for hashing.");
+    ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x += 4) {
+        let nibble = 0;
+        for (let b = 0; b < 4; b++) nibble = (nibble << 1) | (gray(x + b, y) > gray(x + b + 1, y) ? 1 : 0);
+        hex += nibble.toString(16);
+      }
+    }
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.hashCache.size >= MAX_CACHED_HASHES) this.hashCache.delete(this.hashCache.keys().next().value!);
+    this.hashCache.set(image.id, hex);
+    return hex;
+  }
+
+  static distance(a: string, b: string): number {
+    let bits = 0;
+    for (let i = 0; i < a.length; i++) {
+      let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+      while (x) {
+        bits += x & 1;
+        x >>= 1;
+      }
+    }
+    return bits;
+  }
+
+  /**
+   * Maps each near-duplicate frame id to the frame it duplicates. Higher identity scores are kept
+   * first; unscored frames keep their bin order.
+   */
+  static async duplicates(images: GeneratedImage[], threshold: number): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    for (const img of images) hashes.set(img.id, await this.hash(img));
+
+    const ranked = images
+      .map((img, index) => ({ img, index }))
+      .sort((a, b) => (b.img.score?.overall ?? -1) - (a.img.score?.overall ?? -1) || a.index - b.index)
+      .map(entry => entry.img);
+
+    const kept: GeneratedImage[] = [];
+    const duplicateOf = new Map<string, string>();
+    for (const img of ranked) {
+      const match = kept.find(k => this.distance(hashes.get(k.id)!, hashes.get(img.id)!) <= threshold);
+      if (match) duplicateOf.set(img.id, match.id);
+      else kept.push(img);
+    }
+    return duplicateOf;
+  }
+
+  // Frames within the threshold of `image`, for flagging a duplicate before export
+  static async similar(image: GeneratedImage, images: GeneratedImage[], threshold: number): Promise<GeneratedImage[]> {
+    const target = await this.hash(image);
+    const matches: GeneratedImage[] = [];
+    for (const img of images) {
+      if (img.id !== image.id && this.distance(target, await this.hash(img)) <= threshold) matches.push(img);
+    }
+    return matches;
+  }
+}
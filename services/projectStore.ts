@@ -0,0 +1,161 @@
+import { DEFAULT_ADJUSTMENTS, DEFAULT_BALANCE_PLAN, DEFAULT_ENVIRONMENT_SETTINGS, DEFAULT_CAPTION_SETTINGS, DEFAULT_EXPORT_SETTINGS, DEFAULT_POST_PROCESS_SETTINGS, DEFAULT_VERIFICATION_SETTINGS, DEFAULT_WARDROBE_FILTER } from "../constants";
+import { ProjectRecord, ProjectSnapshot, ProjectSummary } from "../types";
+import { ProfileService } from "./characterProfile";
+import { LockResolver } from "./identityLocks";
+
+const DB_NAME = 'ultimate-lora-studio';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+// Summaries live in their own store so listing projects never loads the base64 image payloads.
+const SUMMARIES_STORE = 'summaries';
+
+// Older projects stored a single `sourceImage` data URL, free-text profiles and `{ hair, body }` lock booleans.
+type LegacyProjectRecord = Omit<ProjectRecord, 'characterProfile' | 'manualCharacterProfile'> & {
+  sourceImage?: string | null;
+  characterProfile: ProjectRecord['characterProfile'] | string;
+  manualCharacterProfile: ProjectRecord['manualCharacterProfile'] | string;
+};
+
+export class ProjectStore {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static wrap<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private static newId() {
+    return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private static summarize(record: ProjectRecord): ProjectSummary {
+    return {
+      id: record.id,
+      name: record.name,
+      frameCount: record.gallery.length,
+      hasReference: record.references.length > 0,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+
+  private static upgrade(record: LegacyProjectRecord): ProjectRecord {
+    const { sourceImage, characterProfile, manualCharacterProfile, ...rest } = record;
+    return {
+      ...rest,
+      references: rest.references ?? (sourceImage ? [{ id: `ref-${record.id}-legacy`, url: sourceImage, angle: 'front' }] : []),
+      characterProfile: typeof characterProfile === 'string' ? ProfileService.fromText(characterProfile) : characterProfile,
+      locks: LockResolver.normalize(rest.locks, rest.adjustments),
+      manualCharacterProfile: typeof manualCharacterProfile === 'string'
+        ? ProfileService.fromText(manualCharacterProfile) || ProfileService.empty()
+        : manualCharacterProfile
+    };
+  }
+
+  private static async put(record: ProjectRecord): Promise<ProjectRecord> {
+    const db = await this.open();
+    const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).put(record);
+    tx.objectStore(SUMMARIES_STORE).put(this.summarize(record));
+    await this.done(tx);
+    return record;
+  }
+
+  static createSnapshot(name: string): ProjectSnapshot {
+    return {
+      name,
+      references: [],
+      characterProfile: null,
+      manualCharacterProfile: ProfileService.empty(),
+      profileMode: 'auto',
+      adjustments: { ...DEFAULT_ADJUSTMENTS },
+      locks: LockResolver.defaults(),
+      captionSettings: { ...DEFAULT_CAPTION_SETTINGS, omitFields: [] },
+      exportSettings: { ...DEFAULT_EXPORT_SETTINGS },
+      postProcess: { ...DEFAULT_POST_PROCESS_SETTINGS, buckets: DEFAULT_POST_PROCESS_SETTINGS.buckets.map(b => ({ ...b })) },
+      wardrobeFilter: { ...DEFAULT_WARDROBE_FILTER },
+      environment: { ...DEFAULT_ENVIRONMENT_SETTINGS, poseAssignments: {} },
+      verification: { ...DEFAULT_VERIFICATION_SETTINGS },
+      manifests: [],
+      balancePlan: { ...DEFAULT_BALANCE_PLAN, groups: { ...DEFAULT_BALANCE_PLAN.groups }, angles: { ...DEFAULT_BALANCE_PLAN.angles } },
+      gallery: [],
+      scenes: []
+    };
+  }
+
+  static async list(): Promise<ProjectSummary[]> {
+    const db = await this.open();
+    const summaries = await this.wrap<ProjectSummary[]>(
+      db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).getAll()
+    );
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  static async get(id: string): Promise<ProjectRecord | null> {
+    const db = await this.open();
+    const record = await this.wrap<LegacyProjectRecord | undefined>(
+      db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(id)
+    );
+    return record ? this.upgrade(record) : null;
+  }
+
+  static async create(snapshot: ProjectSnapshot): Promise<ProjectRecord> {
+    const now = Date.now();
+    return this.put({ ...snapshot, id: this.newId(), createdAt: now, updatedAt: now });
+  }
+
+  static async save(id: string, snapshot: ProjectSnapshot): Promise<ProjectRecord> {
+    const existing = await this.get(id);
+    return this.put({ ...snapshot, id, createdAt: existing?.createdAt ?? Date.now(), updatedAt: Date.now() });
+  }
+
+  static async duplicate(id: string): Promise<ProjectRecord> {
+    const existing = await this.get(id);
+    if (!existing) throw new Error(`Project ${id} not found.`);
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...snapshot } = existing;
+    return this.create({ ...snapshot, name: `${existing.name}_Copy` });
+  }
+
+  static async rename(id: string, name: string): Promise<ProjectRecord> {
+    const existing = await this.get(id);
+    if (!existing) throw new Error(`Project ${id} not found.`);
+    return this.put({ ...existing, name, updatedAt: Date.now() });
+  }
+
+  static async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    await this.done(tx);
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import { POSE_DEFINITIONS, DEFAULT_ADJUSTMENTS } from '../constants';
+import { PromptBuilder } from './promptBuilder';
+import { ProfileService } from './characterProfile';
+import { LockResolver } from './identityLocks';
+import { CharacterProfile, IdentityAttribute, IdentityLocks, LockMode } from '../types';
+
+const HEADER = "CRITICAL: SHOT ORIENTATION — ";
+const FOOTER = "ABSOLUTELY NO FULL FRONTAL FACE. DO NOT TURN SUBJECT TOWARD CAMERA.";
+const OVER_SHOULDER = "Subject is looking back at the camera over their shoulder, but primary body orientation is maintained. ";
+const FRONTAL = "Direct frontal view. Subject looking straight into camera with both eyes fully visible and centered.";
+
+const REAR = "Rear view. Subject is facing away from camera. ";
+const REAR_LEFT = REAR + "Camera positioned behind and to the right — seeing back of head and left side only. ";
+const REAR_RIGHT = REAR + "Camera positioned behind and to the left — seeing back of head and right side only. ";
+const PROFILE_LEFT = "Strict 90-degree side profile. Facing screen-left. Only left profile visible. ";
+const PROFILE_RIGHT = "Strict 90-degree side profile. Facing screen-right. Only right profile visible. ";
+const ANGLED_LEFT = "Angled orientation. Subject facing screen-left. ";
+const ANGLED_RIGHT = "Angled orientation. Subject facing screen-right. ";
+
+const oriented = (body: string) => `${HEADER}${body}${FOOTER}`;
+
+// Pinned directional text for every built-in pose. A new pose must be added here deliberately.
+const EXPECTED_DIRECTION: Record<string, string> = {
+  p1: oriented(REAR_LEFT),
+  p2: oriented(PROFILE_LEFT),
+  p3: oriented(ANGLED_LEFT + OVER_SHOULDER),
+  p4: FRONTAL,
+  p5: oriented(ANGLED_RIGHT + OVER_SHOULDER),
+  p6: oriented(PROFILE_RIGHT),
+  p7: oriented(REAR_RIGHT),
+  p8: "",
+  p9: "",
+  p10: "",
+  p11: oriented(ANGLED_RIGHT + OVER_SHOULDER),
+  p12: "",
+  p13: oriented(ANGLED_LEFT),
+  p14: FRONTAL,
+  p15: "",
+  p16: "",
+  p17: "",
+  p18: FRONTAL,
+  p19: FRONTAL,
+  u1: FRONTAL,
+  u2: oriented(ANGLED_LEFT),
+  u3: oriented(ANGLED_RIGHT),
+  u4: "",
+  u5: oriented(PROFILE_LEFT),
+  u6: "",
+  u7: "",
+  u8: "",
+  u9: oriented(REAR),
+  u10: FRONTAL,
+  u11: "",
+  u12: "",
+  u13: "",
+  u14: oriented(ANGLED_LEFT),
+  u15: "",
+  u16: "",
+  u17: "",
+  u18: "",
+  u19: "",
+  f1: "",
+  f2: oriented(PROFILE_RIGHT),
+  f3: oriented(REAR),
+  f4: "",
+  f5: "",
+  f6: "",
+  f7: "",
+  f8: "",
+  f9: ""
+};
+
+const PROFILE: CharacterProfile = {
+  ...ProfileService.empty(),
+  hairLength: "touching shoulders",
+  hairTexture: "straight",
+  hairColor: "dark brown",
+  faceShape: "oval",
+  eyes: "almond",
+  build: "narrow waist, athletic"
+};
+const pose = (id: string) => POSE_DEFINITIONS.find(p => p.id === id)!;
+
+describe('PromptBuilder.buildDirectionMod', () => {
+  it('has a pinned expectation for every pose', () => {
+    expect(Object.keys(EXPECTED_DIRECTION).sort()).toEqual(POSE_DEFINITIONS.map(p => p.id).sort());
+  });
+
+  it.each(POSE_DEFINITIONS.map(p => [p.id, p] as const))('%s', (id, p) => {
+    expect(PromptBuilder.buildDirectionMod(p)).toBe(EXPECTED_DIRECTION[id]);
+  });
+
+  it('never places the camera on the same side as the visible cheek for rear poses', () => {
+    expect(PromptBuilder.buildDirectionMod(pose('p1'))).toContain('behind and to the right');
+    expect(PromptBuilder.buildDirectionMod(pose('p7'))).toContain('behind and to the left');
+  });
+});
+
+describe('PromptBuilder explicit pose fields', () => {
+  it('prefers an explicit orientation over keywords in the description', () => {
+    const custom = { ...pose('p4'), id: 'c1', orientation: 'profile-right' as const };
+    expect(PromptBuilder.buildDirectionMod(custom)).toBe(oriented(PROFILE_RIGHT));
+    expect(PromptBuilder.isSideProfile(custom)).toBe(true);
+  });
+
+  it('maps every facing to the same text as its keyword-sniffed equivalent', () => {
+    expect(PromptBuilder.buildDirectionMod({ ...pose('p1'), orientation: 'rear-left' })).toBe(EXPECTED_DIRECTION.p1);
+    expect(PromptBuilder.buildDirectionMod({ ...pose('u2'), orientation: 'angled-left' })).toBe(EXPECTED_DIRECTION.u2);
+    expect(PromptBuilder.buildDirectionMod({ ...pose('f3'), orientation: 'rear' })).toBe(EXPECTED_DIRECTION.f3);
+    expect(PromptBuilder.buildDirectionMod({ ...pose('u1'), orientation: 'frontal' })).toBe(FRONTAL);
+    expect(PromptBuilder.buildDirectionMod({ ...pose('u2'), orientation: 'unspecified' })).toBe("");
+  });
+
+  it('prefers an explicit aspect ratio', () => {
+    expect(PromptBuilder.getAspectRatio({ ...pose('f1'), aspectRatio: '9:16' })).toBe('9:16');
+  });
+});
+
+describe('PromptBuilder.resolveExpression', () => {
+  const pickFirst = (options: string[]) => options[0];
+
+  it('defers to the pose when the description already sets the expression', () => {
+    expect(PromptBuilder.resolveExpression(pose('p15'), pickFirst)).toBe("");
+  });
+
+  it('picks a facial expression for portrait and upper body poses', () => {
+    expect(PromptBuilder.resolveExpression(pose('p4'), pickFirst)).toBe("stoic neutral expression");
+    expect(PromptBuilder.resolveExpression(pose('u12'), pickFirst)).toBe("stoic neutral expression");
+  });
+
+  it('uses a neutral gaze for full body poses', () => {
+    expect(PromptBuilder.resolveExpression(pose('f8'), pickFirst)).toBe("neutral gaze");
+  });
+});
+
+describe('PromptBuilder.buildIdentityMod', () => {
+  const locks = LockResolver.defaults();
+  const withLock = (attr: IdentityAttribute, mode: LockMode, value = ""): IdentityLocks => ({ ...locks, [attr]: { mode, value } });
+
+  it('returns nothing without a profile', () => {
+    expect(PromptBuilder.buildIdentityMod(null, DEFAULT_ADJUSTMENTS, locks)).toBe("");
+    expect(PromptBuilder.buildIdentityMod(ProfileService.empty(), DEFAULT_ADJUSTMENTS, locks)).toBe("");
+  });
+
+  it('renders every filled field grouped by section', () => {
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks))
+      .toContain("Profile: HAIR (length: touching shoulders; texture: straight; color: dark brown) FACE (face shape: oval; eyes: almond) BODY (build: narrow waist, athletic).");
+  });
+
+  it('repeats the hair fields when hair is kept', () => {
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks))
+      .toContain("MANDATORY HAIR CONSISTENCY: length: touching shoulders; texture: straight; color: dark brown. DO NOT ALTER HAIR COLOR OR HAIR LENGTH OR HAIRSTYLE.");
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks))
+      .toContain("KEEP FROM REFERENCE: skin tone, age, makeup, tattoos / marks, eye color.");
+  });
+
+  it('replaces an overridden attribute and its profile field', () => {
+    const mod = PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, withLock('hairColor', 'override', "platinum blonde"));
+    expect(mod).toContain("ATTRIBUTE OVERRIDES (replace the reference): hair color: platinum blonde hair.");
+    expect(mod).not.toContain("dark brown");
+    expect(mod).toContain("DO NOT ALTER HAIR LENGTH OR HAIRSTYLE.");
+  });
+
+  it('treats an override without a value as keep', () => {
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, withLock('eyeColor', 'override')))
+      .toBe(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks));
+  });
+
+  it('uses the per-frame value for varied attributes', () => {
+    const varied = withLock('hairstyle', 'vary');
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, varied, false, false, { hairstyle: "high ponytail" }))
+      .toContain("hairstyle: high ponytail.");
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, varied, false, false, { hairstyle: "high ponytail" }))
+      .toContain("DO NOT ALTER HAIR COLOR OR HAIR LENGTH.");
+  });
+
+  it('drops body sentences and build targets for portraits', () => {
+    const mod = PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks, true);
+    expect(mod).not.toContain("waist");
+    expect(mod).not.toContain("Targeted Build");
+  });
+
+  it('keeps field values containing periods intact', () => {
+    const profile = { ...PROFILE, hairLength: "mid-back. Wavy at the ends" };
+    expect(PromptBuilder.buildIdentityMod(profile, DEFAULT_ADJUSTMENTS, locks))
+      .toContain("MANDATORY HAIR CONSISTENCY: length: mid-back. Wavy at the ends; texture: straight; color: dark brown.");
+  });
+
+  it('keeps non-body fields for portraits even when they mention the body', () => {
+    const profile = { ...PROFILE, distinguishingMarks: "tattoo near the waist" };
+    expect(PromptBuilder.buildIdentityMod(profile, DEFAULT_ADJUSTMENTS, locks, true)).toContain("OTHER (marks: tattoo near the waist)");
+  });
+
+  it('switches between the reference body and targeted build', () => {
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks))
+      .toContain("Keep the exact original body build and proportions from reference image.");
+    const mod = PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, withLock('build', 'override', "athletic"));
+    expect(mod).toContain("Targeted Build: athletic, Chest: Average, Hips: Average.");
+    expect(mod).not.toContain("narrow waist");
+  });
+
+  it('overrides the reference orientation for side profiles', () => {
+    expect(PromptBuilder.buildIdentityMod(PROFILE, DEFAULT_ADJUSTMENTS, locks, true, true))
+      .toContain("CRITICAL: Ignore reference orientation; force profile specified in TARGET POSE.");
+  });
+});
+
+describe('PromptBuilder.buildPrompt', () => {
+  it('assembles direction, pose, framing, expression, clothing and identity in order', () => {
+    const prompt = PromptBuilder.buildPrompt({
+      pose: pose('p2'),
+      profile: PROFILE,
+      adjustments: DEFAULT_ADJUSTMENTS,
+      locks: LockResolver.defaults(),
+      clothing: "white tank crop top",
+      expression: "calm neutral gaze"
+    });
+
+    expect(prompt.startsWith(`DATASET PRODUCTION. ${EXPECTED_DIRECTION.p2} TARGET POSE: ${pose('p2').description}.`)).toBe(true);
+    expect(prompt).toContain("COMPOSITION: 85mm lens, Tight headshot");
+    expect(prompt).toContain("EXPRESSION: calm neutral gaze. CLOTHING: white tank crop top. IDENTITY CONSTRAINTS:");
+    expect(prompt.endsWith("ENVIRONMENT: Professional neutral high-key studio, seamless gray backdrop. 8k resolution, high detail.")).toBe(true);
+  });
+
+  it('uses the environment preset text in place of the default backdrop', () => {
+    const prompt = PromptBuilder.buildPrompt({
+      pose: pose('f1'),
+      profile: PROFILE,
+      adjustments: DEFAULT_ADJUSTMENTS,
+      locks: LockResolver.defaults(),
+      clothing: "black slip dress",
+      expression: "neutral gaze",
+      environment: "Open meadow with tall grass. LIGHTING: low warm golden hour backlight"
+    });
+
+    expect(prompt.endsWith("ENVIRONMENT: Open meadow with tall grass. LIGHTING: low warm golden hour backlight. 8k resolution, high detail.")).toBe(true);
+    expect(prompt).not.toContain("seamless gray backdrop");
+  });
+
+  it('uses 3:4 for full body and 1:1 otherwise', () => {
+    expect(PromptBuilder.getAspectRatio(pose('f1'))).toBe("3:4");
+    expect(PromptBuilder.getAspectRatio(pose('u1'))).toBe("1:1");
+  });
+});
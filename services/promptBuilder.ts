@@ -0,0 +1,201 @@
+import { FACIAL_EXPRESSIONS } from "../constants";
+import { AspectRatio, CharacterAdjustments, CharacterProfile, DatasetPose, IdentityAttribute, IdentityLocks, IdentityVariations, PoseFacing } from "../types";
+import { ProfileService } from "./characterProfile";
+import { LockResolver } from "./identityLocks";
+
+export interface PoseOrientation {
+  isRear: boolean;
+  isOverShoulder: boolean;
+  isLeft: boolean;
+  isRight: boolean;
+  isProfile: boolean;
+  is45: boolean;
+  isFrontal: boolean;
+}
+
+export interface PromptInput {
+  pose: DatasetPose;
+  profile: CharacterProfile | null;
+  adjustments: CharacterAdjustments;
+  locks: IdentityLocks;
+  clothing: string;
+  expression: string;
+  variations?: IdentityVariations;
+  // Environment preset text; falls back to the gray studio backdrop
+  environment?: string;
+}
+
+export type Picker = (options: string[]) => string;
+
+export const DEFAULT_ENVIRONMENT = "Professional neutral high-key studio, seamless gray backdrop";
+
+const HAIR_ATTRIBUTES: IdentityAttribute[] = ['hairColor', 'hairLength', 'hairstyle'];
+
+const EXPRESSION_KEYWORDS = [
+  "smile", "smirk", "laugh", "teeth", "wink", "gaze",
+  "thoughtful", "serene", "nose", "lip", "joy", "fear",
+  "anxious", "vulnerable", "stern", "desperate", "exhaustion",
+  "serene", "concentrated", "neutral", "stoic", "pensive", "rembrandt"
+];
+
+/**
+ * Pure prompt compiler for dataset frames. Everything that decides what text a pose gets lives here,
+ * so the directional wording can be pinned by tests instead of re-verified by eye after every edit.
+ */
+export class PromptBuilder {
+  static isPortrait(pose: DatasetPose) {
+    return pose.group === 'portrait';
+  }
+
+  static isSideProfile(pose: DatasetPose) {
+    if (pose.orientation) return pose.orientation.startsWith('profile');
+    const descLower = pose.description.toLowerCase();
+    return descLower.includes('90-degree') || descLower.includes('profile');
+  }
+
+  private static fromFacing(facing: PoseFacing, isOverShoulder: boolean): PoseOrientation {
+    const isLeft = facing.endsWith('-left');
+    const isRight = facing.endsWith('-right');
+    return {
+      isRear: facing.startsWith('rear'),
+      isOverShoulder,
+      isLeft,
+      isRight,
+      isProfile: facing.startsWith('profile'),
+      is45: facing.startsWith('angled'),
+      isFrontal: facing === 'frontal'
+    };
+  }
+
+  static getOrientation(pose: DatasetPose): PoseOrientation {
+    const descLower = pose.description.toLowerCase();
+    if (pose.orientation) return this.fromFacing(pose.orientation, descLower.includes('looking back at camera'));
+
+    const isRear = descLower.includes('rear') || descLower.includes('behind') || descLower.includes('back view') || descLower.includes('view from behind');
+    const isOverShoulder = descLower.includes('looking back at camera');
+    const isLeft = descLower.includes('left');
+    const isRight = descLower.includes('right');
+    const isProfile = descLower.includes('90') || descLower.includes('profile');
+    const is45 = descLower.includes('45');
+    // STRICT FRONTAL: Only triggered if no other directionality is found and explicit frontal keywords exist
+    const isFrontal = (descLower.includes('frontal') || (descLower.includes('center') && !descLower.includes('behind'))) && !isLeft && !isRight && !isRear;
+    return { isRear, isOverShoulder, isLeft, isRight, isProfile, is45, isFrontal };
+  }
+
+  // Stronger direction control for rear, 45°, and profile poses
+  static buildDirectionMod(pose: DatasetPose): string {
+    const { isRear, isOverShoulder, isLeft, isRight, isProfile, is45, isFrontal } = this.getOrientation(pose);
+
+    if (isRear || is45 || isProfile || isLeft || isRight) {
+      let base = "CRITICAL: SHOT ORIENTATION — ";
+
+      if (isRear) {
+        base += "Rear view. Subject is facing away from camera. ";
+        if (isLeft) base += "Camera positioned behind and to the right — seeing back of head and left side only. ";
+        if (isRight) base += "Camera positioned behind and to the left — seeing back of head and right side only. ";
+      } else if (isProfile) {
+        base += "Strict 90-degree side profile. ";
+        if (isLeft) base += "Facing screen-left. Only left profile visible. ";
+        if (isRight) base += "Facing screen-right. Only right profile visible. ";
+      } else if (is45 || isLeft || isRight) {
+        base += "Angled orientation. ";
+        if (isLeft) base += "Subject facing screen-left. ";
+        if (isRight) base += "Subject facing screen-right. ";
+      }
+
+      if (isOverShoulder) {
+        base += "Subject is looking back at the camera over their shoulder, but primary body orientation is maintained. ";
+      }
+
+      base += "ABSOLUTELY NO FULL FRONTAL FACE. DO NOT TURN SUBJECT TOWARD CAMERA.";
+      return base;
+    }
+
+    if (isFrontal) {
+      return "Direct frontal view. Subject looking straight into camera with both eyes fully visible and centered.";
+    }
+
+    return "";
+  }
+
+  static hasExpressionInPose(pose: DatasetPose) {
+    const descLower = pose.description.toLowerCase();
+    return EXPRESSION_KEYWORDS.some(kw => descLower.includes(kw));
+  }
+
+  // Returns "" when the pose description already dictates the expression.
+  static resolveExpression(pose: DatasetPose, pick: Picker): string {
+    if (this.hasExpressionInPose(pose)) return "";
+    return (this.isPortrait(pose) || pose.group === 'upper') ? pick(FACIAL_EXPRESSIONS) : "neutral gaze";
+  }
+
+  static getAspectRatio(pose: DatasetPose): AspectRatio {
+    if (pose.aspectRatio) return pose.aspectRatio;
+    return pose.group === 'full' ? "3:4" : "1:1";
+  }
+
+  static buildFramingMod(pose: DatasetPose): string {
+    return this.isPortrait(pose)
+      ? "85mm lens, Tight headshot, shoulder-up framing only, clear facial features, softly blurred background bokeh."
+      : "Professional framing, standard lens.";
+  }
+
+  static buildIdentityMod(
+    activeProfile: CharacterProfile | null,
+    adjustments: CharacterAdjustments,
+    locks: IdentityLocks,
+    isPortrait: boolean = false,
+    isSideProfile: boolean = false,
+    variations: IdentityVariations = {}
+  ): string {
+    if (!activeProfile || ProfileService.isEmpty(activeProfile)) return "";
+
+    // Overridden and varied attributes replace their profile fields so the prompt never asks for both
+    const applied = LockResolver.applied(locks, variations);
+    const omit = LockResolver.replacedProfileFields(applied);
+    // Portraits are framed above the shoulders, so body fields would only invite the model to widen the shot
+    const profile = ProfileService.describe(activeProfile, { includeBody: !isPortrait, omit });
+    const hairPart = ProfileService.describeSection(activeProfile, 'hair', omit);
+    const kept = LockResolver.kept(applied);
+
+    const poseConstraint = isSideProfile
+      ? "CRITICAL: Ignore reference orientation; force profile specified in TARGET POSE."
+      : "Preserve identity features and facial structure exactly.";
+
+    let base = `IDENTITY CONSTRAINTS: ${poseConstraint} Profile: ${profile}.`;
+
+    const changed = (Object.keys(applied) as IdentityAttribute[]).filter(a => a !== 'build');
+    if (changed.length > 0) {
+      base += ` ATTRIBUTE OVERRIDES (replace the reference): ${changed.map(a => `${LockResolver.label(a).toLowerCase()}: ${LockResolver.phrase(a, applied[a]!)}`).join('; ')}.`;
+    }
+
+    const keptHair = HAIR_ATTRIBUTES.filter(a => kept.includes(a));
+    if (keptHair.length > 0 && hairPart) {
+      base += ` MANDATORY HAIR CONSISTENCY: ${hairPart}. DO NOT ALTER ${keptHair.map(a => LockResolver.label(a).toUpperCase()).join(' OR ')}.`;
+    }
+
+    const keptOther = kept.filter(a => !HAIR_ATTRIBUTES.includes(a) && a !== 'build');
+    if (keptOther.length > 0) {
+      base += ` KEEP FROM REFERENCE: ${keptOther.map(a => LockResolver.label(a).toLowerCase()).join(', ')}.`;
+    }
+
+    if (isPortrait) return base;
+
+    if (applied.build) {
+      base += ` Targeted Build: ${applied.build}, Chest: ${adjustments.chestSize}, Hips: ${adjustments.hipSize}.`;
+    } else {
+      base += ` Keep the exact original body build and proportions from reference image.`;
+    }
+
+    return base;
+  }
+
+  static buildPrompt(input: PromptInput): string {
+    const { pose, clothing, expression } = input;
+    const directionMod = this.buildDirectionMod(pose);
+    const framingMod = this.buildFramingMod(pose);
+    const identityMod = this.buildIdentityMod(input.profile, input.adjustments, input.locks, this.isPortrait(pose), this.isSideProfile(pose), input.variations);
+
+    return `DATASET PRODUCTION. ${directionMod ? `${directionMod} ` : ''}TARGET POSE: ${pose.description}. COMPOSITION: ${framingMod}. ${expression ? `EXPRESSION: ${expression}. ` : ''}CLOTHING: ${clothing}. ${identityMod}. ENVIRONMENT: ${input.environment || DEFAULT_ENVIRONMENT}. 8k resolution, high detail.`;
+  }
+}
@@ -0,0 +1,13 @@
+import { RESOLUTION_PIXELS } from "../../constants";
+import { AspectRatio, Resolution } from "../../types";
+
+// Maps the Gemini-style resolution tier + aspect ratio to explicit pixel sizes for backends that need them.
+export const getImageDimensions = (resolution: Resolution, aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = RESOLUTION_PIXELS[resolution];
+  // Round to multiples of 64, which diffusion backends expect for latent sizes.
+  const snap = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+  return w >= h
+    ? { width: snap(longEdge), height: snap(longEdge * h / w) }
+    : { width: snap(longEdge * w / h), height: snap(longEdge) };
+};
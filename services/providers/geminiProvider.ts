@@ -0,0 +1,35 @@
+import { MODELS } from "../../constants";
+import { AnalysisProvider, CharacterProfile, FrameScore, ImageEditRequest, ImageProvider, ImageRequest, ImageResult, ReferenceImage, VerificationRequest } from "../../types";
+import { ProfileService } from "../characterProfile";
+import { Verification } from "../verification";
+import { GeminiService } from "../geminiService";
+
+export class GeminiProvider implements ImageProvider, AnalysisProvider {
+  readonly id = 'gemini' as const;
+  readonly imageModel = MODELS.IMAGE;
+  readonly analysisModel = MODELS.ANALYSIS;
+
+  constructor(private readonly apiKey: string) {}
+
+  generateImage(request: ImageRequest): Promise<ImageResult> {
+    return GeminiService.generateCharacterImage(
+      this.apiKey,
+      request.references,
+      request.prompt,
+      request.resolution,
+      request.aspectRatio
+    );
+  }
+
+  editImage(request: ImageEditRequest): Promise<ImageResult> {
+    return GeminiService.editImage(this.apiKey, request);
+  }
+
+  async analyzeCharacter(references: ReferenceImage[]): Promise<CharacterProfile> {
+    return ProfileService.parse(await GeminiService.analyzeCharacter(this.apiKey, references));
+  }
+
+  async verifyFrame(request: VerificationRequest): Promise<FrameScore> {
+    return Verification.normalize(await GeminiService.verifyFrame(this.apiKey, request));
+  }
+}
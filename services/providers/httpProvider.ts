@@ -0,0 +1,107 @@
+import { AnalysisProvider, CharacterProfile, FrameScore, ImageEditRequest, ImageProvider, ImageRequest, ImageResult, ReferenceImage, VerificationRequest } from "../../types";
+import { ProfileService } from "../characterProfile";
+import { Verification } from "../verification";
+import { getImageDimensions } from "./dimensions";
+
+/**
+ * Talks to a self-hosted backend (a ComfyUI / A1111 bridge) over a small JSON contract:
+ *   POST {endpoint}/generate  { prompt, init_image, reference_images, width, height, resolution, aspect_ratio } -> { image } | { images: [..] }
+ *   POST {endpoint}/edit      { image, mask, instruction, reference_images, width, height, resolution, aspect_ratio } -> { image } | { images: [..] }
+ *   POST {endpoint}/analyze   { image, images } -> { profile }  (profile fields as in CharacterProfile; a plain string is kept as notes)
+ *   POST {endpoint}/verify    { image, references, pose, profile } -> { face, hair, body, pose_match, pose_note }
+ * `init_image` / `image` is the most relevant reference; `reference_images` / `images` carry all of them as { image, angle },
+ * plus `subject` ("CHARACTER A" / "CHARACTER B") when a scene request mixes two characters.
+ * `mask` is null for unmasked edits; otherwise white marks the region to change.
+ * Images are base64 PNG, with or without a data URL prefix.
+ */
+export class HttpProvider implements ImageProvider, AnalysisProvider {
+  readonly id = 'http' as const;
+  readonly imageModel: string;
+  readonly analysisModel: string;
+
+  constructor(private readonly endpoint: string, private readonly authToken: string = "") {
+    this.imageModel = `http:${endpoint}`;
+    this.analysisModel = `http:${endpoint}`;
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.authToken) headers.Authorization = `Bearer ${this.authToken}`;
+
+    const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      // Carry the status so the generation queue can classify 429 / 5xx as retryable.
+      throw Object.assign(new Error(`HTTP ${response.status}: ${detail || response.statusText}`), { status: response.status });
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private static stripDataUrl(image: string) {
+    return image.includes('base64,') ? image.split('base64,')[1] : image;
+  }
+
+  private static encodeReferences(references: ReferenceImage[]) {
+    return references.map(ref => ({ image: HttpProvider.stripDataUrl(ref.url), angle: ref.angle, ...(ref.subject ? { subject: ref.subject } : {}) }));
+  }
+
+  private static toResult(result: { image?: string; images?: string[] }): ImageResult {
+    const image = result.image || result.images?.[0];
+    if (!image) throw new Error("Self-hosted endpoint returned no image data.");
+    return { url: image.startsWith('data:') ? image : `data:image/png;base64,${image}` };
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    const { width, height } = getImageDimensions(request.resolution, request.aspectRatio);
+    const result = await this.post<{ image?: string; images?: string[] }>('/generate', {
+      prompt: request.prompt,
+      init_image: HttpProvider.stripDataUrl(request.references[0]?.url || ""),
+      reference_images: HttpProvider.encodeReferences(request.references),
+      width,
+      height,
+      resolution: request.resolution,
+      aspect_ratio: request.aspectRatio
+    });
+
+    return HttpProvider.toResult(result);
+  }
+
+  async editImage(request: ImageEditRequest): Promise<ImageResult> {
+    const { width, height } = getImageDimensions(request.resolution, request.aspectRatio);
+    const result = await this.post<{ image?: string; images?: string[] }>('/edit', {
+      image: HttpProvider.stripDataUrl(request.image),
+      mask: request.mask ? HttpProvider.stripDataUrl(request.mask) : null,
+      instruction: request.instruction,
+      reference_images: HttpProvider.encodeReferences(request.references),
+      width,
+      height,
+      resolution: request.resolution,
+      aspect_ratio: request.aspectRatio
+    });
+    return HttpProvider.toResult(result);
+  }
+
+  async analyzeCharacter(references: ReferenceImage[]): Promise<CharacterProfile> {
+    const result = await this.post<{ profile?: unknown }>('/analyze', {
+      image: HttpProvider.stripDataUrl(references[0]?.url || ""),
+      images: HttpProvider.encodeReferences(references)
+    });
+    if (typeof result.profile === 'string') return ProfileService.fromText(result.profile) || ProfileService.empty();
+    return ProfileService.parse(result.profile);
+  }
+
+  async verifyFrame(request: VerificationRequest): Promise<FrameScore> {
+    const result = await this.post<{ face?: number; hair?: number; body?: number | null; pose_match?: boolean; pose_note?: string }>('/verify', {
+      image: HttpProvider.stripDataUrl(request.image),
+      references: HttpProvider.encodeReferences(request.references),
+      pose: request.poseDescription,
+      profile: request.profile
+    });
+    return Verification.normalize({ ...result, poseMatch: result.pose_match, poseNote: result.pose_note });
+  }
+}
@@ -0,0 +1,20 @@
+import { AnalysisProvider, ImageProvider, ProviderSettings } from "../../types";
+import { GeminiProvider } from "./geminiProvider";
+import { HttpProvider } from "./httpProvider";
+import { MockProvider } from "./mockProvider";
+
+export type CharacterProvider = ImageProvider & AnalysisProvider;
+
+export const createProvider = (settings: ProviderSettings, apiKey: string): CharacterProvider => {
+  switch (settings.provider) {
+    case 'mock':
+      return new MockProvider();
+    case 'http':
+      return new HttpProvider(settings.httpEndpoint, settings.httpAuthToken);
+    case 'gemini':
+    default:
+      return new GeminiProvider(apiKey);
+  }
+};
+
+export { getImageDimensions } from "./dimensions";
@@ -0,0 +1,126 @@
+import { AnalysisProvider, CharacterProfile, FrameScore, ImageEditRequest, ImageProvider, ImageRequest, ImageResult, ReferenceImage, VerificationRequest } from "../../types";
+import { getImageDimensions } from "./dimensions";
+import { SeededRandom } from "../random";
+
+const MOCK_LATENCY_MS = 400;
+// Placeholders are rendered at a fraction of the requested size; the aspect ratio is what matters offline.
+const MOCK_SCALE = 0.25;
+
+const MOCK_PROFILE: CharacterProfile = {
+  hairLength: "touching shoulders",
+  hairTexture: "straight",
+  hairColor: "dark brown with subtle caramel highlights",
+  faceShape: "oval",
+  eyes: "almond-shaped, medium lip thickness",
+  skin: "light olive",
+  build: "medium shoulder width, defined waist ratio, toned limbs",
+  distinguishingMarks: "",
+  notes: "mid-twenties"
+};
+
+export class MockProvider implements ImageProvider, AnalysisProvider {
+  readonly id = 'mock' as const;
+  readonly imageModel = 'mock-image-v1';
+  readonly analysisModel = 'mock-analysis-v1';
+
+  private static delay() {
+    return new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    await MockProvider.delay();
+    const { width, height } = getImageDimensions(request.resolution, request.aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * MOCK_SCALE);
+    canvas.height = Math.round(height * MOCK_SCALE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable for mock rendering.");
+
+    // Same prompt always yields the same placeholder, so pipelines can be diffed run to run.
+    const hue = SeededRandom.hash(request.prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 22%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 12%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const pose = request.prompt.match(/TARGET POSE:\s*([^.]+)/)?.[1] || "Mock frame";
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.font = `bold ${Math.round(canvas.width / 18)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText('MOCK PROVIDER', canvas.width / 2, canvas.height / 2 - canvas.width / 14);
+    ctx.font = `${Math.round(canvas.width / 32)}px sans-serif`;
+    ctx.fillText(pose.slice(0, 60), canvas.width / 2, canvas.height / 2);
+    ctx.fillText(`${request.resolution} · ${request.aspectRatio} · refs: ${request.references.map(r => r.subject ? `${r.subject.replace('CHARACTER ', '')}:${r.angle}` : r.angle).join(', ')}`, canvas.width / 2, canvas.height / 2 + canvas.width / 14);
+
+    return { url: canvas.toDataURL('image/png') };
+  }
+
+  private static loadImage(url: string) {
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Mock provider could not decode the frame to edit."));
+      img.src = url;
+    });
+  }
+
+  // Redraws the frame, tints the masked region (or the whole frame) and stamps the instruction on it.
+  async editImage(request: ImageEditRequest): Promise<ImageResult> {
+    await MockProvider.delay();
+    const source = await MockProvider.loadImage(request.image);
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable for mock rendering.");
+    ctx.drawImage(source, 0, 0);
+
+    const hue = SeededRandom.hash(request.instruction) % 360;
+    const overlay = document.createElement('canvas');
+    overlay.width = canvas.width;
+    overlay.height = canvas.height;
+    const octx = overlay.getContext('2d')!;
+    octx.fillStyle = `hsla(${hue}, 70%, 50%, 0.35)`;
+    octx.fillRect(0, 0, overlay.width, overlay.height);
+    if (request.mask) {
+      // The mask is white-on-black, so it is converted to alpha before clipping the tint.
+      const mask = await MockProvider.loadImage(request.mask);
+      const mctx = document.createElement('canvas').getContext('2d')!;
+      mctx.canvas.width = overlay.width;
+      mctx.canvas.height = overlay.height;
+      mctx.drawImage(mask, 0, 0, overlay.width, overlay.height);
+      const pixels = mctx.getImageData(0, 0, overlay.width, overlay.height);
+      for (let i = 0; i < pixels.data.length; i += 4) pixels.data[i + 3] = pixels.data[i];
+      mctx.putImageData(pixels, 0, 0);
+      octx.globalCompositeOperation = 'destination-in';
+      octx.drawImage(mctx.canvas, 0, 0);
+    }
+    ctx.drawImage(overlay, 0, 0);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = `bold ${Math.round(canvas.width / 28)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText(`EDIT: ${request.instruction.slice(0, 50)}`, canvas.width / 2, canvas.height - canvas.width / 12);
+    return { url: canvas.toDataURL('image/png') };
+  }
+
+  async analyzeCharacter(_references: ReferenceImage[]): Promise<CharacterProfile> {
+    await MockProvider.delay();
+    return { ...MOCK_PROFILE };
+  }
+
+  // Scores are derived from the frame itself, so the same image always verifies the same way.
+  async verifyFrame(request: VerificationRequest): Promise<FrameScore> {
+    await MockProvider.delay();
+    const h = SeededRandom.hash(request.image);
+    const poseMatch = h % 10 !== 0;
+    return {
+      face: 60 + (h % 41),
+      hair: 60 + ((h >>> 8) % 41),
+      body: request.poseDescription.toLowerCase().includes('portrait') ? null : 60 + ((h >>> 16) % 41),
+      poseMatch,
+      poseNote: poseMatch ? "" : "Mock mismatch: orientation differs from the requested pose."
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SeededRandom } from './random';
+
+describe('SeededRandom.parse', () => {
+  it('accepts whole numbers that fit in 32 bits', () => {
+    expect(SeededRandom.parse(' 42 ')).toBe(42);
+    expect(SeededRandom.parse('0')).toBe(0);
+    expect(SeededRandom.parse('4294967295')).toBe(4294967295);
+  });
+
+  it('rejects anything that would silently become another seed', () => {
+    expect(SeededRandom.parse('4294967296')).toBeNull();
+    expect(SeededRandom.parse('1.5')).toBeNull();
+    expect(SeededRandom.parse('-3')).toBeNull();
+    expect(SeededRandom.parse('abc')).toBeNull();
+    expect(SeededRandom.parse('')).toBeNull();
+  });
+});
+
+describe('SeededRandom streams', () => {
+  it('repeats for the same seed and key and differs across keys', () => {
+    const draw = (key: string) => Array.from({ length: 3 }, SeededRandom.derive(7, key));
+    expect(draw('p1')).toEqual(draw('p1'));
+    expect(draw('p1')).not.toEqual(draw('p2'));
+  });
+});
+
+describe('SeededRandom.pickWeighted', () => {
+  const items = [{ id: 'a', weight: 1 }, { id: 'b', weight: 0 }, { id: 'c', weight: 3 }];
+
+  it('splits the roll in proportion to weight', () => {
+    expect(SeededRandom.pickWeighted(items, () => 0.2)?.id).toBe('a');
+    expect(SeededRandom.pickWeighted(items, () => 0.3)?.id).toBe('c');
+  });
+
+  it('returns undefined when nothing has a positive weight', () => {
+    expect(SeededRandom.pickWeighted([{ weight: 0 }], () => 0.5)).toBeUndefined();
+  });
+});
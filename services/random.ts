@@ -0,0 +1,61 @@
+export type RandomSource = () => number;
+
+export class SeededRandom {
+  static newSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  // A typed seed: a whole number that fits in 32 bits, else null rather than a silently different seed.
+  static parse(text: string): number | null {
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= 0xffffffff ? seed : null;
+  }
+
+  // FNV-1a, used to fold a string key into a seed.
+  static hash(text: string): number {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+      h ^= text.charCodeAt(i);
+      h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+  }
+
+  // mulberry32: small, fast and good enough for picking outfits and expressions.
+  static create(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Independent stream per key (e.g. pose id), so adding or removing poses from a batch
+   * never changes what the other poses get for the same seed.
+   */
+  static derive(seed: number, key: string): RandomSource {
+    return this.create(this.hash(`${seed >>> 0}:${key}`));
+  }
+
+  static pick<T>(options: T[], random: RandomSource): T {
+    return options[Math.floor(random() * options.length)];
+  }
+
+  // Chance proportional to weight; undefined when nothing has a positive weight.
+  static pickWeighted<T extends { weight: number }>(items: T[], random: RandomSource): T | undefined {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    if (total <= 0) return undefined;
+    let roll = random() * total;
+    for (const item of items) {
+      roll -= item.weight;
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+}
@@ -0,0 +1,51 @@
+import { MAX_REFERENCES_PER_REQUEST } from "../constants";
+import { DatasetPose, ReferenceAngle, ReferenceImage, ShotAngle } from "../types";
+import { PromptBuilder } from "./promptBuilder";
+
+// Reference angles in order of usefulness for each shot direction.
+const ANGLE_PREFERENCE: Record<ShotAngle, ReferenceAngle[]> = {
+  front: ['front', 'angled', 'full-body', 'profile', 'rear'],
+  angled: ['angled', 'front', 'profile', 'full-body', 'rear'],
+  profile: ['profile', 'angled', 'front', 'full-body', 'rear'],
+  rear: ['rear', 'full-body', 'profile', 'angled', 'front']
+};
+
+// Two-character shots are mostly frontal and show the body, so the full-body reference ranks high
+const SCENE_PREFERENCE: ReferenceAngle[] = ['front', 'full-body', 'angled', 'profile', 'rear'];
+
+export class ReferenceSelector {
+  static shotAngle(pose: DatasetPose): ShotAngle {
+    const { isRear, isProfile, is45, isLeft, isRight } = PromptBuilder.getOrientation(pose);
+    if (isRear) return 'rear';
+    if (isProfile) return 'profile';
+    if (is45 || isLeft || isRight) return 'angled';
+    return 'front';
+  }
+
+  static preference(pose: DatasetPose): ReferenceAngle[] {
+    const order = ANGLE_PREFERENCE[this.shotAngle(pose)];
+    // Body shots lean on the full-body reference for build and proportions; headshots barely need it.
+    if (pose.group === 'portrait') return [...order.filter(a => a !== 'full-body'), 'full-body'];
+    if (pose.group === 'full') return [order[0], 'full-body', ...order.slice(1).filter(a => a !== 'full-body')];
+    return order;
+  }
+
+  /**
+   * Picks the references to send with a pose, most relevant first. One image per angle is taken before
+   * any angle gets a second slot, so a pile of front shots never crowds out the only profile.
+   */
+  static select(references: ReferenceImage[], pose: DatasetPose, limit: number = MAX_REFERENCES_PER_REQUEST): ReferenceImage[] {
+    return this.rank(references, this.preference(pose), limit);
+  }
+
+  static selectForScene(references: ReferenceImage[], limit: number): ReferenceImage[] {
+    return this.rank(references, SCENE_PREFERENCE, limit);
+  }
+
+  private static rank(references: ReferenceImage[], order: ReferenceAngle[], limit: number): ReferenceImage[] {
+    const ranked = [...references].sort((a, b) => order.indexOf(a.angle) - order.indexOf(b.angle));
+    const firstOfAngle = ranked.filter((ref, i) => ranked.findIndex(r => r.angle === ref.angle) === i);
+    const rest = ranked.filter(ref => !firstOfAngle.includes(ref));
+    return [...firstOfAngle, ...rest].slice(0, limit);
+  }
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SceneLibrary } from './sceneLibrary';
+import { stubStorage } from './testFixtures';
+
+const VALID = { id: ' s1 ', label: ' Walking Together ', description: ' side by side ', framing: 'full', aspectRatio: '3:4' };
+
+describe('SceneLibrary.validatePose', () => {
+  it('trims text fields and keeps framing and aspect ratio', () => {
+    expect(SceneLibrary.validatePose(VALID, 0)).toEqual({
+      id: 's1', label: 'Walking Together', description: 'side by side', framing: 'full', aspectRatio: '3:4'
+    });
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(() => SceneLibrary.validatePose(null, 0)).toThrow('Scene #1 is not an object.');
+    expect(() => SceneLibrary.validatePose('s1', 1)).toThrow('Scene #2 is not an object.');
+  });
+
+  it('rejects missing or blank text fields', () => {
+    expect(() => SceneLibrary.validatePose({ ...VALID, label: '  ' }, 2)).toThrow('Scene #3 is missing "label".');
+    expect(() => SceneLibrary.validatePose({ ...VALID, description: 7 }, 0)).toThrow('missing "description"');
+  });
+
+  it('rejects unknown framings and aspect ratios', () => {
+    expect(() => SceneLibrary.validatePose({ ...VALID, framing: 'aerial' }, 0)).toThrow('unknown framing "aerial"');
+    expect(() => SceneLibrary.validatePose({ ...VALID, aspectRatio: '5:1' }, 0)).toThrow('unsupported aspect ratio "5:1"');
+  });
+});
+
+describe('SceneLibrary.load', () => {
+  beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => undefined));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the valid scenes when one is malformed', () => {
+    stubStorage({ 'ucc:scene-poses': JSON.stringify([VALID, { ...VALID, id: 's2', framing: 'aerial' }, { ...VALID, id: 's3' }]) });
+    expect(SceneLibrary.load().map(p => p.id)).toEqual(['s1', 's3']);
+  });
+
+  it('falls back to built-ins only when the stored value is not a list', () => {
+    stubStorage({ 'ucc:scene-poses': JSON.stringify({ poses: [VALID] }) });
+    expect(SceneLibrary.load()).toEqual(SceneLibrary.defaults());
+  });
+});
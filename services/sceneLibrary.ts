@@ -0,0 +1,52 @@
+import { SCENE_FRAMINGS, SCENE_POSES } from "../constants";
+import { SceneFraming, ScenePose } from "../types";
+import { Validation } from "./validation";
+
+const STORAGE_KEY = 'ucc:scene-poses';
+
+export class SceneLibrary {
+  static defaults(): ScenePose[] {
+    return SCENE_POSES.map(p => ({ ...p }));
+  }
+
+  static load(): ScenePose[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.defaults();
+      const poses = JSON.parse(raw);
+      if (!Array.isArray(poses)) throw new Error("Stored scene poses are not an array.");
+      return Validation.keepValid(poses, (p, i) => this.validatePose(p, i), 'scene');
+    } catch (err) {
+      console.error("Scene library restore failed, falling back to built-ins", err);
+      return this.defaults();
+    }
+  }
+
+  static save(poses: ScenePose[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(poses));
+  }
+
+  static reset(): ScenePose[] {
+    localStorage.removeItem(STORAGE_KEY);
+    return this.defaults();
+  }
+
+  static nextId(poses: ScenePose[]): string {
+    let n = poses.length + 1;
+    while (poses.some(p => p.id === `s${n}`)) n++;
+    return `s${n}`;
+  }
+
+  static validatePose(pose: unknown, index: number): ScenePose {
+    const where = `Scene #${index + 1}`;
+    const fields = Validation.fields(pose, where);
+    const id = Validation.text(fields, 'id', where);
+    const label = Validation.text(fields, 'label', where);
+    const description = Validation.text(fields, 'description', where);
+    const { framing } = fields;
+    if (!SCENE_FRAMINGS.some(f => f.id === framing)) throw new Error(`${where} has unknown framing "${framing}".`);
+    const aspectRatio = Validation.aspectRatio(fields.aspectRatio, where);
+
+    return { id, label, description, framing: framing as SceneFraming, aspectRatio };
+  }
+}
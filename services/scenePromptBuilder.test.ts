@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADJUSTMENTS, SCENE_POSES } from '../constants';
+import { ScenePromptBuilder } from './scenePromptBuilder';
+import { ProfileService } from './characterProfile';
+import { LockResolver } from './identityLocks';
+import { CharacterProfile, SceneCharacter } from '../types';
+
+const PROFILE: CharacterProfile = {
+  ...ProfileService.empty(),
+  hairLength: "touching shoulders",
+  hairTexture: "straight",
+  hairColor: "dark brown",
+  faceShape: "oval",
+  eyes: "almond",
+  build: "narrow waist, athletic"
+};
+
+describe('ScenePromptBuilder', () => {
+  const character = (name: string, profile: CharacterProfile | null, clothing: string): SceneCharacter => ({
+    projectId: name,
+    name,
+    references: [
+      { id: `${name}-profile`, url: 'data:,', angle: 'profile' },
+      { id: `${name}-front`, url: 'data:,', angle: 'front' },
+      { id: `${name}-full`, url: 'data:,', angle: 'full-body' }
+    ],
+    profile,
+    adjustments: DEFAULT_ADJUSTMENTS,
+    locks: LockResolver.defaults(),
+    clothing
+  });
+  const cast: [SceneCharacter, SceneCharacter] = [
+    character('alpha', PROFILE, "white tank crop top"),
+    character('beta', null, "black slip dress")
+  ];
+
+  it('labels each character with their own clothing and identity block', () => {
+    const prompt = ScenePromptBuilder.buildPrompt({ pose: SCENE_POSES[0], cast });
+
+    expect(prompt.startsWith("TWO-CHARACTER SCENE. Exactly two people in frame: CHARACTER A on the left, CHARACTER B on the right.")).toBe(true);
+    expect(prompt).toContain(`SCENE: ${SCENE_POSES[0].description}.`);
+    expect(prompt).toContain("CHARACTER A (left of frame) — CLOTHING: white tank crop top. IDENTITY CONSTRAINTS:");
+    expect(prompt).toContain("CHARACTER B (right of frame) — CLOTHING: black slip dress. Match the reference images labelled CHARACTER B exactly.");
+    expect(prompt).toContain("IDENTITY SEPARATION:");
+    expect(prompt.endsWith("ENVIRONMENT: Professional neutral high-key studio, seamless gray backdrop. 8k resolution, high detail.")).toBe(true);
+  });
+
+  it('tags an equal share of references per character, front first', () => {
+    const refs = ScenePromptBuilder.references(cast, 2);
+    expect(refs.map(r => `${r.subject}:${r.angle}`)).toEqual([
+      "CHARACTER A:front", "CHARACTER A:full-body", "CHARACTER B:front", "CHARACTER B:full-body"
+    ]);
+  });
+});
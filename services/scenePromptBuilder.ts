@@ -0,0 +1,41 @@
+import { SCENE_FRAMINGS } from "../constants";
+import { ReferenceImage, SceneCharacter, ScenePose } from "../types";
+import { DEFAULT_ENVIRONMENT, PromptBuilder } from "./promptBuilder";
+import { ReferenceSelector } from "./referenceSelector";
+
+export interface ScenePromptInput {
+  pose: ScenePose;
+  // CHARACTER A (left of frame) then CHARACTER B (right of frame)
+  cast: [SceneCharacter, SceneCharacter];
+  environment?: string;
+}
+
+const SUBJECTS = ['CHARACTER A', 'CHARACTER B'] as const;
+const SIDES = ['left', 'right'] as const;
+
+/**
+ * Prompt compiler for two-character interaction shots. Each character keeps the full identity block the
+ * dataset prompt would give them, labelled so the model can tell whose constraints are whose.
+ */
+export class ScenePromptBuilder {
+  static buildCharacterMod(character: SceneCharacter, index: number): string {
+    const identity = PromptBuilder.buildIdentityMod(character.profile, character.adjustments, character.locks);
+    const matchRefs = `Match the reference images labelled ${SUBJECTS[index]} exactly.`;
+    return `${SUBJECTS[index]} (${SIDES[index]} of frame) — CLOTHING: ${character.clothing}. ${identity ? `${identity} ` : ''}${matchRefs}`;
+  }
+
+  static buildPrompt(input: ScenePromptInput): string {
+    const { pose, cast } = input;
+    const framing = SCENE_FRAMINGS.find(f => f.id === pose.framing)?.prompt ?? SCENE_FRAMINGS[0].prompt;
+    const characters = cast.map((c, i) => this.buildCharacterMod(c, i)).join(' ');
+
+    return `TWO-CHARACTER SCENE. Exactly two people in frame: CHARACTER A on the left, CHARACTER B on the right. SCENE: ${pose.description}. COMPOSITION: ${framing}. ${characters} IDENTITY SEPARATION: These are two different people. Never blend facial features, hair or build between them and never swap their outfits. ENVIRONMENT: ${input.environment || DEFAULT_ENVIRONMENT}. 8k resolution, high detail.`;
+  }
+
+  // References for both characters, each tagged with its subject; every character gets the same share
+  static references(cast: [SceneCharacter, SceneCharacter], perCharacter: number): ReferenceImage[] {
+    return cast.flatMap((character, i) =>
+      ReferenceSelector.selectForScene(character.references, perCharacter).map(ref => ({ ...ref, subject: SUBJECTS[i] }))
+    );
+  }
+}
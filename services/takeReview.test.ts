@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { TakeReview } from './takeReview';
+import { frame } from './testFixtures';
+import { ReviewStatus } from '../types';
+
+const take = (id: string, takeNumber: number, review: ReviewStatus, timestamp = 0, poseId = 'p1') =>
+  frame(id, { batchId: 'b1', poseId, take: takeNumber }, { review, timestamp });
+
+describe('TakeReview.status', () => {
+  it('treats frames without a decision as kept', () => {
+    expect(TakeReview.status(frame('a', {}))).toBe('kept');
+    expect(TakeReview.isKept(frame('a', {}))).toBe(true);
+    expect(TakeReview.isKept(frame('a', {}, { review: 'pending' }))).toBe(false);
+  });
+
+  it('counts pending frames', () => {
+    expect(TakeReview.pendingCount([take('a', 1, 'pending'), take('b', 2, 'kept'), take('c', 3, 'pending')])).toBe(2);
+  });
+});
+
+describe('TakeReview keys', () => {
+  it('shares a shot key across takes but not a slot key', () => {
+    const a = take('a', 1, 'pending');
+    const b = take('b', 2, 'pending');
+    expect(TakeReview.shotKey(a)).toBe(TakeReview.shotKey(b));
+    expect(TakeReview.slotKey(a)).not.toBe(TakeReview.slotKey(b));
+  });
+
+  it('separates planner variants of the same pose', () => {
+    const a = frame('a', { batchId: 'b1', take: 1, variant: 0 });
+    const b = frame('b', { batchId: 'b1', take: 1, variant: 1 });
+    expect(TakeReview.shotKey(a)).not.toBe(TakeReview.shotKey(b));
+  });
+});
+
+describe('TakeReview.groups', () => {
+  it('groups takes by shot in take order', () => {
+    const groups = TakeReview.groups([take('b', 2, 'kept'), take('a', 1, 'kept')]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].images.map(img => img.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves out single-take frames and edited versions', () => {
+    const edited = { ...take('a-v2', 1, 'kept'), edit: { rootId: 'a', parentId: 'a', version: 2, instruction: 'x', masked: false } };
+    expect(TakeReview.groups([frame('single', {}), edited])).toEqual([]);
+  });
+
+  it('puts shots awaiting a decision first, then the newest', () => {
+    const groups = TakeReview.groups([
+      take('old-pending', 1, 'pending', 1, 'p1'),
+      take('new-done', 1, 'kept', 5, 'p2'),
+      take('mid-done', 1, 'rejected', 3, 'p3')
+    ]);
+    expect(groups.map(g => g.images[0].id)).toEqual(['old-pending', 'new-done', 'mid-done']);
+  });
+});
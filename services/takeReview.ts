@@ -0,0 +1,52 @@
+import { GeneratedImage, ReviewStatus } from "../types";
+
+export interface TakeGroup {
+  key: string;
+  label: string;
+  images: GeneratedImage[];
+}
+
+export class TakeReview {
+  static status(img: GeneratedImage): ReviewStatus {
+    return img.review ?? 'kept';
+  }
+
+  // Only kept frames make up the dataset: they are exported and counted toward the balance plan.
+  static isKept(img: GeneratedImage): boolean {
+    return this.status(img) === 'kept';
+  }
+
+  // Takes of one shot share a batch, pose and planner variant
+  static shotKey(img: GeneratedImage): string {
+    return `${img.meta.batchId || ''}|${img.meta.poseId}|${img.meta.variant ?? 0}`;
+  }
+
+  // The exact slot a frame fills, so a regenerated take replaces only itself
+  static slotKey(img: GeneratedImage): string {
+    return `${this.shotKey(img)}|${img.meta.take ?? 0}`;
+  }
+
+  /**
+   * Groups multi-take frames by shot, takes in order. Groups still waiting on a decision come first,
+   * then the newest shots.
+   */
+  static groups(images: GeneratedImage[]): TakeGroup[] {
+    const groups = new Map<string, TakeGroup>();
+    for (const img of images) {
+      // Edited versions are reviewed through their lineage, not as extra takes
+      if (!img.meta.take || img.edit) continue;
+      const key = this.shotKey(img);
+      if (!groups.has(key)) groups.set(key, { key, label: img.meta.poseLabel, images: [] });
+      groups.get(key)!.images.push(img);
+    }
+    const newest = (g: TakeGroup) => Math.max(...g.images.map(img => img.timestamp));
+    const hasPending = (g: TakeGroup) => g.images.some(img => this.status(img) === 'pending');
+    return [...groups.values()]
+      .map(g => ({ ...g, images: [...g.images].sort((a, b) => (a.meta.take ?? 0) - (b.meta.take ?? 0)) }))
+      .sort((a, b) => Number(hasPending(b)) - Number(hasPending(a)) || newest(b) - newest(a));
+  }
+
+  static pendingCount(images: GeneratedImage[]): number {
+    return images.filter(img => this.status(img) === 'pending').length;
+  }
+}
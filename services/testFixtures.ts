@@ -0,0 +1,29 @@
+import { vi } from 'vitest';
+import { DEFAULT_ADJUSTMENTS } from '../constants';
+import { LockResolver } from './identityLocks';
+import { GeneratedImage, GenerationMetadata } from '../types';
+
+// A bin frame with neutral metadata; tests override only the fields they are about
+export const frame = (id: string, meta: Partial<GenerationMetadata> = {}, extra: Partial<GeneratedImage> = {}): GeneratedImage => ({
+  id,
+  url: `data:${id}`,
+  prompt: '',
+  timestamp: 0,
+  meta: {
+    poseId: 'p1', poseLabel: 'Pose 1', poseDescription: '', group: 'portrait', clothing: '', expression: '',
+    aspectRatio: '1:1', resolution: '1K', model: 'mock', profile: '', locks: LockResolver.defaults(),
+    adjustments: DEFAULT_ADJUSTMENTS, attempt: 1, ...meta
+  },
+  ...extra
+});
+
+// In-memory localStorage for the library loaders; call from beforeEach and undo with vi.unstubAllGlobals()
+export const stubStorage = (entries: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(entries));
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+  return store;
+};
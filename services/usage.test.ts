@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Usage } from './usage';
+import { BudgetSettings, PriceEntry, UsageEntry } from '../types';
+
+const PRICES: PriceEntry[] = [
+  { model: 'image-pro', resolution: '1K', price: 0.04 },
+  { model: 'image-pro', resolution: '4K', price: 0.24 }
+];
+
+const NOON = new Date(2026, 4, 12, 12).getTime();
+const YESTERDAY = new Date(2026, 4, 11, 12).getTime();
+
+const entry = (extra: Partial<UsageEntry> = {}): UsageEntry => ({
+  id: 'u1',
+  timestamp: NOON,
+  projectId: 'ava',
+  projectName: 'Ava',
+  kind: 'generate',
+  provider: 'gemini',
+  model: 'image-pro',
+  resolution: '1K',
+  success: true,
+  cost: 0.04,
+  ...extra
+});
+
+const budget = (scope: BudgetSettings['scope']): BudgetSettings => ({ enabled: true, limit: 1, scope });
+
+describe('Usage pricing', () => {
+  it('prices by model and resolution, treating unknown models as free', () => {
+    expect(Usage.price(PRICES, 'image-pro', '4K')).toBe(0.24);
+    expect(Usage.price(PRICES, 'mock', '1K')).toBe(0);
+    expect(Usage.estimate(PRICES, 'image-pro', '1K', 25)).toBeCloseTo(1);
+  });
+});
+
+describe('Usage.spent', () => {
+  const ledger = [
+    entry({ cost: 0.5 }),
+    entry({ projectId: 'ben', cost: 0.25 }),
+    entry({ timestamp: YESTERDAY, cost: 2 })
+  ];
+
+  it('starts every batch from zero', () => {
+    expect(Usage.spent(ledger, budget('batch'), 'ava', NOON)).toBe(0);
+  });
+
+  it('counts the whole project history for a project cap', () => {
+    expect(Usage.spent(ledger, budget('project'), 'ava', NOON)).toBe(2.5);
+  });
+
+  it('counts every project but only today for a daily cap', () => {
+    expect(Usage.spent(ledger, budget('day'), 'ava', NOON)).toBe(0.75);
+  });
+});
+
+describe('Usage meter', () => {
+  it('reserves in-flight prices so concurrent requests cannot pass the limit together', () => {
+    const meter = Usage.newMeter();
+    expect(Usage.reserve(meter, '*', 0.5, 0.24, 1)).toBe(true);
+    expect(Usage.reserve(meter, '*', 0.5, 0.24, 1)).toBe(true);
+    expect(Usage.reserve(meter, '*', 0.5, 0.24, 1)).toBe(false);
+    expect(meter.halted).toBe(true);
+  });
+
+  it('books the cost on settle and frees the price of a failed request', () => {
+    const meter = Usage.newMeter();
+    Usage.reserve(meter, 'ava', 0, 0.24, 1);
+    Usage.reserve(meter, 'ava', 0, 0.24, 1);
+    Usage.settle(meter, 'ava', 0.24, 0.24);
+    Usage.settle(meter, 'ava', 0.24, 0);
+    expect(meter.spent.get('ava')).toBe(0.24);
+    expect(meter.reserved.get('ava')).toBe(0);
+  });
+
+  it('reads the baseline once per key and keeps keys apart', () => {
+    const meter = Usage.newMeter();
+    Usage.reserve(meter, 'ava', 0.9, 0.04, 1);
+    Usage.reserve(meter, 'ava', 0, 0.04, 1);
+    expect(meter.spent.get('ava')).toBe(0.9);
+    expect(Usage.reserve(meter, 'ben', 0, 0.5, 1)).toBe(true);
+  });
+
+  it('never halts without a limit', () => {
+    const meter = Usage.newMeter();
+    expect(Usage.reserve(meter, '*', 1000, 0.24, null)).toBe(true);
+    expect(meter.halted).toBe(false);
+  });
+});
+
+describe('Usage ledger compaction', () => {
+  const ledger = (size: number) => Array.from({ length: size }, (_, i) =>
+    entry({ id: `u${i}`, timestamp: NOON + i, success: i % 10 !== 0, cost: i % 10 !== 0 ? 0.04 : 0, usage: { input: 1, output: 2, total: 3 } }));
+
+  it('leaves a ledger under the cap untouched', () => {
+    const entries = ledger(10);
+    expect(Usage.append(entries.slice(0, 9), entries[9])).toEqual(entries);
+  });
+
+  it('rolls the oldest entries up without changing any total', () => {
+    const entries = ledger(5001);
+    const compacted = Usage.compact(entries);
+    expect(compacted.length).toBeLessThan(entries.length);
+    expect(compacted.slice(-2500)).toEqual(entries.slice(-2500));
+
+    const before = Usage.summarize(entries);
+    const after = Usage.summarize(compacted);
+    expect(after.requests).toBe(before.requests);
+    expect(after.succeeded).toBe(before.succeeded);
+    expect(after.failed).toBe(before.failed);
+    expect(after.tokens).toBe(before.tokens);
+    expect(after.resolutions).toEqual(before.resolutions);
+    expect(after.cost).toBeCloseTo(before.cost);
+    expect(Usage.spent(compacted, budget('project'), 'ava', NOON)).toBeCloseTo(Usage.spent(entries, budget('project'), 'ava', NOON));
+  });
+
+  it('merges rolled-up entries again on a later pass', () => {
+    const once = Usage.compact(ledger(5001));
+    const twice = Usage.compact([...once, ...ledger(5000)]);
+    expect(Usage.summarize(twice).requests).toBe(10001);
+  });
+});
@@ -0,0 +1,222 @@
+import { DEFAULT_BUDGET_SETTINGS, DEFAULT_PRICES } from "../constants";
+import { BudgetSettings, PriceEntry, Resolution, UsageEntry } from "../types";
+
+const LEDGER_KEY = 'ucc:usage';
+const PRICES_KEY = 'ucc:prices';
+const BUDGET_KEY = 'ucc:budget';
+// Past this many entries the oldest are rolled up, keeping the ledger well inside the localStorage quota
+const MAX_LEDGER_ENTRIES = 5000;
+const KEEP_DETAILED_ENTRIES = 2500;
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  requests: number;
+  succeeded: number;
+  failed: number;
+  tokens: number;
+  cost: number;
+  resolutions: Record<Resolution, number>;
+}
+
+/**
+ * Spend tracked against the budget cap while requests run, keyed by cap scope (a project id or '*').
+ * `spent` starts from the ledger on first use; `reserved` holds the price of requests still in flight.
+ */
+export interface BudgetMeter {
+  spent: Map<string, number>;
+  reserved: Map<string, number>;
+  halted: boolean;
+}
+
+export class Usage {
+  static newEntryId() {
+    return `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private static read<T>(key: string, fallback: T, isValid: (value: any) => boolean): T {
+    try {
+      const raw = localStorage.getItem(key);
+      if (!raw) return fallback;
+      const value = JSON.parse(raw);
+      if (!isValid(value)) throw new Error(`Stored ${key} has an unexpected shape.`);
+      return value;
+    } catch (err) {
+      console.error("Usage settings restore failed, falling back to defaults", err);
+      return fallback;
+    }
+  }
+
+  static loadLedger(): UsageEntry[] {
+    return this.read<UsageEntry[]>(LEDGER_KEY, [], Array.isArray);
+  }
+
+  static saveLedger(entries: UsageEntry[]) {
+    try {
+      localStorage.setItem(LEDGER_KEY, JSON.stringify(entries));
+    } catch (err) {
+      // A full quota only costs the persisted copy; the in-memory ledger keeps metering this session
+      console.error("Usage ledger save failed", err);
+    }
+  }
+
+  static append(entries: UsageEntry[], entry: UsageEntry): UsageEntry[] {
+    return this.compact([...entries, entry]);
+  }
+
+  /**
+   * Once the ledger outgrows its cap, the oldest entries are merged into one entry per project, day, batch,
+   * kind, model, resolution and outcome. Costs, tokens and request counts survive, so every summary and the
+   * budget cap read the same totals as before.
+   */
+  static compact(entries: UsageEntry[]): UsageEntry[] {
+    if (entries.length <= MAX_LEDGER_ENTRIES) return entries;
+    const old = entries.slice(0, entries.length - KEEP_DETAILED_ENTRIES);
+    const rolled = new Map<string, UsageEntry>();
+    for (const entry of old) {
+      const key = [entry.projectId, this.dayKey(entry.timestamp), entry.batchId ?? '', entry.kind, entry.model, entry.resolution, entry.success].join('|');
+      const prev = rolled.get(key);
+      if (!prev) {
+        rolled.set(key, { ...entry, id: `usage-rollup-${key}`, count: entry.count ?? 1 });
+        continue;
+      }
+      rolled.set(key, {
+        ...prev,
+        timestamp: Math.max(prev.timestamp, entry.timestamp),
+        projectName: entry.projectName,
+        cost: prev.cost + entry.cost,
+        count: prev.count! + (entry.count ?? 1),
+        usage: prev.usage || entry.usage ? {
+          input: (prev.usage?.input ?? 0) + (entry.usage?.input ?? 0),
+          output: (prev.usage?.output ?? 0) + (entry.usage?.output ?? 0),
+          total: (prev.usage?.total ?? 0) + (entry.usage?.total ?? 0)
+        } : undefined
+      });
+    }
+    return [...rolled.values(), ...entries.slice(entries.length - KEEP_DETAILED_ENTRIES)];
+  }
+
+  static newMeter(): BudgetMeter {
+    return { spent: new Map(), reserved: new Map(), halted: false };
+  }
+
+  /**
+   * Holds `price` against the cap for `key` while a request is in flight, so concurrent workers cannot
+   * overshoot together. `baseline` is the spend the scope already carries. With no limit every request
+   * is held; otherwise one that would pass the limit halts the meter and returns false.
+   */
+  static reserve(meter: BudgetMeter, key: string, baseline: number, price: number, limit: number | null): boolean {
+    if (!meter.spent.has(key)) meter.spent.set(key, baseline);
+    if (limit !== null && meter.spent.get(key)! + (meter.reserved.get(key) ?? 0) + price > limit) {
+      meter.halted = true;
+      return false;
+    }
+    meter.reserved.set(key, (meter.reserved.get(key) ?? 0) + price);
+    return true;
+  }
+
+  // Releases a reservation and books what the request actually cost
+  static settle(meter: BudgetMeter, key: string, price: number, cost: number) {
+    meter.reserved.set(key, (meter.reserved.get(key) ?? 0) - price);
+    meter.spent.set(key, (meter.spent.get(key) ?? 0) + cost);
+  }
+
+  static defaultPrices(): PriceEntry[] {
+    return DEFAULT_PRICES.map(p => ({ ...p }));
+  }
+
+  static loadPrices(): PriceEntry[] {
+    return this.read<PriceEntry[]>(PRICES_KEY, this.defaultPrices(), Array.isArray);
+  }
+
+  static savePrices(prices: PriceEntry[]) {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  }
+
+  static resetPrices(): PriceEntry[] {
+    localStorage.removeItem(PRICES_KEY);
+    return this.defaultPrices();
+  }
+
+  static loadBudget(): BudgetSettings {
+    return { ...DEFAULT_BUDGET_SETTINGS, ...this.read<Partial<BudgetSettings>>(BUDGET_KEY, {}, v => typeof v === 'object' && v !== null) };
+  }
+
+  static saveBudget(budget: BudgetSettings) {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  }
+
+  // Models without a price row (mock, self-hosted) are treated as free
+  static price(prices: PriceEntry[], model: string, resolution: Resolution): number {
+    return prices.find(p => p.model === model && p.resolution === resolution)?.price ?? 0;
+  }
+
+  static estimate(prices: PriceEntry[], model: string, resolution: Resolution, requests: number): number {
+    return this.price(prices, model, resolution) * requests;
+  }
+
+  // Local calendar day, so "today" matches the user's clock rather than UTC
+  static dayKey(timestamp: number): string {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  }
+
+  static summarize(entries: UsageEntry[], key = 'all', label = 'All'): UsageSummary {
+    const summary: UsageSummary = {
+      key, label, requests: 0, succeeded: 0, failed: 0, tokens: 0, cost: 0,
+      resolutions: { '1K': 0, '2K': 0, '4K': 0 }
+    };
+    for (const entry of entries) {
+      const count = entry.count ?? 1;
+      summary.requests += count;
+      if (entry.success) summary.succeeded += count;
+      else summary.failed += count;
+      summary.tokens += entry.usage?.total ?? 0;
+      summary.cost += entry.cost;
+      summary.resolutions[entry.resolution] = (summary.resolutions[entry.resolution] ?? 0) + count;
+    }
+    return summary;
+  }
+
+  // Newest group first
+  private static groupBy(entries: UsageEntry[], keyOf: (e: UsageEntry) => string, labelOf: (e: UsageEntry) => string): UsageSummary[] {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(entry);
+    }
+    return [...groups.entries()]
+      .sort(([, a], [, b]) => Math.max(...b.map(e => e.timestamp)) - Math.max(...a.map(e => e.timestamp)))
+      .map(([key, group]) => this.summarize(group, key, labelOf(group[0])));
+  }
+
+  static byBatch(entries: UsageEntry[]): UsageSummary[] {
+    return this.groupBy(
+      entries,
+      e => e.batchId || `edits-${e.projectId}`,
+      e => e.batchId ? new Date(e.timestamp).toLocaleString() : 'Lightbox Edits'
+    );
+  }
+
+  static byDay(entries: UsageEntry[]): UsageSummary[] {
+    return this.groupBy(entries, e => this.dayKey(e.timestamp), e => this.dayKey(e.timestamp));
+  }
+
+  static byProject(entries: UsageEntry[]): UsageSummary[] {
+    return this.groupBy(entries, e => e.projectId, e => e.projectName);
+  }
+
+  // Spend that counts against the budget cap for its scope; a batch starts from zero
+  static spent(entries: UsageEntry[], budget: BudgetSettings, projectId: string, now = Date.now()): number {
+    if (budget.scope === 'batch') return 0;
+    const today = this.dayKey(now);
+    return entries
+      .filter(e => budget.scope === 'project' ? e.projectId === projectId : this.dayKey(e.timestamp) === today)
+      .reduce((sum, e) => sum + e.cost, 0);
+  }
+
+  static formatCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 1 ? 3 : 2)}`;
+  }
+}
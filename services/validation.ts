@@ -0,0 +1,40 @@
+import { ASPECT_RATIO_OPTIONS } from "../constants";
+import { AspectRatio } from "../types";
+
+// Field checks shared by the stored libraries; each throws an error naming the entry (`where`) and the field
+export class Validation {
+  /**
+   * Validates stored entries one at a time. A malformed entry is logged and dropped rather than costing
+   * the user the rest of the library; so is a later entry reusing an id.
+   */
+  static keepValid<T extends { id: string }>(entries: unknown[], validate: (entry: unknown, index: number) => T, library: string): T[] {
+    const kept: T[] = [];
+    entries.forEach((entry, index) => {
+      try {
+        const valid = validate(entry, index);
+        if (kept.some(k => k.id === valid.id)) throw new Error(`Duplicate id "${valid.id}".`);
+        kept.push(valid);
+      } catch (err) {
+        console.error(`Skipping a stored ${library} entry`, err);
+      }
+    });
+    return kept;
+  }
+
+  static fields(value: unknown, where: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object') throw new Error(`${where} is not an object.`);
+    return value as Record<string, unknown>;
+  }
+
+  // Non-blank text, trimmed
+  static text(fields: Record<string, unknown>, field: string, where: string): string {
+    const value = fields[field];
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`${where} is missing "${field}".`);
+    return value.trim();
+  }
+
+  static aspectRatio(value: unknown, where: string): AspectRatio {
+    if (!ASPECT_RATIO_OPTIONS.includes(value as AspectRatio)) throw new Error(`${where} has unsupported aspect ratio "${value}".`);
+    return value as AspectRatio;
+  }
+}
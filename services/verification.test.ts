@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Verification } from './verification';
+
+describe('Verification.normalize', () => {
+  it('clamps and rounds scores into 0-100', () => {
+    expect(Verification.normalize({ face: 104.6, hair: -3, body: "72.4", poseMatch: true, poseNote: " ok " }))
+      .toEqual({ face: 100, hair: 0, body: 72, poseMatch: true, poseNote: "ok" });
+  });
+
+  it('leaves missing or unreadable hair and body scores absent', () => {
+    const score = Verification.normalize({ face: 80, hair: "unclear", poseMatch: true });
+    expect(score.hair).toBeNull();
+    expect(score.body).toBeNull();
+  });
+
+  it('rejects a response without a boolean pose verdict', () => {
+    expect(() => Verification.normalize({ face: 80 })).toThrow("no pose verdict");
+    expect(() => Verification.normalize({ face: 80, poseMatch: "yes" })).toThrow("no pose verdict");
+    expect(Verification.normalize({ face: 80, poseMatch: false }).poseMatch).toBe(false);
+  });
+
+  it('rejects a response without a face score', () => {
+    expect(() => Verification.normalize({ hair: 90, body: 90 })).toThrow("no face score");
+    expect(() => Verification.normalize(null)).toThrow();
+  });
+});
+
+describe('Verification.overall', () => {
+  it('weights face over hair and body', () => {
+    expect(Verification.overall({ face: 100, hair: 0, body: 0, poseMatch: true, poseNote: "" })).toBe(50);
+  });
+
+  it('drops absent parts from the weighting', () => {
+    expect(Verification.overall({ face: 80, hair: null, body: null, poseMatch: true, poseNote: "" })).toBe(80);
+    expect(Verification.overall({ face: 90, hair: 60, body: null, poseMatch: true, poseNote: "" })).toBe(80);
+  });
+
+  it('fails a frame in the wrong pose regardless of likeness', () => {
+    const score = Verification.create({ face: 100, hair: 100, body: 100, poseMatch: false, poseNote: "" }, 'model');
+    expect(Verification.passes(score, 50)).toBe(false);
+  });
+});
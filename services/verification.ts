@@ -0,0 +1,55 @@
+import { FrameScore, GeneratedImage, IdentityScore } from "../types";
+
+// Face carries identity for a LoRA; hair and body are weighted lower and dropped when not visible or not scored.
+const WEIGHTS = { face: 0.5, hair: 0.25, body: 0.25 };
+
+export class Verification {
+  // A field the backend left out or could not score is absent, never a zero
+  private static clamp(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? Math.min(100, Math.max(0, Math.round(n))) : null;
+  }
+
+  /**
+   * Coerces whatever the analysis backend returned into a well-formed score; providers call it once, at the
+   * response boundary. Without a face score or a pose verdict the reply (often a truncated one) cannot pass a
+   * frame, so it throws and the frame stays unverified.
+   */
+  static normalize(raw: any): FrameScore {
+    const face = this.clamp(raw?.face);
+    if (face === null) throw new Error("The verifier returned no face score.");
+    if (typeof raw.poseMatch !== 'boolean') throw new Error("The verifier returned no pose verdict.");
+    return {
+      face,
+      hair: this.clamp(raw.hair),
+      body: this.clamp(raw.body),
+      poseMatch: raw.poseMatch,
+      poseNote: typeof raw?.poseNote === 'string' ? raw.poseNote.trim() : ""
+    };
+  }
+
+  static overall(score: FrameScore): number {
+    const parts = [
+      { value: score.face, weight: WEIGHTS.face },
+      ...(score.hair === null ? [] : [{ value: score.hair, weight: WEIGHTS.hair }]),
+      ...(score.body === null ? [] : [{ value: score.body, weight: WEIGHTS.body }])
+    ];
+    const weight = parts.reduce((sum, p) => sum + p.weight, 0);
+    return Math.round(parts.reduce((sum, p) => sum + p.value * p.weight, 0) / weight);
+  }
+
+  // Stamps a provider's (already normalized) score with its overall and the model that produced it
+  static create(score: FrameScore, model: string): IdentityScore {
+    return { ...score, overall: this.overall(score), model, verifiedAt: Date.now() };
+  }
+
+  // A frame in the wrong orientation fails no matter how good the likeness is.
+  static passes(score: IdentityScore, threshold: number): boolean {
+    return score.poseMatch && score.overall >= threshold;
+  }
+
+  static failing(images: GeneratedImage[], threshold: number): GeneratedImage[] {
+    return images.filter(img => img.score && !this.passes(img.score, threshold));
+  }
+}
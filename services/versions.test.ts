@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Versions } from './versions';
+import { frame } from './testFixtures';
+import { GeneratedImage } from '../types';
+
+const edit = (id: string, rootId: string, version: number, extra: Partial<GeneratedImage> = {}) =>
+  frame(id, {}, { edit: { rootId, parentId: rootId, version, instruction: 'fix', masked: false }, ...extra });
+
+describe('Versions.lineage', () => {
+  it('collects every version of a frame, original first', () => {
+    const images = [edit('a-3', 'a', 3), frame('b'), frame('a'), edit('a-2', 'a', 2)];
+    expect(Versions.lineage(images, images[0]).map(i => i.id)).toEqual(['a', 'a-2', 'a-3']);
+  });
+});
+
+describe('Versions.active', () => {
+  it('prefers the marked version, then the original, then the newest edit', () => {
+    expect(Versions.active([frame('a'), edit('a-2', 'a', 2, { activeVersion: true })])?.id).toBe('a-2');
+    expect(Versions.active([frame('a'), edit('a-2', 'a', 2)])?.id).toBe('a');
+    expect(Versions.active([edit('a-2', 'a', 2), edit('a-3', 'a', 3)])?.id).toBe('a-3');
+  });
+
+  it('counts a frame without edits as active', () => {
+    const images = [frame('a'), frame('b'), edit('b-2', 'b', 2, { activeVersion: true })];
+    expect(Versions.isActive(images, images[0])).toBe(true);
+    expect(Versions.isActive(images, images[1])).toBe(false);
+  });
+});
+
+describe('Versions.select', () => {
+  it('moves the active flag within one lineage only', () => {
+    const images = [frame('a', {}, { activeVersion: true }), edit('a-2', 'a', 2), frame('b', {}, { activeVersion: true })];
+    const next = Versions.select(images, 'a-2');
+    expect(next.map(i => i.activeVersion)).toEqual([false, true, true]);
+  });
+});
+
+describe('Versions.setReview', () => {
+  it('applies the decision to every version of the lineage', () => {
+    const images = [frame('a', {}, { review: 'pending' }), edit('a-2', 'a', 2, { review: 'pending' }), frame('b', {}, { review: 'pending' })];
+    const next = Versions.setReview(images, 'a', 'kept');
+    expect(next.map(i => i.review)).toEqual(['kept', 'kept', 'pending']);
+  });
+
+  it('leaves the bin alone for an unknown id', () => {
+    const images = [frame('a')];
+    expect(Versions.setReview(images, 'missing', 'rejected')).toBe(images);
+  });
+});
+
+describe('Versions.create', () => {
+  it('takes the next version number and keeps the parent review', () => {
+    const parent = edit('a-2', 'a', 2, { review: 'kept', score: { face: 90, hair: 80, body: null, poseMatch: true, poseNote: '', overall: 85, model: 'mock', verifiedAt: 0 } });
+    const version = Versions.create([frame('a'), parent], parent, 'a-new', 'data:edited', 'smile', true);
+    expect(version).toMatchObject({
+      id: 'a-new',
+      url: 'data:edited',
+      review: 'kept',
+      edit: { rootId: 'a', parentId: 'a-2', version: 3, instruction: 'smile', masked: true }
+    });
+    expect(version.score).toBeUndefined();
+  });
+
+  it('numbers against the bin it is given, not the one the edit started from', () => {
+    const original = frame('a');
+    const landed = [edit('a-2', 'a', 2), original];
+    expect(Versions.create(landed, original, 'a-new', 'data:,', 'fix', false).edit?.version).toBe(3);
+  });
+});
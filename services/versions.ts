@@ -0,0 +1,70 @@
+import { GeneratedImage, ReviewStatus } from "../types";
+
+export class Versions {
+  static rootId(img: GeneratedImage): string {
+    return img.edit?.rootId ?? img.id;
+  }
+
+  static number(img: GeneratedImage): number {
+    return img.edit?.version ?? 1;
+  }
+
+  // Every version of the frame's lineage still in the bin, original first
+  static lineage(images: GeneratedImage[], img: GeneratedImage): GeneratedImage[] {
+    const root = this.rootId(img);
+    return images.filter(i => this.rootId(i) === root).sort((a, b) => this.number(a) - this.number(b));
+  }
+
+  /**
+   * The version exported for a lineage: the one marked active, else the original,
+   * else the newest edit left once the original was deleted.
+   */
+  static active(lineage: GeneratedImage[]): GeneratedImage | undefined {
+    return lineage.find(i => i.activeVersion) ?? lineage.find(i => !i.edit) ?? lineage[lineage.length - 1];
+  }
+
+  static isActive(images: GeneratedImage[], img: GeneratedImage): boolean {
+    const lineage = this.lineage(images, img);
+    return lineage.length === 1 || this.active(lineage)?.id === img.id;
+  }
+
+  // Marks one version active and clears the flag on the rest of its lineage
+  static select(images: GeneratedImage[], id: string): GeneratedImage[] {
+    const target = images.find(i => i.id === id);
+    if (!target) return images;
+    const root = this.rootId(target);
+    return images.map(i => this.rootId(i) === root ? { ...i, activeVersion: i.id === id } : i);
+  }
+
+  // A review decision belongs to the shot, so it is applied to every version of the lineage
+  static setReview(images: GeneratedImage[], id: string, review: ReviewStatus): GeneratedImage[] {
+    const target = images.find(i => i.id === id);
+    if (!target) return images;
+    const root = this.rootId(target);
+    return images.map(i => this.rootId(i) === root ? { ...i, review } : i);
+  }
+
+  // Edit ids are minted before the result lands, so they cannot depend on the version number
+  static newId(parent: GeneratedImage): string {
+    return `${this.rootId(parent)}-e${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Builds the frame for an edit result. It keeps the parent's metadata and review decision,
+   * drops the identity score (the pixels changed), and takes the next version number in `images`.
+   */
+  static create(images: GeneratedImage[], parent: GeneratedImage, id: string, url: string, instruction: string, masked: boolean): GeneratedImage {
+    const lineage = this.lineage(images, parent);
+    const version = Math.max(...lineage.map(i => this.number(i))) + 1;
+    return {
+      id,
+      url,
+      prompt: parent.prompt,
+      timestamp: Date.now(),
+      group: parent.group,
+      meta: { ...parent.meta },
+      review: parent.review,
+      edit: { rootId: this.rootId(parent), parentId: parent.id, version, instruction, masked }
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Wardrobe } from './wardrobe';
+import { stubStorage } from './testFixtures';
+
+const ITEM = { id: 't1', name: 'Denim jacket', category: 'top', weight: 1, tags: ['casual'] };
+
+describe('Wardrobe.load', () => {
+  beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => undefined));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the valid items when one is malformed', () => {
+    stubStorage({ 'ucc:wardrobe': JSON.stringify([ITEM, { ...ITEM, id: 't2', tags: 'casual' }, { ...ITEM, id: 'b1', category: 'bottom' }]) });
+    expect(Wardrobe.load().map(i => i.id)).toEqual(['t1', 'b1']);
+  });
+
+  it('allows a blank name while an item is being edited', () => {
+    stubStorage({ 'ucc:wardrobe': JSON.stringify([{ ...ITEM, name: '' }]) });
+    expect(Wardrobe.load()).toEqual([{ ...ITEM, name: '' }]);
+  });
+
+  it('falls back to defaults only when the stored value is not a list', () => {
+    stubStorage({ 'ucc:wardrobe': JSON.stringify({ items: [ITEM] }) });
+    expect(Wardrobe.load()).toEqual(Wardrobe.defaults());
+  });
+});
+
+describe('Wardrobe.validateItem', () => {
+  it('names the entry and field that failed', () => {
+    expect(() => Wardrobe.validateItem({ ...ITEM, weight: 'heavy' }, 2)).toThrow('Wardrobe item #3 has no numeric "weight".');
+    expect(() => Wardrobe.validateItem({ ...ITEM, category: 'hat' }, 0)).toThrow('unknown category "hat"');
+  });
+});
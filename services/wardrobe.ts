@@ -0,0 +1,94 @@
+import { DEFAULT_WARDROBE, WARDROBE_CATEGORIES } from "../constants";
+import { DatasetGroup, Outfit, WardrobeCategory, WardrobeFilter, WardrobeItem } from "../types";
+import { SeededRandom } from "./random";
+import { Validation } from "./validation";
+
+const STORAGE_KEY = 'ucc:wardrobe';
+
+export class Wardrobe {
+  static defaults(): WardrobeItem[] {
+    return DEFAULT_WARDROBE.map(item => ({ ...item, tags: [...item.tags] }));
+  }
+
+  static load(): WardrobeItem[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return this.defaults();
+      const items = JSON.parse(raw);
+      if (!Array.isArray(items)) throw new Error("Stored wardrobe is not an array.");
+      return Validation.keepValid(items, (item, i) => this.validateItem(item, i), 'wardrobe');
+    } catch (err) {
+      console.error("Wardrobe restore failed, falling back to defaults", err);
+      return this.defaults();
+    }
+  }
+
+  // Names may be blank while an item is being edited; such items are simply never picked
+  static validateItem(item: unknown, index: number): WardrobeItem {
+    const where = `Wardrobe item #${index + 1}`;
+    const { id, name, category, weight, tags } = Validation.fields(item, where);
+    if (typeof id !== 'string' || !id.trim()) throw new Error(`${where} is missing "id".`);
+    if (typeof name !== 'string') throw new Error(`${where} is missing "name".`);
+    if (!WARDROBE_CATEGORIES.some(c => c.id === category)) throw new Error(`${where} has unknown category "${category}".`);
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) throw new Error(`${where} has no numeric "weight".`);
+    if (!Array.isArray(tags) || !tags.every(t => typeof t === 'string')) throw new Error(`${where} has malformed "tags".`);
+    return { id, name, category: category as WardrobeCategory, weight, tags: [...tags] };
+  }
+
+  static save(items: WardrobeItem[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }
+
+  static reset(): WardrobeItem[] {
+    localStorage.removeItem(STORAGE_KEY);
+    return this.defaults();
+  }
+
+  static nextId(items: WardrobeItem[], category: WardrobeItem['category']): string {
+    const prefix = category === 'top' ? 't' : category === 'bottom' ? 'b' : 'd';
+    let n = 1;
+    while (items.some(i => i.id === `${prefix}${n}`)) n++;
+    return `${prefix}${n}`;
+  }
+
+  static allTags(items: WardrobeItem[]): string[] {
+    return [...new Set(items.flatMap(i => i.tags))].sort();
+  }
+
+  // Allow tags narrow the pool when present; deny tags and excluded ids always win.
+  static isAllowed(item: WardrobeItem, filter: WardrobeFilter): boolean {
+    if (item.weight <= 0 || !item.name.trim()) return false;
+    if (filter.excludedItemIds.includes(item.id)) return false;
+    if (item.tags.some(t => filter.denyTags.includes(t))) return false;
+    if (filter.allowTags.length > 0 && !item.tags.some(t => filter.allowTags.includes(t))) return false;
+    return true;
+  }
+
+  static eligible(items: WardrobeItem[], filter: WardrobeFilter): WardrobeItem[] {
+    return items.filter(item => this.isAllowed(item, filter));
+  }
+
+  /**
+   * Picks an outfit for a pose. Portraits only need what is visible above the waist (a top or a one-piece);
+   * upper and full body shots always get a complete outfit: top + bottom, or a one-piece.
+   */
+  static pickOutfit(items: WardrobeItem[], filter: WardrobeFilter, group: DatasetGroup, random: () => number = Math.random): Outfit {
+    const pool = this.eligible(items, filter);
+    const bottoms = pool.filter(i => i.category === 'bottom');
+    const needsComplete = group !== 'portrait';
+    // A top can only anchor a complete outfit if there is a bottom to pair it with.
+    const anchors = pool.filter(i => i.category === 'one-piece' || (i.category === 'top' && (!needsComplete || bottoms.length > 0)));
+
+    const anchor = SeededRandom.pickWeighted(anchors, random);
+    if (!anchor) throw new Error("Wardrobe has no eligible outfits for this project. Loosen the allow/deny filters.");
+
+    const outfitItems = anchor.category === 'top' && needsComplete
+      ? [anchor, SeededRandom.pickWeighted(bottoms, random)!]
+      : [anchor];
+    return { items: outfitItems, description: this.describe(outfitItems) };
+  }
+
+  static describe(items: WardrobeItem[]): string {
+    return items.map(i => i.name).join(' with ');
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Workspace } from './workspace';
+import { BatchManifest } from '../types';
+
+const manifest = (id: string) => ({ id } as BatchManifest);
+
+describe('Workspace tabs', () => {
+  it('opens a tab once, at the end', () => {
+    expect(Workspace.open(['a', 'b'], 'c')).toEqual(['a', 'b', 'c']);
+    const tabs = ['a', 'b'];
+    expect(Workspace.open(tabs, 'a')).toBe(tabs);
+  });
+
+  it('closes a tab', () => {
+    expect(Workspace.close(['a', 'b', 'c'], 'b')).toEqual(['a', 'c']);
+  });
+
+  it('falls back to the right neighbour, then the left', () => {
+    expect(Workspace.neighbour(['a', 'b', 'c'], 'b')).toBe('c');
+    expect(Workspace.neighbour(['a', 'b', 'c'], 'c')).toBe('b');
+    expect(Workspace.neighbour(['a'], 'a')).toBeUndefined();
+  });
+});
+
+describe('Workspace.interleave', () => {
+  it('takes one item from each list in turn', () => {
+    expect(Workspace.interleave([['a1', 'a2', 'a3'], ['b1'], ['c1', 'c2']])).toEqual(['a1', 'b1', 'c1', 'a2', 'c2', 'a3']);
+  });
+
+  it('handles no lists and empty lists', () => {
+    expect(Workspace.interleave([])).toEqual([]);
+    expect(Workspace.interleave([[], ['b1']])).toEqual(['b1']);
+  });
+});
+
+describe('Workspace.merge', () => {
+  it('prepends incoming entries the project does not hold yet', () => {
+    const merged = Workspace.merge([manifest('m1'), manifest('m2')], [manifest('m3'), manifest('m1')]);
+    expect(merged.map(m => m.id)).toEqual(['m3', 'm1', 'm2']);
+  });
+});
@@ -0,0 +1,54 @@
+import { BatchManifest, GeneratedImage, SceneShot } from "../types";
+
+const TABS_KEY = 'ucc:workspace-tabs';
+
+export class Workspace {
+  static loadTabs(): string[] {
+    try {
+      const raw = localStorage.getItem(TABS_KEY);
+      if (!raw) return [];
+      const tabs = JSON.parse(raw);
+      if (!Array.isArray(tabs)) throw new Error("Stored workspace tabs are not an array.");
+      return tabs.filter((id: unknown): id is string => typeof id === 'string');
+    } catch (err) {
+      console.error("Workspace restore failed, starting with no open tabs", err);
+      return [];
+    }
+  }
+
+  static saveTabs(tabs: string[]) {
+    localStorage.setItem(TABS_KEY, JSON.stringify(tabs));
+  }
+
+  static open(tabs: string[], id: string): string[] {
+    return tabs.includes(id) ? tabs : [...tabs, id];
+  }
+
+  static close(tabs: string[], id: string): string[] {
+    return tabs.filter(t => t !== id);
+  }
+
+  // The tab to fall back to when `id` closes: its right neighbour, else its left one
+  static neighbour(tabs: string[], id: string): string | undefined {
+    const index = tabs.indexOf(id);
+    return tabs[index + 1] ?? tabs[index - 1];
+  }
+
+  // Round-robin merge, so every queued character gets frames early instead of waiting behind a whole batch
+  static interleave<T>(lists: T[][]): T[] {
+    const merged: T[] = [];
+    const longest = Math.max(0, ...lists.map(list => list.length));
+    for (let i = 0; i < longest; i++) {
+      for (const list of lists) {
+        if (i < list.length) merged.push(list[i]);
+      }
+    }
+    return merged;
+  }
+
+  // Prepends entries that arrived for a background tab, skipping ones the stored project already holds
+  static merge<T extends GeneratedImage | BatchManifest | SceneShot>(existing: T[], incoming: T[]): T[] {
+    const ids = new Set(existing.map(item => item.id));
+    return [...incoming.filter(item => !ids.has(item.id)), ...existing];
+  }
+}
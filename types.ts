@@ -1,18 +1,203 @@
 
 export enum AppMode {
   IDLE = 'IDLE',
-  DATASET = 'DATASET'
+  DATASET = 'DATASET',
+  SCENE = 'SCENE'
 }
 
 export type Resolution = '1K' | '2K' | '4K';
 
+export type ProfileMode = 'auto' | 'manual';
+
 export type DatasetGroup = 'portrait' | 'upper' | 'full';
 
+export type PoseFacing =
+  | 'frontal'
+  | 'angled-left'
+  | 'angled-right'
+  | 'profile-left'
+  | 'profile-right'
+  | 'rear'
+  | 'rear-left'
+  | 'rear-right'
+  | 'unspecified';
+
 export interface DatasetPose {
   id: string;
   label: string;
   group: DatasetGroup;
   description: string;
+  // Explicit overrides; when absent they are inferred from the description and group
+  orientation?: PoseFacing;
+  aspectRatio?: AspectRatio;
+}
+
+// Coarse shot direction used to pick references and to balance a dataset
+export type ShotAngle = 'front' | 'angled' | 'profile' | 'rear';
+
+export interface PosePack {
+  name: string;
+  version: number;
+  poses: DatasetPose[];
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ReferenceAngle = 'front' | 'angled' | 'profile' | 'rear' | 'full-body';
+
+export interface ReferenceImage {
+  id: string;
+  url: string;
+  angle: ReferenceAngle;
+  // Which character the image shows when one request carries several (scene shots); absent otherwise
+  subject?: string;
+}
+
+export type WardrobeCategory = 'top' | 'bottom' | 'one-piece';
+
+export interface WardrobeItem {
+  id: string;
+  name: string;
+  category: WardrobeCategory;
+  weight: number;
+  tags: string[];
+}
+
+export interface WardrobeFilter {
+  allowTags: string[];
+  denyTags: string[];
+  excludedItemIds: string[];
+}
+
+export type EnvironmentCategory = 'studio' | 'outdoor' | 'interior' | 'golden-hour' | 'night';
+
+export interface EnvironmentPreset {
+  id: string;
+  name: string;
+  category: EnvironmentCategory;
+  setting: string;
+  lighting: string;
+  // Short phrase used in captions, e.g. "on a beach"
+  caption: string;
+  weight: number;
+}
+
+// Per-project choice: one preset for every frame or a weighted draw per frame; pose assignments win over both
+export interface EnvironmentSettings {
+  mode: 'fixed' | 'weighted';
+  presetId: string;
+  poseAssignments: Record<string, string>;
+}
+
+export interface Outfit {
+  items: WardrobeItem[];
+  description: string;
+}
+
+// Proportion targets applied on top of an overridden or varied build
+export interface CharacterAdjustments {
+  chestSize: string;
+  hipSize: string;
+}
+
+export type IdentityAttribute =
+  | 'hairColor'
+  | 'hairLength'
+  | 'hairstyle'
+  | 'skinTone'
+  | 'age'
+  | 'makeup'
+  | 'marks'
+  | 'eyeColor'
+  | 'build';
+
+// keep: taken from the references/profile; override: one fixed value; vary: a different option per frame
+export type LockMode = 'keep' | 'override' | 'vary';
+
+export interface AttributeLock {
+  mode: LockMode;
+  value: string;
+}
+
+export type IdentityLocks = Record<IdentityAttribute, AttributeLock>;
+
+// Concrete values picked for the attributes set to "vary", per frame
+export type IdentityVariations = Partial<Record<IdentityAttribute, string>>;
+
+export type ProfileSection = 'hair' | 'face' | 'body' | 'other';
+
+// Every field is free text; an empty string means "not described"
+export interface CharacterProfile {
+  hairLength: string;
+  hairTexture: string;
+  hairColor: string;
+  faceShape: string;
+  eyes: string;
+  skin: string;
+  build: string;
+  distinguishingMarks: string;
+  notes: string;
+}
+
+export type ProfileField = keyof CharacterProfile;
+
+export interface GenerationMetadata {
+  poseId: string;
+  poseLabel: string;
+  poseDescription: string;
+  group: DatasetGroup;
+  clothing: string;
+  expression: string;
+  environment?: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  model: string;
+  profile: string;
+  locks: IdentityLocks;
+  adjustments: CharacterAdjustments;
+  attempt: number;
+  batchId?: string;
+  seed?: number;
+  variant?: number;
+  take?: number;
+  variations?: IdentityVariations;
+}
+
+export type SceneFraming = 'medium' | 'full' | 'wide';
+
+// An interaction shot for two characters; descriptions call them CHARACTER A (left) and CHARACTER B (right)
+export interface ScenePose {
+  id: string;
+  label: string;
+  description: string;
+  framing: SceneFraming;
+  aspectRatio: AspectRatio;
+}
+
+// One side of a scene: everything the prompt and references need from that character's saved project
+export interface SceneCharacter {
+  projectId: string;
+  name: string;
+  references: ReferenceImage[];
+  profile: CharacterProfile | null;
+  adjustments: CharacterAdjustments;
+  locks: IdentityLocks;
+  clothing: string;
+}
+
+export interface SceneShot {
+  id: string;
+  url: string;
+  prompt: string;
+  timestamp: number;
+  sceneId: string;
+  sceneLabel: string;
+  // Names and project ids of CHARACTER A and CHARACTER B, in that order
+  cast: { projectId: string; name: string; clothing: string }[];
+  environment: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  model: string;
 }
 
 export interface GeneratedImage {
@@ -21,19 +206,326 @@ export interface GeneratedImage {
   prompt: string;
   timestamp: number;
   group?: string;
+  meta: GenerationMetadata;
+  score?: IdentityScore;
+  // Absent means kept: single-take frames and frames from older projects skip review
+  review?: ReviewStatus;
+  // Set on frames produced by an edit pass; absent on originals
+  edit?: ImageEdit;
+  // Marks the version exported for its lineage; see Versions.active for the fallback
+  activeVersion?: boolean;
+  // Set on frames loaded from a dataset archive: the path inside it and the caption it shipped with.
+  // groupAssumed marks frames whose group could not be recovered; they export without a framing or group folder.
+  imported?: { file: string; caption?: string; groupAssumed?: boolean };
 }
 
-export interface CharacterAdjustments {
-  eyeColor: string;
-  bodyBuild: string;
-  chestSize: string;
-  hipSize: string;
+export interface ImageEdit {
+  // Original frame the lineage started from, and the version this edit was made on
+  rootId: string;
+  parentId: string;
+  // 1 is the original; each edit takes the next number in its lineage
+  version: number;
+  instruction: string;
+  masked: boolean;
+}
+
+export type ReviewStatus = 'pending' | 'kept' | 'rejected';
+
+// Raw per-frame judgement from the analysis model; scores are 0-100, hair and body are null when not visible or not scored
+export interface FrameScore {
+  face: number;
+  hair: number | null;
+  body: number | null;
+  poseMatch: boolean;
+  poseNote: string;
+}
+
+export interface IdentityScore extends FrameScore {
+  overall: number;
+  model: string;
+  verifiedAt: number;
+}
+
+export interface VerificationRequest {
+  image: string;
+  references: ReferenceImage[];
+  poseDescription: string;
+  profile: string;
+}
+
+export interface VerificationSettings {
+  autoVerify: boolean;
+  threshold: number;
+  autoRegenerate: boolean;
+  maxRegenerations: number;
+}
+
+export interface PoseJob {
+  pose: DatasetPose;
+  prompt: string;
+  clothing: string;
+  expression: string;
+  variations: IdentityVariations;
+  // Caption phrase of the environment preset; absent in manifests recorded before presets existed
+  environment?: string;
+  environmentId?: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  batchId: string;
+  seed: number;
+  // Repeat of a pose drawn by the balance planner with its own outfit and expression; absent or 0 for the first
+  variant?: number;
+  // 1-based take number when several renders of the same prompt are requested for review
+  take?: number;
+}
+
+// A job in the batch preview. Pinned picks survive a batch re-roll; an edited prompt freezes the whole job.
+export interface CompiledFrame {
+  job: PoseJob;
+  pinClothing: boolean;
+  pinExpression: boolean;
+  edited: boolean;
+}
+
+export interface CompiledBatch {
+  id: string;
+  seed: number;
+  frames: CompiledFrame[];
+}
+
+export interface BatchManifest {
+  version: number;
+  id: string;
+  createdAt: number;
+  seed: number;
+  projectName: string;
+  provider: ProviderId;
+  models: { image: string; analysis: string };
+  settings: {
+    profileMode: ProfileMode;
+    profile: string;
+    adjustments: CharacterAdjustments;
+    locks: IdentityLocks;
+    wardrobeFilter: WardrobeFilter;
+    environment?: EnvironmentSettings;
+    queue: QueueSettings;
+  };
+  jobs: PoseJob[];
+}
+
+// The character a job renders for, captured when it is launched or queued so other tabs can run alongside the open one
+export interface RenderTarget {
+  projectId: string;
+  projectName: string;
+  references: ReferenceImage[];
+  profile: string;
+  locks: IdentityLocks;
+  adjustments: CharacterAdjustments;
+}
+
+// A compiled batch waiting in the workspace queue; its jobs render interleaved with the other characters' batches
+export interface QueuedBatch {
+  target: RenderTarget;
+  manifest: BatchManifest;
 }
 
 export interface GenerationTask {
   status: 'pending' | 'generating' | 'completed' | 'failed' | 'stopped';
+  phase: 'render' | 'verify';
   total: number;
   current: number;
+  active: number;
+  retries: number;
   images: GeneratedImage[];
   error?: string;
 }
+
+export interface QueueSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export type CaptionStyle = 'tags' | 'natural';
+
+export type CaptionField = 'pose' | 'clothing' | 'expression' | 'framing' | 'variations' | 'environment';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  triggerWord: string;
+  style: CaptionStyle;
+  omitFields: CaptionField[];
+}
+
+export type ExportProfileId = 'flat' | 'kohya' | 'huggingface' | 'json';
+
+export type ExportImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportSettings {
+  profile: ExportProfileId;
+  format: ExportImageFormat;
+  // 1-100, ignored for PNG
+  quality: number;
+  // Tokens: {project} {pose} {poseId} {group} {index} {take} {version}
+  nameTemplate: string;
+  splitByGroup: boolean;
+  // kohya_ss folder name: <repeats>_<trigger> <class>
+  repeats: number;
+  className: string;
+}
+
+export type UsageKind = 'generate' | 'edit';
+
+// One image request as recorded in the usage ledger
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  projectId: string;
+  projectName: string;
+  // Absent for lightbox edits, which run outside a batch
+  batchId?: string;
+  kind: UsageKind;
+  provider: ProviderId;
+  model: string;
+  resolution: Resolution;
+  success: boolean;
+  usage?: TokenUsage;
+  // Estimated from the price table at request time; failed requests are not billed
+  cost: number;
+  // Set on entries rolled up from older requests: how many requests they stand for (absent means 1)
+  count?: number;
+}
+
+// USD per successful image for a model at a resolution tier
+export interface PriceEntry {
+  model: string;
+  resolution: Resolution;
+  price: number;
+}
+
+export type BudgetScope = 'batch' | 'project' | 'day';
+
+export interface BudgetSettings {
+  enabled: boolean;
+  limit: number;
+  scope: BudgetScope;
+}
+
+export type CropMode = 'center' | 'face';
+
+export interface TrainingBucket {
+  width: number;
+  height: number;
+}
+
+export interface PostProcessSettings {
+  enabled: boolean;
+  // Each frame is cropped and resized to the bucket closest to its aspect ratio
+  buckets: TrainingBucket[];
+  crop: CropMode;
+  dedupe: boolean;
+  // Largest perceptual-hash Hamming distance (out of 64 bits) still treated as a duplicate
+  dedupeThreshold: number;
+}
+
+// Percent weights; they do not have to add up to 100 and are normalized when the plan is built
+export interface BalancePlan {
+  total: number;
+  groups: Record<DatasetGroup, number>;
+  angles: Record<ShotAngle, number>;
+}
+
+export type BalanceMatrix = Record<DatasetGroup, Record<ShotAngle, number>>;
+
+export interface PlannedFrame {
+  pose: DatasetPose;
+  variant: number;
+}
+
+export interface ProjectSnapshot {
+  name: string;
+  references: ReferenceImage[];
+  characterProfile: CharacterProfile | null;
+  manualCharacterProfile: CharacterProfile;
+  profileMode: ProfileMode;
+  adjustments: CharacterAdjustments;
+  locks: IdentityLocks;
+  captionSettings: CaptionSettings;
+  exportSettings: ExportSettings;
+  postProcess: PostProcessSettings;
+  wardrobeFilter: WardrobeFilter;
+  environment: EnvironmentSettings;
+  verification: VerificationSettings;
+  manifests: BatchManifest[];
+  balancePlan: BalancePlan;
+  gallery: GeneratedImage[];
+  scenes: SceneShot[];
+}
+
+export interface ProjectRecord extends ProjectSnapshot {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  frameCount: number;
+  hasReference: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'http';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  httpEndpoint: string;
+  httpAuthToken: string;
+}
+
+export interface ImageRequest {
+  // Ordered most relevant first for the pose being rendered
+  references: ReferenceImage[];
+  prompt: string;
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+}
+
+export interface ImageEditRequest {
+  image: string;
+  instruction: string;
+  // Same size as the image: white marks the region to change, black is left untouched
+  mask?: string;
+  references: ReferenceImage[];
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface ImageResult {
+  url: string;
+  // Reported by backends that return usage metadata; absent for mock and self-hosted renders
+  usage?: TokenUsage;
+}
+
+export interface ImageProvider {
+  readonly id: ProviderId;
+  readonly imageModel: string;
+  generateImage(request: ImageRequest): Promise<ImageResult>;
+  editImage(request: ImageEditRequest): Promise<ImageResult>;
+}
+
+export interface AnalysisProvider {
+  readonly id: ProviderId;
+  readonly analysisModel: string;
+  analyzeCharacter(references: ReferenceImage[]): Promise<CharacterProfile>;
+  verifyFrame(request: VerificationRequest): Promise<FrameScore>;
+}